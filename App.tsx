@@ -1,23 +1,191 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { Schema } from 'prosemirror-model';
+import { EditorState, Transaction } from 'prosemirror-state';
 import { EditorView } from 'prosemirror-view';
 import SchemaEditor from './components/SchemaEditor';
 import ProseMirrorEditor from './components/ProseMirrorEditor';
 import Visualizer from './components/Visualizer';
-import { AlertTriangle } from 'lucide-react';
+import TransactionLog from './components/TransactionLog';
+import DocumentIO from './components/DocumentIO';
+import ToolPanel from './components/ToolPanel';
+import SchemaMigration from './components/SchemaMigration';
+import SchemaInspector from './components/SchemaInspector';
+import ShareButton from './components/ShareButton';
+import LinkedCodePrompt from './components/LinkedCodePrompt';
+import WorkspaceLibrary from './components/WorkspaceLibrary';
+import CommandPlayground from './components/CommandPlayground';
+import PluginsPanel from './components/PluginsPanel';
+import InputRulesPanel from './components/InputRulesPanel';
+import PositionMapper from './components/PositionMapper';
+import StateDiff from './components/StateDiff';
+import PasteInspector from './components/PasteInspector';
+import SelectionPanel from './components/SelectionPanel';
+import NodeViewPanel from './components/NodeViewPanel';
+import CollabPanel from './components/CollabPanel';
+import {
+  InputRuleConfig, KeyBindingConfig, LibraryEntry, MigrationReport, PasteRecord, PluginDefinition, PluginTrace, TrackedPosition, TransactionRecord,
+  WatchExpression, Workspace,
+} from './types';
+import { decodeWorkspace, hasWorkspaceFragment, LinkedCode, linkedCode } from './lib/permalink';
+import { saveAutoSnapshot } from './lib/library';
+import { defaultWatches } from './lib/watch';
+import { dispatchMapping, mapTrackedPosition } from './lib/mapping';
+import { MAX_PASTE_RECORDS } from './lib/paste';
+import { compilePlugins, defaultPluginDefinitions } from './lib/plugins';
+import { compileNodeViews, DEFAULT_NODE_VIEW_CODE } from './lib/nodeViews';
+import { CollabNetwork, createNetwork } from './lib/collab';
+import { suggestInputRules, suggestKeyBindings } from './lib/inputRules';
+import { DEFAULT_SCHEMA_CODE, errorMessage } from './lib/utils';
+import { AlertTriangle, ArrowLeftRight, ClipboardPaste, GitCompare, GitMerge, Keyboard, Library, Link2, Network, Puzzle, Route, ScrollText, SquareTerminal, TextCursor, Component, Users } from 'lucide-react';
 
 // Generate default schema initially
 // We need a dummy schema first to initialize state before the user even types
 // But we can re-use the logic from utils or just create a very basic one here if needed
 // Actually, SchemaEditor will fire onSchemaChange on mount with DEFAULT_SCHEMA_CODE
 
+// Older entries are dropped so a long session doesn't keep every state alive
+const MAX_TRANSACTION_LOG = 500;
+
 const App: React.FC = () => {
   const [schema, setSchema] = useState<Schema | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [view, setView] = useState<EditorView | null>(null);
   const [transactionCount, setTransactionCount] = useState(0);
+  const [pos, setPos] = useState<number>(0);
+  const [migrationReport, setMigrationReport] = useState<MigrationReport | null>(null);
+  const [transactions, setTransactions] = useState<TransactionRecord[]>([]);
+  // Timeline position of the state shown in the editor, null when at the latest
+  // state. Mirrored in a ref so handleTransaction can stay stable (the editor is
+  // rebuilt whenever that callback changes).
+  const [timelinePosition, setTimelinePosition] = useState<number | null>(null);
+  const timelinePositionRef = useRef<number | null>(null);
+  const nextTransactionId = useRef(1);
+  // Panel layout and evaluator state, kept here so a permalink can capture them
+  const [schemaExpanded, setSchemaExpanded] = useState(true);
+  const [showPositions, setShowPositions] = useState(false);
+  const [trackCursor, setTrackCursor] = useState(true);
+  // Mirrored for handleTransaction, which maps the position when it isn't tracking
+  const trackCursorRef = useRef(trackCursor);
+  const [toolTab, setToolTab] = useState('transactions');
+  const [watches, setWatches] = useState<WatchExpression[]>(defaultWatches);
+  const [pluginDefinitions, setPluginDefinitions] = useState<PluginDefinition[]>(defaultPluginDefinitions);
+  // Null until edited: until then the rules and bindings follow the schema
+  const [customInputRules, setCustomInputRules] = useState<InputRuleConfig[] | null>(null);
+  const [customKeyBindings, setCustomKeyBindings] = useState<KeyBindingConfig[] | null>(null);
+  const inputRules = useMemo(
+    () => customInputRules ?? (schema ? suggestInputRules(schema).map(suggestion => suggestion.config) : []),
+    [schema, customInputRules]
+  );
+  const keyBindings = useMemo(
+    () => customKeyBindings ?? (schema ? suggestKeyBindings(schema) : []),
+    [schema, customKeyBindings]
+  );
+  // Plugins are evaluated against the schema, and the editor is rebuilt when this changes
+  const compiledPlugins = useMemo(
+    () => schema ? compilePlugins(pluginDefinitions, schema, { rules: inputRules, bindings: keyBindings }) : null,
+    [schema, pluginDefinitions, inputRules, keyBindings]
+  );
+  const [nodeViewCode, setNodeViewCode] = useState(DEFAULT_NODE_VIEW_CODE);
+  // Evaluated like the plugins; applying new code rebuilds the editor
+  const compiledNodeViews = useMemo(
+    () => schema ? compileNodeViews(nodeViewCode, schema) : null,
+    [schema, nodeViewCode]
+  );
+  // The collab session, shown in its tab and in the visualizer
+  const [collabNetwork, setCollabNetwork] = useState<CollabNetwork | null>(null);
+  // The network is mutated in place, so changes need a nudge to re-render
+  const [, setCollabRevision] = useState(0);
+  // The code of the schema in use (not whatever is in the editor right now)
+  const schemaCodeRef = useRef(DEFAULT_SCHEMA_CODE);
+  // Decoding a permalink is async, so the workspace waits for it before mounting
+  const [restoring, setRestoring] = useState(() => hasWorkspaceFragment(window.location.hash));
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  // A permalink whose code hasn't been run yet
+  const [linkedWorkspace, setLinkedWorkspace] = useState<{ workspace: Workspace; code: LinkedCode[] } | null>(null);
+  // Content loaded from a permalink or the library. Bumping the key remounts
+  // the schema editor and the editor so they start from it.
+  const [loadedContent, setLoadedContent] = useState<Pick<Workspace, 'schemaCode' | 'doc' | 'selection'> | null>(null);
+  const [contentKey, setContentKey] = useState(0);
+  // Bumped after auto snapshots so the library list reloads
+  const [libraryRevision, setLibraryRevision] = useState(0);
+
+  // Positions pinned in the mapping view, mapped through every transaction
+  const [trackedPositions, setTrackedPositions] = useState<TrackedPosition[]>([]);
+  // Pastes and drops traced by the editor
+  const [pasteRecords, setPasteRecords] = useState<PasteRecord[]>([]);
+
+  useEffect(() => {
+    trackCursorRef.current = trackCursor;
+  }, [trackCursor]);
+
+  const updateTimelinePosition = useCallback((position: number | null) => {
+    timelinePositionRef.current = position;
+    setTimelinePosition(position);
+  }, []);
+
+  // Replace the schema and document. The document is loaded under its own
+  // schema rather than migrated from the current one.
+  const loadContent = useCallback((content: Pick<Workspace, 'schemaCode' | 'doc' | 'selection'>) => {
+    schemaCodeRef.current = content.schemaCode;
+    setLoadedContent(content);
+    setSchema(null);
+    setView(null);
+    setMigrationReport(null);
+    setTransactions([]);
+    updateTimelinePosition(null);
+    setPos(0);
+    // Pinned positions belong to the previous document
+    setTrackedPositions([]);
+    setPasteRecords([]);
+    setContentKey(key => key + 1);
+  }, [updateTimelinePosition]);
 
-  const handleSchemaChange = useCallback((newSchema: Schema) => {
+  // Everything a permalink evaluates: the schema, plugins, node views, rules,
+  // bindings and watches
+  const applyWorkspaceCode = useCallback((workspace: Workspace) => {
+    loadContent(workspace);
+    setPos(workspace.pos ?? 0);
+    if (workspace.watches?.length) setWatches(workspace.watches);
+    setPluginDefinitions(workspace.plugins);
+    setCustomInputRules(workspace.inputRules);
+    setCustomKeyBindings(workspace.keyBindings);
+    setNodeViewCode(workspace.nodeViewCode);
+  }, [loadContent]);
+
+  // Links can come from anyone, so code in them waits for the user's go-ahead.
+  // Until then the document is loaded with the built-in schema.
+  useEffect(() => {
+    if (!hasWorkspaceFragment(window.location.hash)) return;
+    decodeWorkspace(window.location.hash)
+      .then(workspace => {
+        if (!workspace) return;
+        const code = linkedCode(workspace);
+        if (code.length) {
+          loadContent({ schemaCode: DEFAULT_SCHEMA_CODE, doc: workspace.doc, selection: workspace.selection });
+          setPos(workspace.pos ?? 0);
+          setLinkedWorkspace({ workspace, code });
+        } else {
+          applyWorkspaceCode(workspace);
+        }
+        const layout = workspace.layout;
+        if (layout) {
+          setSchemaExpanded(layout.schemaExpanded ?? true);
+          setShowPositions(!!layout.showPositions);
+          setTrackCursor(layout.trackCursor ?? true);
+          if (layout.toolTab) setToolTab(layout.toolTab);
+        }
+      })
+      .catch(err => setRestoreError(errorMessage(err)))
+      .finally(() => setRestoring(false));
+  }, [loadContent, applyWorkspaceCode]);
+
+  const handleRunLinkedCode = useCallback(() => {
+    if (linkedWorkspace) applyWorkspaceCode(linkedWorkspace.workspace);
+    setLinkedWorkspace(null);
+  }, [linkedWorkspace, applyWorkspaceCode]);
+
+  const handleSchemaChange = useCallback((newSchema: Schema, code: string) => {
+    schemaCodeRef.current = code;
     setSchema(newSchema);
     setError(null);
   }, []);
@@ -28,12 +196,112 @@ const App: React.FC = () => {
 
   const handleViewReady = useCallback((newView: EditorView) => {
     setView(newView);
+    // Recorded states belong to the previous view (and possibly schema)
+    setTransactions([]);
+    updateTimelinePosition(null);
+  }, [updateTimelinePosition]);
+
+  const handlePaste = useCallback((record: PasteRecord) => {
+    setPasteRecords(prev => [...prev, record].slice(-MAX_PASTE_RECORDS));
   }, []);
 
-  const handleTransaction = useCallback(() => {
+  const clearPasteRecords = useCallback(() => setPasteRecords([]), []);
+
+  const handleTransaction = useCallback((
+    tr: Transaction,
+    appended: Transaction[],
+    stateBefore: EditorState,
+    stateAfter: EditorState,
+    pluginTrace: PluginTrace
+  ) => {
+    const record: TransactionRecord = {
+      id: nextTransactionId.current++,
+      time: Date.now(),
+      transaction: tr,
+      appended,
+      stateBefore,
+      stateAfter,
+      pluginTrace,
+    };
+    // Dispatching while rewound branches off: the later transactions are dropped
+    const position = timelinePositionRef.current;
+    setTransactions(prev => {
+      const base = position === null ? prev : prev.slice(0, position);
+      return [...base, record].slice(-MAX_TRANSACTION_LOG);
+    });
+    updateTimelinePosition(null);
+    // Keep positions on the same content. A filtered transaction leaves the
+    // doc as it was, and has nothing to map.
+    if (stateAfter.doc !== stateBefore.doc) {
+      const applied = [tr, ...appended];
+      const mapping = dispatchMapping(applied);
+      if (!trackCursorRef.current) setPos(current => mapping.map(current));
+      setTrackedPositions(prev => prev.map(tracked => mapTrackedPosition(tracked, record.id, applied)));
+    }
     // Increment counter to force visualizer update
     setTransactionCount(c => c + 1);
-  }, []);
+  }, [updateTimelinePosition]);
+
+  // Every client starts from the main editor's current document
+  const startCollab = useCallback((clientCount: number) => {
+    if (!view) return;
+    setCollabNetwork(createNetwork(view.state.doc, clientCount, () => setCollabRevision(count => count + 1)));
+  }, [view]);
+
+  const handleClearTransactions = useCallback(() => {
+    setTransactions([]);
+    updateTimelinePosition(null);
+  }, [updateTimelinePosition]);
+
+  const handleSeek = useCallback((position: number) => {
+    if (!view || transactions.length === 0) return;
+    const clamped = Math.max(0, Math.min(position, transactions.length));
+    const state = clamped === 0 ? transactions[0].stateBefore : transactions[clamped - 1].stateAfter;
+    // updateState doesn't go through dispatchTransaction, so this isn't recorded
+    view.updateState(state);
+    updateTimelinePosition(clamped === transactions.length ? null : clamped);
+    setTransactionCount(c => c + 1);
+  }, [view, transactions, updateTimelinePosition]);
+
+  const handleBranch = useCallback(() => {
+    const position = timelinePositionRef.current;
+    if (position === null) return;
+    setTransactions(prev => prev.slice(0, position));
+    updateTimelinePosition(null);
+  }, [updateTimelinePosition]);
+
+  // Snapshot the schema in use and its document before it's replaced
+  const handleBeforeApply = useCallback(() => {
+    if (!view) return;
+    saveAutoSnapshot(schemaCodeRef.current, view.state.doc.toJSON())
+      .then(saved => saved && setLibraryRevision(revision => revision + 1))
+      .catch(err => console.warn("Couldn't save a snapshot before applying the schema", err));
+  }, [view]);
+
+  const getLibraryContent = useCallback(() => {
+    if (!view) return null;
+    return { schemaCode: schemaCodeRef.current, doc: view.state.doc.toJSON() };
+  }, [view]);
+
+  const handleLoadEntry = useCallback((entry: LibraryEntry) => {
+    loadContent({ schemaCode: entry.schemaCode, doc: entry.doc, selection: null });
+  }, [loadContent]);
+
+  const getWorkspace = useCallback((): Workspace | null => {
+    if (!view) return null;
+    return {
+      schemaCode: schemaCodeRef.current,
+      doc: view.state.doc.toJSON(),
+      selection: view.state.selection.toJSON(),
+      pos,
+      watches,
+      plugins: pluginDefinitions,
+      inputRules: customInputRules,
+      keyBindings: customKeyBindings,
+      nodeViewCode,
+      layout: { schemaExpanded, showPositions, trackCursor, toolTab },
+    };
+  }, [view, pos, watches, pluginDefinitions, customInputRules, customKeyBindings, nodeViewCode, schemaExpanded, showPositions, trackCursor, toolTab]);
 
   return (
     <div className="flex flex-col h-screen bg-slate-950 text-slate-200 font-sans">
@@ -43,11 +311,27 @@ const App: React.FC = () => {
           <h1 className="text-xl font-bold text-slate-100 tracking-tight">ProseMirror State Explorer</h1>
           <p className="text-xs text-slate-400 mt-1">Visualize nodes, evaluate expressions, and debug schemas.</p>
         </div>
-        <a href="https://prosemirror.net" target="_blank" rel="noreferrer" className="text-xs font-medium text-blue-400 hover:text-blue-300 transition-colors">
-            ProseMirror Documentation &rarr;
-        </a>
+        <div className="flex items-center gap-4">
+          <ShareButton getWorkspace={getWorkspace} />
+          <a href="https://prosemirror.net" target="_blank" rel="noreferrer" className="text-xs font-medium text-blue-400 hover:text-blue-300 transition-colors">
+              ProseMirror Documentation &rarr;
+          </a>
+        </div>
       </header>
 
+      {/* Permalink Banner */}
+      {restoreError && (
+        <div className="bg-red-900/50 border-b border-red-800 px-6 py-2 flex items-center gap-2 text-sm text-red-200">
+           <Link2 size={16} />
+           <span className="font-semibold">Couldn't restore the linked workspace:</span> {restoreError}
+        </div>
+      )}
+
+      {/* Linked Code Prompt */}
+      {linkedWorkspace && (
+        <LinkedCodePrompt code={linkedWorkspace.code} onRun={handleRunLinkedCode} onDismiss={() => setLinkedWorkspace(null)} />
+      )}
+
       {/* Global Error Banner */}
       {error && (
         <div className="bg-red-900/50 border-b border-red-800 px-6 py-2 flex items-center gap-2 text-sm text-red-200">
@@ -56,22 +340,56 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* Migration Banner */}
+      {migrationReport && (!migrationReport.doc || migrationReport.issues.length > 0) && (
+        <div className="bg-amber-900/30 border-b border-amber-800/60 px-6 py-2 flex items-center gap-2 text-sm text-amber-200">
+           <GitMerge size={16} />
+           {migrationReport.doc
+             ? `The document was carried over with ${migrationReport.issues.length} change(s).`
+             : "The document couldn't be carried over into the new schema."}
+           <span className="text-amber-300/70">See Tools &rsaquo; Migration.</span>
+        </div>
+      )}
+
       {/* Main Content */}
+      {restoring ? (
+        <div className="flex-1 flex items-center justify-center text-slate-500">
+            Restoring workspace...
+        </div>
+      ) : (
       <div className="flex-1 flex flex-col overflow-hidden">
         {/* Schema Editor Section (Top) */}
         <div className="flex-none max-h-[40vh] overflow-y-auto">
-            <SchemaEditor onSchemaChange={handleSchemaChange} onError={handleError} />
+            <SchemaEditor
+                key={contentKey}
+                initialCode={loadedContent?.schemaCode}
+                onSchemaChange={handleSchemaChange}
+                onError={handleError}
+                onBeforeApply={handleBeforeApply}
+                inputRules={customInputRules}
+                expanded={schemaExpanded}
+                onExpandedChange={setSchemaExpanded}
+            />
         </div>
 
         {/* Workspace (Bottom Split) */}
         <div className="flex-1 flex overflow-hidden">
             {/* Editor Pane */}
-            <div className="w-1/2 min-w-[320px] h-full overflow-hidden border-r border-slate-700">
-                {schema ? (
+            <div className="w-1/3 min-w-[320px] h-full overflow-hidden border-r border-slate-700">
+                {schema && compiledPlugins && compiledNodeViews ? (
                     <ProseMirrorEditor 
+                        key={contentKey}
                         schema={schema} 
+                        plugins={compiledPlugins}
+                        nodeViews={compiledNodeViews}
                         onViewReady={handleViewReady} 
                         onTransaction={handleTransaction}
+                        onPosHover={setPos}
+                        onMigration={setMigrationReport}
+                        onPaste={handlePaste}
+                        initialContent={loadedContent}
+                        showPositions={showPositions}
+                        onShowPositionsChange={setShowPositions}
                     />
                 ) : (
                     <div className="h-full flex items-center justify-center text-slate-500">
@@ -81,11 +399,167 @@ const App: React.FC = () => {
             </div>
 
             {/* Visualizer Pane */}
-            <div className="w-1/2 min-w-[320px] h-full overflow-hidden bg-slate-950">
-                <Visualizer view={view} transactionCount={transactionCount} />
+            <div className="w-1/3 min-w-[320px] h-full overflow-hidden bg-slate-950 border-r border-slate-700">
+                <Visualizer
+                    view={view}
+                    transactionCount={transactionCount}
+                    pos={pos}
+                    onPosChange={setPos}
+                    trackCursor={trackCursor}
+                    onTrackCursorChange={setTrackCursor}
+                    watches={watches}
+                    onWatchesChange={setWatches}
+                    collab={collabNetwork}
+                />
+            </div>
+
+            {/* Tools Pane */}
+            <div className="w-1/3 min-w-[320px] h-full overflow-hidden bg-slate-950">
+                <ToolPanel
+                    activeId={toolTab}
+                    onActiveChange={setToolTab}
+                    tabs={[
+                        {
+                            id: 'transactions',
+                            label: 'Transactions',
+                            icon: <ScrollText size={14} />,
+                            content: (
+                                <TransactionLog
+                                    transactions={transactions}
+                                    position={timelinePosition ?? transactions.length}
+                                    onSeek={handleSeek}
+                                    onBranch={handleBranch}
+                                    onClear={handleClearTransactions}
+                                />
+                            ),
+                        },
+                        {
+                            id: 'commands',
+                            label: 'Commands',
+                            icon: <SquareTerminal size={14} />,
+                            content: <CommandPlayground view={view} transactionCount={transactionCount} />,
+                        },
+                        {
+                            id: 'plugins',
+                            label: 'Plugins',
+                            icon: <Puzzle size={14} />,
+                            content: (
+                                <PluginsPanel
+                                    schema={schema}
+                                    definitions={pluginDefinitions}
+                                    onDefinitionsChange={setPluginDefinitions}
+                                    compiled={compiledPlugins}
+                                    transactionCount={transactionCount}
+                                />
+                            ),
+                        },
+                        {
+                            id: 'input-rules',
+                            label: 'Rules & Keys',
+                            icon: <Keyboard size={14} />,
+                            content: (
+                                <InputRulesPanel
+                                    schema={schema}
+                                    rules={inputRules}
+                                    rulesCustomized={customInputRules !== null}
+                                    onRulesChange={setCustomInputRules}
+                                    bindings={keyBindings}
+                                    bindingsCustomized={customKeyBindings !== null}
+                                    onBindingsChange={setCustomKeyBindings}
+                                    compiled={compiledPlugins}
+                                    transactionCount={transactionCount}
+                                />
+                            ),
+                        },
+                        {
+                            id: 'mapping',
+                            label: 'Mapping',
+                            icon: <Route size={14} />,
+                            content: (
+                                <PositionMapper
+                                    view={view}
+                                    pos={pos}
+                                    onPosChange={setPos}
+                                    positions={trackedPositions}
+                                    onPositionsChange={setTrackedPositions}
+                                />
+                            ),
+                        },
+                        {
+                            id: 'diff',
+                            label: 'Diff',
+                            icon: <GitCompare size={14} />,
+                            content: (
+                                <StateDiff
+                                    view={view}
+                                    transactions={transactions}
+                                    transactionCount={transactionCount}
+                                    libraryRevision={libraryRevision}
+                                />
+                            ),
+                        },
+                        {
+                            id: 'paste',
+                            label: 'Paste',
+                            icon: <ClipboardPaste size={14} />,
+                            content: <PasteInspector view={view} records={pasteRecords} onClear={clearPasteRecords} />,
+                        },
+                        {
+                            id: 'selection',
+                            label: 'Selection',
+                            icon: <TextCursor size={14} />,
+                            content: <SelectionPanel view={view} transactionCount={transactionCount} pos={pos} />,
+                        },
+                        {
+                            id: 'node-views',
+                            label: 'Node Views',
+                            icon: <Component size={14} />,
+                            content: (
+                                <NodeViewPanel
+                                    schema={schema}
+                                    code={nodeViewCode}
+                                    onCodeChange={setNodeViewCode}
+                                    compiled={compiledNodeViews}
+                                    transactionCount={transactionCount}
+                                />
+                            ),
+                        },
+                        {
+                            id: 'collab',
+                            label: 'Collab',
+                            icon: <Users size={14} />,
+                            content: <CollabPanel view={view} network={collabNetwork} onStart={startCollab} />,
+                        },
+                        {
+                            id: 'import-export',
+                            label: 'Import / Export',
+                            icon: <ArrowLeftRight size={14} />,
+                            content: <DocumentIO view={view} transactionCount={transactionCount} />,
+                        },
+                        {
+                            id: 'library',
+                            label: 'Library',
+                            icon: <Library size={14} />,
+                            content: <WorkspaceLibrary revision={libraryRevision} getCurrent={getLibraryContent} onLoad={handleLoadEntry} />,
+                        },
+                        {
+                            id: 'migration',
+                            label: 'Migration',
+                            icon: <GitMerge size={14} />,
+                            content: <SchemaMigration report={migrationReport} view={view} />,
+                        },
+                        {
+                            id: 'schema',
+                            label: 'Schema',
+                            icon: <Network size={14} />,
+                            content: <SchemaInspector schema={schema} view={view} pos={pos} transactionCount={transactionCount} />,
+                        },
+                    ]}
+                />
             </div>
         </div>
       </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+interface AccordionProps {
+  title: string;
+  icon: React.ReactNode;
+  defaultExpanded?: boolean;
+  // Extra controls rendered in the header; clicks on them don't toggle the section
+  headerExtra?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+const Accordion: React.FC<AccordionProps> = ({ title, icon, defaultExpanded = true, headerExtra, children }) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(defaultExpanded);
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 overflow-hidden">
+      <div
+        className="flex items-center justify-between p-4 cursor-pointer hover:bg-slate-800/50 transition-colors select-none"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="flex items-center gap-2 text-slate-400">
+          {icon}
+          <span className="text-sm font-medium uppercase tracking-wider">{title}</span>
+        </div>
+        <div className="flex items-center gap-3">
+          {headerExtra && (
+            <div onClick={(e) => e.stopPropagation()}>
+              {headerExtra}
+            </div>
+          )}
+          {isExpanded ? <ChevronDown size={16} className="text-slate-500" /> : <ChevronRight size={16} className="text-slate-500" />}
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="px-4 pb-4 pt-0 border-t border-slate-800/50 mt-4">
+          {children}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Accordion;
@@ -0,0 +1,118 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { Compartment, EditorState, Extension, StateEffect } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { Diagnostic, forceLinting, linter } from '@codemirror/lint';
+import { CodeDiagnostic, codeEditorSetup, singleLineSetup, toEditorDiagnostics } from '../lib/codeEditor';
+import { cn } from '../lib/utils';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Language features like completion sources, reconfigured when changed
+  extensions?: Extension;
+  // Problems found outside the editor, e.g. when evaluating the code
+  diagnostics?: CodeDiagnostic[];
+  // Checks run on the text itself while typing
+  lintSource?: (state: EditorState) => Diagnostic[];
+  singleLine?: boolean;
+  className?: string;
+}
+
+// Shared defaults, so the effects below don't re-run on every render
+const NO_EXTENSIONS: Extension = [];
+const NO_DIAGNOSTICS: CodeDiagnostic[] = [];
+
+// Dispatched when external diagnostics change, so the linter runs again
+const refreshDiagnostics = StateEffect.define<null>();
+
+export interface CodeEditorHandle {
+  // Select the given (1-based) line and scroll it into view
+  jumpToLine: (line: number) => void;
+}
+
+const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({
+  value, onChange, extensions = NO_EXTENSIONS, diagnostics = NO_DIAGNOSTICS, lintSource, singleLine = false, className,
+}, ref) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const compartment = useRef(new Compartment());
+
+  // The linter and update listener are created once, so they read the latest props through refs
+  const onChangeRef = useRef(onChange);
+  const diagnosticsRef = useRef(diagnostics);
+  const lintSourceRef = useRef(lintSource);
+  onChangeRef.current = onChange;
+  lintSourceRef.current = lintSource;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const view = new EditorView({
+      parent: containerRef.current,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          singleLine ? singleLineSetup() : codeEditorSetup(),
+          linter(view => [
+            ...toEditorDiagnostics(view.state.doc, diagnosticsRef.current),
+            ...(lintSourceRef.current?.(view.state) || []),
+          ], {
+            delay: 300,
+            needsRefresh: update => update.transactions.some(tr => tr.effects.some(e => e.is(refreshDiagnostics))),
+          }),
+          EditorView.updateListener.of(update => {
+            if (update.docChanged) onChangeRef.current(update.state.doc.toString());
+          }),
+          compartment.current.of(extensions),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+    // The editor lives as long as the component; props are synced below
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [singleLine]);
+
+  // Replace the text when it's changed from outside, e.g. by a reset
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || view.state.doc.toString() === value) return;
+    view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: value } });
+  }, [value]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: compartment.current.reconfigure(extensions) });
+  }, [extensions]);
+
+  useEffect(() => {
+    diagnosticsRef.current = diagnostics;
+    const view = viewRef.current;
+    if (!view) return;
+    view.dispatch({ effects: refreshDiagnostics.of(null) });
+    forceLinting(view);
+  }, [diagnostics]);
+
+  useImperativeHandle(ref, () => ({
+    jumpToLine: (lineNumber: number) => {
+      const view = viewRef.current;
+      if (!view) return;
+      const line = view.state.doc.line(Math.max(1, Math.min(lineNumber, view.state.doc.lines)));
+      view.dispatch({
+        selection: { anchor: line.from, head: line.to },
+        effects: EditorView.scrollIntoView(line.from, { y: 'center' }),
+      });
+      view.focus();
+    },
+  }), []);
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn("border border-slate-700 rounded-md overflow-hidden focus-within:ring-2 focus-within:ring-blue-500", className)}
+    />
+  );
+});
+
+export default CodeEditor;
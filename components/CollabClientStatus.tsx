@@ -0,0 +1,68 @@
+import React from 'react';
+import { Step } from 'prosemirror-transform';
+import { describeStep } from '../lib/transactions';
+import { CollabClient, describeStepMap, unconfirmedSteps } from '../lib/collab';
+
+interface CollabClientStatusProps {
+  client: CollabClient;
+}
+
+const StepLine: React.FC<{ step: Step }> = ({ step }) => {
+  const { name, fields } = describeStep(step);
+  return (
+    <div className="font-mono break-all">
+      <span className="text-blue-300">{name}</span>{' '}
+      <span className="text-slate-400">{fields.map(field => `${field.name}=${field.value}`).join(' ')}</span>
+    </div>
+  );
+};
+
+// A client's unconfirmed steps and what its last receive rebased, shown on
+// the client's card and in the visualizer
+const CollabClientStatus: React.FC<CollabClientStatusProps> = ({ client }) => {
+  const unconfirmed = unconfirmedSteps(client);
+  const rebase = client.lastRebase;
+
+  return (
+    <>
+      <div>
+        <span className="block text-slate-500 mb-1 text-[10px] uppercase">Unconfirmed ({unconfirmed.length})</span>
+        {unconfirmed.length === 0
+          ? <div className="text-slate-600 italic">None</div>
+          : unconfirmed.map((step, idx) => <StepLine key={idx} step={step} />)}
+      </div>
+
+      {rebase && (
+        <div className="space-y-1">
+          <span className="block text-slate-500 text-[10px] uppercase">Last receive</span>
+          <div className="font-mono text-slate-300">
+            v{rebase.fromVersion} → v{rebase.toVersion}, {rebase.confirmed} confirmed, {rebase.remote} remote
+            {rebase.lost > 0 && <span className="text-red-400">, {rebase.lost} lost in rebase</span>}
+          </div>
+          {rebase.before.length > rebase.confirmed && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <span className="block text-slate-500 text-[10px] uppercase">Before</span>
+                {rebase.before.slice(rebase.confirmed).map((step, idx) => <StepLine key={idx} step={step} />)}
+              </div>
+              <div>
+                <span className="block text-slate-500 text-[10px] uppercase">Rebased</span>
+                {rebase.after.length === 0
+                  ? <div className="text-slate-600 italic">None</div>
+                  : rebase.after.map((step, idx) => <StepLine key={idx} step={step} />)}
+              </div>
+            </div>
+          )}
+          <div>
+            <span className="block text-slate-500 text-[10px] uppercase">Mapping</span>
+            {rebase.mapping.maps.map((map, idx) => (
+              <div key={idx} className="font-mono text-slate-400">{idx}. {describeStepMap(map)}</div>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default CollabClientStatus;
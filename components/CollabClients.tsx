@@ -0,0 +1,50 @@
+import React from 'react';
+import { getVersion } from 'prosemirror-collab';
+import { cn } from '../lib/utils';
+import { authorityVersion, CollabNetwork, isInSync } from '../lib/collab';
+import CollabClientStatus from './CollabClientStatus';
+
+interface CollabClientsProps {
+  network: CollabNetwork | null;
+}
+
+// Where each client of the collab session stands against the authority
+const CollabClients: React.FC<CollabClientsProps> = ({ network }) => {
+  if (!network) {
+    return <div className="text-xs text-slate-600 italic">No session; start one in the Collab tab</div>;
+  }
+
+  const version = authorityVersion(network.authority);
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center gap-2">
+        <span className="text-slate-500 text-[10px] uppercase">Authority</span>
+        <span className="font-mono text-slate-300">v{version}</span>
+        <span className="font-mono text-slate-500">{network.queue.length} queued</span>
+      </div>
+      {network.clients.map(client => {
+        const synced = isInSync(network, client);
+        const behind = version - getVersion(client.state);
+        return (
+          <div key={client.id} className="bg-slate-900 rounded-lg border border-slate-800 p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="font-semibold text-slate-100">{client.id}</span>
+              <span className="font-mono text-slate-400">v{getVersion(client.state)}</span>
+              {behind > 0 && <span className="font-mono text-slate-500">{behind} behind</span>}
+              <span className={cn(
+                "ml-auto px-1.5 rounded border text-[10px]",
+                synced ? "bg-green-900/40 border-green-800 text-green-300" : "bg-amber-900/40 border-amber-800 text-amber-300"
+              )}>
+                {synced ? 'in sync' : 'behind or unsent'}
+              </span>
+            </div>
+            <CollabClientStatus client={client} />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CollabClients;
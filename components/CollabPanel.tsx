@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EditorView } from 'prosemirror-view';
+import { getVersion } from 'prosemirror-collab';
+import { ArrowDown, ArrowUp, Play, RefreshCw, Send, Trash2, UserPlus, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import {
+  addClient, applyLocal, authorityVersion, CollabClient, CollabMessage, CollabMessageStatus, CollabNetwork, deliverMessage,
+  dropMessage, isHeld, isInSync, MAX_CLIENTS, moveMessage, removeClient, resync, setHold,
+} from '../lib/collab';
+import CollabClientStatus from './CollabClientStatus';
+
+interface CollabPanelProps {
+  // The main editor, whose document and schema a session starts from
+  view: EditorView | null;
+  // The session lives in App, which the visualizer also shows
+  network: CollabNetwork | null;
+  onStart: (clientCount: number) => void;
+}
+
+const STATUS_STYLES: Record<CollabMessageStatus, string> = {
+  queued: "bg-slate-800 border-slate-700 text-slate-300",
+  delivered: "bg-green-900/40 border-green-800 text-green-300",
+  rejected: "bg-amber-900/40 border-amber-800 text-amber-300",
+  dropped: "bg-red-900/40 border-red-800 text-red-300",
+};
+
+const ClientEditor: React.FC<{ network: CollabNetwork; client: CollabClient }> = ({ network, client }) => {
+  const mountRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!mountRef.current) return;
+    const view = new EditorView(mountRef.current, {
+      state: client.state,
+      attributes: { class: 'pm-collab-client' },
+      dispatchTransaction: tr => applyLocal(network, client.id, tr),
+    });
+    client.view = view;
+    return () => {
+      client.view = null;
+      view.destroy();
+    };
+  }, [network, client]);
+
+  return <div ref={mountRef} />;
+};
+
+const ClientCard: React.FC<{ network: CollabNetwork; client: CollabClient }> = ({ network, client }) => {
+  const synced = isInSync(network, client);
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 p-2 space-y-2 text-xs min-w-0">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold text-slate-100">{client.id}</span>
+        <span className="font-mono text-slate-400">v{getVersion(client.state)}</span>
+        <span className={cn(
+          "px-1.5 rounded border text-[10px]",
+          synced ? "bg-green-900/40 border-green-800 text-green-300" : "bg-amber-900/40 border-amber-800 text-amber-300"
+        )}>
+          {synced ? 'in sync' : 'behind or unsent'}
+        </span>
+        {network.clients.length > 2 && (
+          <button onClick={() => removeClient(network, client.id)} title="Remove client" className="ml-auto text-slate-500 hover:text-red-400">
+            <X size={12} />
+          </button>
+        )}
+      </div>
+
+      <ClientEditor network={network} client={client} />
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-slate-400">
+        {(['outgoing', 'incoming'] as const).map(direction => (
+          <label key={direction} className="flex items-center gap-1 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={direction === 'outgoing' ? client.holdOutgoing : client.holdIncoming}
+              onChange={(e) => setHold(network, client.id, direction, e.target.checked)}
+              className="rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500"
+            />
+            Hold {direction}
+          </label>
+        ))}
+        <button onClick={() => resync(network, client.id)} className="flex items-center gap-1 hover:text-white" title="Fetch missed steps and send unconfirmed ones">
+          <RefreshCw size={12} /> Resync
+        </button>
+      </div>
+
+      <CollabClientStatus client={client} />
+    </div>
+  );
+};
+
+const route = (message: CollabMessage) =>
+  message.kind === 'send' ? `${message.client} → authority` : `authority → ${message.client}`;
+
+const MessageRow: React.FC<{ network: CollabNetwork; message: CollabMessage; held?: boolean }> = ({ network, message, held }) => (
+  <div className="flex items-center gap-2 px-3 py-1 text-xs border-t border-slate-800 first:border-t-0">
+    <span className={cn("px-1.5 rounded border text-[10px] font-mono shrink-0", STATUS_STYLES[message.status])}>{message.status}</span>
+    <span className="text-slate-300 shrink-0">{route(message)}</span>
+    <span className="font-mono text-slate-500 shrink-0">
+      v{message.version}, {message.steps.length} step{message.steps.length === 1 ? '' : 's'}
+    </span>
+    {held && <span className="px-1 rounded text-[10px] bg-amber-900/40 border border-amber-800 text-amber-300 shrink-0">held</span>}
+    <span className="font-mono text-slate-400 break-all min-w-0">{message.note}</span>
+    {message.status === 'queued' && (
+      <div className="ml-auto flex items-center gap-1 shrink-0 text-slate-400">
+        <button onClick={() => moveMessage(network, message.id, -1)} title="Earlier" className="hover:text-white"><ArrowUp size={12} /></button>
+        <button onClick={() => moveMessage(network, message.id, 1)} title="Later" className="hover:text-white"><ArrowDown size={12} /></button>
+        <button onClick={() => deliverMessage(network, message.id)} title="Deliver now" className="hover:text-green-400"><Send size={12} /></button>
+        <button onClick={() => dropMessage(network, message.id)} title="Drop" className="hover:text-red-400"><Trash2 size={12} /></button>
+      </div>
+    )}
+  </div>
+);
+
+const CollabPanel: React.FC<CollabPanelProps> = ({ view, network, onStart }) => {
+  const [clientCount, setClientCount] = useState(2);
+
+  if (!view) return <div className="p-4 text-slate-500 text-sm">Waiting for editor...</div>;
+
+  const stale = network && network.clients[0]?.state.schema !== view.state.schema;
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-3">
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            Clients
+            <select
+              value={clientCount}
+              onChange={(e) => setClientCount(Number(e.target.value))}
+              className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-xs focus:outline-none focus:border-blue-500"
+            >
+              {[2, 3, 4].map(count => <option key={count} value={count}>{count}</option>)}
+            </select>
+          </label>
+          <div className="flex gap-2">
+            {network && (
+              <button
+                onClick={() => addClient(network)}
+                disabled={network.clients.length >= MAX_CLIENTS}
+                className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-slate-300 bg-slate-800 rounded-md hover:bg-slate-700 disabled:opacity-40 transition-colors"
+              >
+                <UserPlus size={14} /> Add client
+              </button>
+            )}
+            <button
+              onClick={() => onStart(clientCount)}
+              className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 transition-colors"
+            >
+              <Play size={14} /> {network ? 'Restart' : 'Start'}
+            </button>
+          </div>
+        </div>
+        <p className="text-xs text-slate-500">
+          Each client edits a copy of the current document and syncs through a local authority.
+          Hold a client's messages to delay them, then reorder, deliver or drop them in the queue.
+        </p>
+        {stale && <p className="text-xs text-amber-300">The schema changed since this session started; restart to use it.</p>}
+      </div>
+
+      {network && (
+        <>
+          <div className="flex items-center gap-2 text-xs">
+            <span className="text-slate-500 text-[10px] uppercase">Authority</span>
+            <span className="font-mono text-slate-300">v{authorityVersion(network.authority)}</span>
+            <span className="font-mono text-slate-500 truncate">{network.authority.doc.textContent.slice(0, 80)}</span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {network.clients.map(client => <ClientCard key={client.id} network={network} client={client} />)}
+          </div>
+
+          <div className="bg-slate-900 rounded-lg border border-slate-800 py-1.5">
+            <div className="px-3 pb-1 text-[10px] uppercase text-slate-500">Queue ({network.queue.length})</div>
+            {network.queue.length === 0
+              ? <div className="px-3 text-xs text-slate-600 italic">Empty</div>
+              : network.queue.map(message => <MessageRow key={message.id} network={network} message={message} held={isHeld(network, message)} />)}
+          </div>
+
+          {network.handled.length > 0 && (
+            <div className="bg-slate-900 rounded-lg border border-slate-800 py-1.5">
+              <div className="px-3 pb-1 text-[10px] uppercase text-slate-500">Handled</div>
+              {[...network.handled].reverse().map(message => <MessageRow key={message.id} network={network} message={message} />)}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CollabPanel;
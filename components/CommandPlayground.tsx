@@ -0,0 +1,258 @@
+import React, { useMemo, useState } from 'react';
+import { Schema } from 'prosemirror-model';
+import { EditorView } from 'prosemirror-view';
+import { Check, Eye, Play, X } from 'lucide-react';
+import { cn, errorMessage } from '../lib/utils';
+import {
+  builtinCommands, CommandDescriptor, CommandSource, customCommandScope, DEFAULT_CUSTOM_COMMANDS_CODE, dryRun, evaluateCustomCommands,
+  previewCommand, schemaCommands,
+} from '../lib/commands';
+import { describeSelection, describeStep } from '../lib/transactions';
+import { diffLines } from '../lib/textDiff';
+import { CodeDiagnostic, expressionCompletions, locateEvaluationError } from '../lib/codeEditor';
+import CodeEditor from './CodeEditor';
+import DiffView from './DiffView';
+
+interface CommandPlaygroundProps {
+  view: EditorView | null;
+  transactionCount: number;
+}
+
+const SOURCE_LABELS: Record<CommandSource, string> = {
+  builtin: 'prosemirror-commands',
+  schema: 'From schema',
+  custom: 'Custom',
+};
+
+const NO_COMMANDS: CommandDescriptor[] = [];
+
+const CommandPlayground: React.FC<CommandPlaygroundProps> = ({ view, transactionCount }) => {
+  const [filter, setFilter] = useState('');
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [customCode, setCustomCode] = useState(DEFAULT_CUSTOM_COMMANDS_CODE);
+  // Custom commands close over the schema they were registered with
+  const [custom, setCustom] = useState<{ schema: Schema; commands: CommandDescriptor[] } | null>(null);
+  const [customError, setCustomError] = useState<string | null>(null);
+  const [customDiagnostics, setCustomDiagnostics] = useState<CodeDiagnostic[]>([]);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  const schema = view?.state.schema;
+  const customCommands = custom && custom.schema === schema ? custom.commands : NO_COMMANDS;
+  const commands = useMemo(() => [
+    ...builtinCommands(),
+    ...(schema ? schemaCommands(schema) : []),
+    ...customCommands,
+  ], [schema, customCommands]);
+
+  // Mutated in place so the completion source always sees the current schema
+  const [completionScope] = useState<Record<string, unknown>>({});
+  Object.assign(completionScope, customCommandScope(schema || null));
+  const completions = useMemo(() => expressionCompletions(completionScope), [completionScope]);
+
+  // Dry run of every command at the current selection
+  const dryRuns = useMemo(() => {
+    if (!view) return new Map();
+    return new Map(commands.map(descriptor => [descriptor.id, dryRun(descriptor.command, view.state, view)]));
+  }, [view, commands, transactionCount]);
+
+  const previewed = commands.find(descriptor => descriptor.id === previewId) || null;
+  const preview = useMemo(() => {
+    if (!view || !previewed) return null;
+    const result = previewCommand(previewed.command, view.state, view);
+    const tr = result.transaction;
+    return {
+      ...result,
+      diff: tr && tr.docChanged
+        ? diffLines(JSON.stringify(tr.before.toJSON(), null, 2), JSON.stringify(tr.doc.toJSON(), null, 2))
+        : null,
+    };
+  }, [view, previewed, transactionCount]);
+
+  if (!view) {
+    return (
+      <div className="flex items-center justify-center h-full text-slate-500">
+        Waiting for editor...
+      </div>
+    );
+  }
+
+  const handleRun = (descriptor: CommandDescriptor) => {
+    try {
+      const applied = descriptor.command(view.state, view.dispatch, view);
+      setRunError(applied ? null : `${descriptor.name} didn't apply`);
+    } catch (e) {
+      setRunError(`${descriptor.name} threw ${errorMessage(e)}`);
+    }
+    view.focus();
+  };
+
+  const handleCommit = () => {
+    if (!preview?.transaction) return;
+    view.dispatch(preview.transaction);
+    setPreviewId(null);
+    view.focus();
+  };
+
+  const handleRegister = () => {
+    try {
+      setCustom({ schema: view.state.schema, commands: evaluateCustomCommands(customCode, view.state.schema) });
+      setCustomError(null);
+      setCustomDiagnostics([]);
+    } catch (e) {
+      setCustom(null);
+      setCustomError(errorMessage(e));
+      const location = locateEvaluationError(e, customCode);
+      setCustomDiagnostics(location ? [{ ...location, severity: 'error', message: errorMessage(e) }] : []);
+    }
+  };
+
+  const visible = commands.filter(descriptor => descriptor.name.toLowerCase().includes(filter.toLowerCase()));
+  const sources: CommandSource[] = ['builtin', 'schema', 'custom'];
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-3">
+        <div className="flex items-center gap-2">
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter commands"
+            className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+          />
+          <span className="text-xs text-slate-500 font-mono">{describeSelection(view.state.selection)}</span>
+        </div>
+        {runError && <div className="text-xs text-amber-400">{runError}</div>}
+
+        {sources.map(source => {
+          const group = visible.filter(descriptor => descriptor.source === source);
+          if (group.length === 0) return null;
+          return (
+            <div key={source}>
+              <span className="block text-slate-500 mb-1 text-[10px] uppercase">{SOURCE_LABELS[source]}</span>
+              <div className="space-y-0.5">
+                {group.map(descriptor => {
+                  const result = dryRuns.get(descriptor.id);
+                  const error = result && 'error' in result ? result.error as Error : null;
+                  const applicable = !!result && 'applicable' in result && result.applicable;
+                  return (
+                    <div
+                      key={descriptor.id}
+                      className={cn(
+                        "flex items-center gap-2 text-xs rounded px-1.5 py-1",
+                        previewId === descriptor.id ? "bg-blue-900/30 ring-1 ring-blue-800" : "hover:bg-slate-800/50"
+                      )}
+                    >
+                      <span
+                        title={error ? `Threw ${errorMessage(error)}` : applicable ? 'Applies at the current selection' : "Doesn't apply"}
+                        className={cn("w-2 h-2 rounded-full shrink-0", error ? "bg-red-500" : applicable ? "bg-green-500" : "bg-slate-600")}
+                      />
+                      <span className={cn("flex-1 font-mono truncate", applicable ? "text-slate-200" : "text-slate-500")}>
+                        {descriptor.name}
+                      </span>
+                      <button onClick={() => setPreviewId(descriptor.id)} title="Preview" className="p-0.5 text-slate-400 hover:text-white">
+                        <Eye size={14} />
+                      </button>
+                      <button onClick={() => handleRun(descriptor)} title="Run" className="p-0.5 text-slate-400 hover:text-white">
+                        <Play size={14} />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {previewed && preview && (
+        <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="font-mono text-sm text-blue-300">{previewed.name}</span>
+            <div className="flex gap-2">
+              <button
+                onClick={handleCommit}
+                disabled={!preview.transaction}
+                className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600 transition-colors"
+              >
+                <Check size={14} /> Commit
+              </button>
+              <button
+                onClick={() => setPreviewId(null)}
+                className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-slate-300 bg-slate-800 rounded-md hover:bg-slate-700 transition-colors"
+              >
+                <X size={14} /> Discard
+              </button>
+            </div>
+          </div>
+
+          {preview.error ? (
+            <div className="text-xs text-red-400 font-mono break-all">Threw {errorMessage(preview.error)}</div>
+          ) : !preview.applicable ? (
+            <div className="text-xs text-slate-500 italic">Returns false at the current selection</div>
+          ) : !preview.transaction ? (
+            <div className="text-xs text-slate-500 italic">Returns true but dispatches nothing</div>
+          ) : (
+            <>
+              <div className="text-xs font-mono text-slate-400">
+                Selection {describeSelection(view.state.selection)}
+                {' → '}{describeSelection(preview.transaction.selection)}
+              </div>
+              <div>
+                <span className="block text-slate-500 mb-1 text-[10px] uppercase">Steps ({preview.transaction.steps.length})</span>
+                {preview.transaction.steps.length === 0 ? (
+                  <div className="text-xs text-slate-600 italic">None, the document doesn't change</div>
+                ) : (
+                  <div className="space-y-1">
+                    {preview.transaction.steps.map((step, idx) => {
+                      const { name, fields } = describeStep(step);
+                      return (
+                        <div key={idx} className="text-xs bg-slate-950/50 rounded p-2 font-mono">
+                          <span className="text-blue-300">{name}</span>
+                          {fields.map(field => (
+                            <div key={field.name} className="text-slate-400 break-all">
+                              <span className="text-slate-500">{field.name}:</span> {field.value}
+                            </div>
+                          ))}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+              {preview.diff && (
+                <div>
+                  <span className="block text-slate-500 mb-1 text-[10px] uppercase">Document diff</span>
+                  <DiffView lines={preview.diff} />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-2">
+        <span className="block text-slate-500 text-[10px] uppercase">Custom commands</span>
+        <CodeEditor
+          value={customCode}
+          onChange={setCustomCode}
+          extensions={completions}
+          diagnostics={customDiagnostics}
+          className="h-48 resize-y [&_.cm-editor]:h-full"
+        />
+        <div className="flex items-center justify-between">
+          <span className={cn("text-xs", customError ? "text-red-400" : "text-slate-500")}>
+            {customError || `${customCommands.length} registered`}
+          </span>
+          <button
+            onClick={handleRegister}
+            className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 transition-colors"
+          >
+            <Play size={14} /> Register
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPlayground;
@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import { ContentMatch } from 'prosemirror-model';
+import { contentMatchGraph } from '../lib/schemaInfo';
+
+interface ContentMatchGraphProps {
+  match: ContentMatch;
+  // State to highlight, e.g. the contentMatchAt() of the node at the cursor
+  highlight?: ContentMatch | null;
+}
+
+const COLUMN_WIDTH = 130;
+const ROW_HEIGHT = 64;
+const RADIUS = 14;
+const PADDING = 28;
+
+// Renders the finite automaton of a content expression. States are laid out
+// in columns by their distance from the start state; accepting states
+// (validEnd) get a double ring.
+const ContentMatchGraph: React.FC<ContentMatchGraphProps> = ({ match, highlight }) => {
+  const graph = useMemo(() => contentMatchGraph(match), [match]);
+
+  const layout = useMemo(() => {
+    const rows = new Map<number, number>();
+    return graph.states.map(state => {
+      const row = rows.get(state.level) || 0;
+      rows.set(state.level, row + 1);
+      return { x: PADDING + state.level * COLUMN_WIDTH, y: PADDING + row * ROW_HEIGHT };
+    });
+  }, [graph]);
+
+  const width = Math.max(...layout.map(p => p.x)) + PADDING + 40;
+  const height = Math.max(...layout.map(p => p.y)) + PADDING + 24;
+
+  // Count edges between the same pair of states so parallel ones fan out
+  const pairCounts = new Map<string, number>();
+
+  return (
+    <div className="overflow-x-auto bg-slate-950/50 rounded">
+      <svg width={width} height={height} className="font-mono text-[10px]">
+        <defs>
+          <marker id="cm-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#64748b" />
+          </marker>
+        </defs>
+
+        {graph.transitions.map((transition, idx) => {
+          const from = layout[transition.from];
+          const to = layout[transition.to];
+          const pairKey = `${transition.from}-${transition.to}`;
+          const nth = pairCounts.get(pairKey) || 0;
+          pairCounts.set(pairKey, nth + 1);
+
+          if (transition.from === transition.to) {
+            const lift = 34 + nth * 14;
+            const d = `M ${from.x - 6} ${from.y - RADIUS} C ${from.x - 22} ${from.y - lift}, ${from.x + 22} ${from.y - lift}, ${from.x + 6} ${from.y - RADIUS}`;
+            return (
+              <g key={idx}>
+                <path d={d} fill="none" stroke="#64748b" markerEnd="url(#cm-arrow)" />
+                <text x={from.x} y={from.y - lift + 6} textAnchor="middle" fill="#93c5fd">{transition.type.name}</text>
+              </g>
+            );
+          }
+
+          // Forward edges bow up, backward edges bow down, parallel ones spread out
+          const backward = to.x <= from.x;
+          const dx = to.x - from.x;
+          const dy = to.y - from.y;
+          const length = Math.sqrt(dx * dx + dy * dy) || 1;
+          const bow = (backward ? 40 : 0) + nth * 18;
+          const cx = (from.x + to.x) / 2 + (-dy / length) * bow * (backward ? -1 : 1);
+          const cy = (from.y + to.y) / 2 + (dx / length) * bow * (backward ? -1 : 1);
+          const start = { x: from.x + (dx / length) * RADIUS, y: from.y + (dy / length) * RADIUS };
+          const end = { x: to.x - (dx / length) * RADIUS, y: to.y - (dy / length) * RADIUS };
+          const labelX = 0.25 * start.x + 0.5 * cx + 0.25 * end.x;
+          const labelY = 0.25 * start.y + 0.5 * cy + 0.25 * end.y - 4;
+          return (
+            <g key={idx}>
+              <path
+                d={`M ${start.x} ${start.y} Q ${cx} ${cy} ${end.x} ${end.y}`}
+                fill="none"
+                stroke="#64748b"
+                markerEnd="url(#cm-arrow)"
+              />
+              <text x={labelX} y={labelY} textAnchor="middle" fill="#93c5fd">{transition.type.name}</text>
+            </g>
+          );
+        })}
+
+        {graph.states.map(state => {
+          const { x, y } = layout[state.id];
+          const isHighlighted = highlight === state.match;
+          return (
+            <g key={state.id}>
+              <title>
+                {`State ${state.id}${state.validEnd ? ' (valid end)' : ''}` +
+                  (state.match.defaultType ? `, default type: ${state.match.defaultType.name}` : '')}
+              </title>
+              <circle
+                cx={x} cy={y} r={RADIUS}
+                fill={isHighlighted ? "#1d4ed8" : "#1e293b"}
+                stroke={isHighlighted ? "#93c5fd" : "#475569"}
+                strokeWidth={1.5}
+              />
+              {state.validEnd && (
+                <circle cx={x} cy={y} r={RADIUS - 4} fill="none" stroke={isHighlighted ? "#bfdbfe" : "#22c55e"} />
+              )}
+              <text x={x} y={y + 3} textAnchor="middle" fill="#e2e8f0">{state.id}</text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default ContentMatchGraph;
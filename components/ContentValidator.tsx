@@ -0,0 +1,231 @@
+import React, { useMemo, useState } from 'react';
+import { Fragment } from 'prosemirror-model';
+import { EditorView } from 'prosemirror-view';
+import { Plus, Replace, X } from 'lucide-react';
+import { cn, errorMessage } from '../lib/utils';
+import { describeSlice, describeStep } from '../lib/transactions';
+import { checkContent, ContentInput, DepthCheck, parseContentJSON, sliceFromTypes } from '../lib/contentCheck';
+
+interface ContentValidatorProps {
+  view: EditorView;
+  transactionCount: number;
+  pos: number;
+  onPosChange: (pos: number) => void;
+}
+
+type Source = 'types' | 'json';
+
+const Flag: React.FC<{ label: string; value: boolean | null }> = ({ label, value }) => {
+  if (value === null) return null;
+  return (
+    <span className={cn(
+      "px-1.5 rounded border text-[10px] font-mono",
+      value ? "bg-green-900/40 border-green-800 text-green-300" : "bg-red-900/40 border-red-800 text-red-300"
+    )}>
+      {label} {value ? '✓' : '✗'}
+    </span>
+  );
+};
+
+// An empty fill means nothing is missing
+const describeFill = (fill: Fragment | null) =>
+  fill === null ? 'no fill fits' : fill.size === 0 ? 'nothing needed' : fill.toString();
+
+const DepthRow: React.FC<{ check: DepthCheck }> = ({ check }) => (
+  <div className="border-t border-slate-800 pt-2 space-y-1 text-xs">
+    <div className="flex items-center gap-2">
+      <span className="font-mono text-slate-500">{check.depth}</span>
+      <span className="font-mono text-blue-300">{check.type}</span>
+      <span className="font-mono text-slate-500">
+        {check.startIndex === check.endIndex ? `at index ${check.startIndex}` : `children ${check.startIndex}–${check.endIndex}`}
+      </span>
+    </div>
+    <div className="flex flex-wrap gap-1">
+      <Flag label="canReplace" value={check.canReplace} />
+      <Flag label="canReplaceWith" value={check.canReplaceWith} />
+      <Flag label="canSplit" value={check.canSplit} />
+      <Flag label="canJoin before" value={check.canJoinBefore} />
+      <Flag label="canJoin after" value={check.canJoinAfter} />
+    </div>
+    <div className="grid grid-cols-[6rem_1fr] gap-x-2 gap-y-0.5 font-mono">
+      <span className="text-slate-500">match next</span>
+      <span className="text-slate-300 break-all">
+        {check.next.length ? check.next.join(' | ') : 'nothing'}
+        {check.validEnd && <span className="text-slate-500"> (may end)</span>}
+      </span>
+      <span className="text-slate-500">fillBefore</span>
+      <span className={cn("break-all", check.fillBefore === null ? "text-red-400" : "text-slate-300")}>{describeFill(check.fillBefore)}</span>
+      {check.fillBefore !== null && (
+        <>
+          <span className="text-slate-500">fill after</span>
+          <span className={cn("break-all", check.fillAfter === null ? "text-red-400" : "text-slate-300")}>{describeFill(check.fillAfter)}</span>
+        </>
+      )}
+      <span className="text-slate-500">findWrapping</span>
+      <span className={cn("break-all", check.wrapping === null ? "text-red-400" : "text-slate-300")}>
+        {check.wrapping === null ? 'none' : check.wrapping.length === 0 ? 'fits without wrappers' : check.wrapping.join(' > ')}
+      </span>
+    </div>
+  </div>
+);
+
+const ContentValidator: React.FC<ContentValidatorProps> = ({ view, transactionCount, pos, onPosChange }) => {
+  const { schema } = view.state;
+  const [source, setSource] = useState<Source>('types');
+  const [types, setTypes] = useState<string[]>(['paragraph']);
+  const [json, setJson] = useState('{ "type": "paragraph" }');
+  // The end of the range; null replaces nothing
+  const [to, setTo] = useState<number | null>(null);
+  const [replaceError, setReplaceError] = useState<string | null>(null);
+
+  const input = useMemo<ContentInput>(
+    () => source === 'types' ? sliceFromTypes(schema, types) : parseContentJSON(schema, json),
+    [schema, source, types, json]
+  );
+
+  const size = view.state.doc.content.size;
+  const from = Math.max(0, Math.min(pos, size));
+  const end = to === null ? from : Math.max(from, Math.min(to, size));
+  const report = useMemo(() => {
+    if (!('slice' in input)) return null;
+    try {
+      return checkContent(view.state.doc, from, end, input.slice);
+    } catch (e) {
+      return { error: errorMessage(e) };
+    }
+  }, [view, input, from, end, transactionCount]);
+
+  const replace = () => {
+    if (!('slice' in input)) return;
+    try {
+      view.dispatch(view.state.tr.replace(from, end, input.slice).scrollIntoView());
+      setReplaceError(null);
+    } catch (e) {
+      setReplaceError(errorMessage(e));
+    }
+  };
+
+  const takeSelection = () => {
+    const { selection } = view.state;
+    onPosChange(selection.from);
+    setTo(selection.empty ? null : selection.to);
+  };
+
+  const step = report && 'step' in report && report.step ? describeStep(report.step) : null;
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex items-center gap-2">
+        {(['types', 'json'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setSource(option)}
+            className={cn(
+              "px-2 py-1 rounded transition-colors",
+              source === option ? "bg-blue-600 text-white" : "text-slate-300 bg-slate-800 hover:bg-slate-700"
+            )}
+          >
+            {option === 'types' ? 'Node types' : 'JSON'}
+          </button>
+        ))}
+      </div>
+
+      {source === 'types' ? (
+        <div className="flex flex-wrap items-center gap-1">
+          {types.map((name, idx) => (
+            <span key={idx} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 font-mono">
+              {name}
+              <button onClick={() => setTypes(types.filter((_, i) => i !== idx))} className="text-slate-500 hover:text-red-400">
+                <X size={10} />
+              </button>
+            </span>
+          ))}
+          <label className="flex items-center gap-1 text-slate-400">
+            <Plus size={12} />
+            <select
+              value=""
+              onChange={(e) => e.target.value && setTypes([...types, e.target.value])}
+              className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-xs focus:outline-none focus:border-blue-500"
+            >
+              <option value="">add type…</option>
+              {Object.keys(schema.nodes).filter(name => name !== schema.topNodeType.name).map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      ) : (
+        <textarea
+          value={json}
+          onChange={(e) => setJson(e.target.value)}
+          spellCheck={false}
+          placeholder="Node JSON, an array of nodes, or a slice with openStart and openEnd"
+          className="w-full h-20 bg-slate-950 border border-slate-700 rounded px-2 py-1 font-mono focus:outline-none focus:border-blue-500"
+        />
+      )}
+
+      <div className="flex items-center gap-2">
+        <span className="text-slate-500">from</span>
+        <span className="font-mono text-blue-300">{from}</span>
+        <span className="text-slate-500">to</span>
+        <input
+          type="number"
+          value={to ?? ''}
+          placeholder={String(from)}
+          min={from}
+          max={size}
+          onChange={(e) => setTo(e.target.value === '' ? null : Number(e.target.value))}
+          className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-0.5 font-mono focus:outline-none focus:border-blue-500"
+        />
+        <button onClick={takeSelection} className="text-slate-400 hover:text-white">Use selection</button>
+      </div>
+
+      {'error' in input ? (
+        <div className="font-mono text-red-400 break-all">{input.error}</div>
+      ) : report && 'error' in report ? (
+        <div className="font-mono text-red-400 break-all">{report.error}</div>
+      ) : report && (
+        <>
+          <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-1">
+            <div className="font-mono text-slate-400 break-all">{describeSlice(input.slice)}</div>
+            <div className="grid grid-cols-[6rem_1fr] gap-x-2 gap-y-0.5 font-mono">
+              <span className="text-slate-500">ReplaceStep</span>
+              <span className={cn("break-all", report.stepError ? "text-red-400" : "text-green-300")}>
+                {report.stepError ? `fails: ${report.stepError}` : 'applies as is'}
+              </span>
+              <span className="text-slate-500">replaceStep</span>
+              <span className={cn("break-all", step ? "text-slate-300" : "text-red-400")}>
+                {step
+                  ? `${step.name}${report.fitted ? ', with a fitted slice' : ''} ${step.fields.map(field => `${field.name}=${field.value}`).join(' ')}`
+                  : "null, the slice can't be fitted here"}
+              </span>
+              {report.insertPoint !== null && (
+                <>
+                  <span className="text-slate-500">insertPoint</span>
+                  <button onClick={() => onPosChange(report.insertPoint!)} className="text-left text-blue-300 hover:underline">{report.insertPoint}</button>
+                </>
+              )}
+              <span className="text-slate-500">wrap range</span>
+              <span className="text-slate-300">{report.rangeWrapping ? report.rangeWrapping.join(' > ') : 'none'}</span>
+            </div>
+            <div className="flex items-center justify-between gap-2 pt-1">
+              <span className="font-mono text-red-400 break-all">{replaceError}</span>
+              <button
+                onClick={replace}
+                className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 transition-colors shrink-0"
+              >
+                <Replace size={12} /> tr.replace
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {report.depths.map(check => <DepthRow key={check.depth} check={check} />)}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ContentValidator;
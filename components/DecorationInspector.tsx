@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { EditorView } from 'prosemirror-view';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { collectDecorations, DecorationInfo, DecorationKind, decorationCovers } from '../lib/decorations';
+import { nodeRects, rangeRects } from '../lib/viewGeometry';
+import ObjectInspector from './ObjectInspector';
+import RangeHighlight from './RangeHighlight';
+
+interface DecorationInspectorProps {
+  view: EditorView;
+  transactionCount: number;
+  pos: number;
+}
+
+// The position ruler alone adds a widget per position, so long lists are cut
+const MAX_ROWS = 100;
+
+const KIND_STYLES: Record<DecorationKind, string> = {
+  inline: "bg-blue-900/40 border-blue-800 text-blue-300",
+  node: "bg-purple-900/40 border-purple-800 text-purple-300",
+  widget: "bg-green-900/40 border-green-800 text-green-300",
+};
+
+interface DecorationRowProps {
+  info: DecorationInfo;
+  source?: string;
+  onHover: (info: DecorationInfo | null) => void;
+}
+
+const DecorationRow: React.FC<DecorationRowProps> = ({ info, source, onHover }) => {
+  const [expanded, setExpanded] = useState(false);
+  const attrs = info.attrs ? Object.entries(info.attrs) : [];
+  const specKeys = Object.keys(info.spec);
+
+  return (
+    <div
+      className="rounded hover:bg-slate-800/50 text-xs"
+      onMouseEnter={() => onHover(info)}
+      onMouseLeave={() => onHover(null)}
+    >
+      <div className="flex items-center gap-2 px-1.5 py-1 cursor-pointer" onClick={() => setExpanded(!expanded)}>
+        {specKeys.length > 0
+          ? (expanded ? <ChevronDown size={12} className="text-slate-500" /> : <ChevronRight size={12} className="text-slate-500" />)
+          : <span className="w-3" />}
+        <span className={cn("px-1.5 rounded border text-[10px] font-mono", KIND_STYLES[info.kind])}>{info.kind}</span>
+        <span className="font-mono text-slate-300 shrink-0">
+          {info.kind === 'widget' ? info.from : `${info.from}–${info.to}`}
+        </span>
+        <span className="font-mono text-slate-500 truncate">
+          {attrs.map(([key, value]) => `${key}="${value}"`).join(' ')}
+        </span>
+        {source && <span className="ml-auto text-slate-600 font-mono truncate shrink-0 max-w-[40%]">{source}</span>}
+      </div>
+      {expanded && (
+        <div className="pl-6 pb-1">
+          <ObjectInspector value={info.spec} name="spec" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DecorationInspector: React.FC<DecorationInspectorProps> = ({ view, transactionCount, pos }) => {
+  const [hovered, setHovered] = useState<DecorationInfo | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const groups = useMemo(() => collectDecorations(view), [view, transactionCount]);
+
+  const atPos = groups.flatMap(group =>
+    group.decorations.filter(info => decorationCovers(info, pos)).map(info => ({ info, source: group.source }))
+  );
+
+  const rects = useMemo(() => {
+    if (!hovered) return [];
+    return hovered.kind === 'node'
+      ? nodeRects(view, hovered.from, hovered.to)
+      : rangeRects(view, hovered.from, hovered.to);
+  }, [view, hovered]);
+
+  const toggle = (source: string) => {
+    const next = new Set(collapsed);
+    if (next.has(source)) next.delete(source);
+    else next.add(source);
+    setCollapsed(next);
+  };
+
+  if (groups.length === 0) {
+    return <div className="text-xs text-slate-600 italic">No plugin or view prop provides decorations</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <RangeHighlight rects={rects} />
+
+      <div>
+        <span className="block text-slate-500 mb-1 text-[10px] uppercase">At position {pos} ({atPos.length})</span>
+        {atPos.length === 0 ? (
+          <div className="text-xs text-slate-600 italic">None</div>
+        ) : (
+          atPos.map(({ info, source }, idx) => (
+            <DecorationRow key={idx} info={info} source={source} onHover={setHovered} />
+          ))
+        )}
+      </div>
+
+      {groups.map((group, groupIdx) => {
+        const isCollapsed = collapsed.has(group.source);
+        return (
+          <div key={groupIdx}>
+            <button
+              onClick={() => toggle(group.source)}
+              className="flex items-center gap-1 text-slate-400 hover:text-white text-xs font-mono mb-1"
+            >
+              {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+              {group.source}
+              <span className="text-slate-600">({group.decorations.length})</span>
+            </button>
+            {group.error && <div className="text-xs text-red-400 font-mono pl-5">Threw: {group.error}</div>}
+            {!isCollapsed && (
+              <div className="pl-3">
+                {group.decorations.length === 0 && !group.error && (
+                  <div className="text-xs text-slate-600 italic pl-2">Empty</div>
+                )}
+                {group.decorations.slice(0, MAX_ROWS).map((info, idx) => (
+                  <DecorationRow key={idx} info={info} onHover={setHovered} />
+                ))}
+                {group.decorations.length > MAX_ROWS && (
+                  <div className="text-xs text-slate-600 pl-2">…and {group.decorations.length - MAX_ROWS} more</div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DecorationInspector;
@@ -0,0 +1,30 @@
+import React, { useEffect, useRef } from 'react';
+import { Node } from 'prosemirror-model';
+import { EditorState } from 'prosemirror-state';
+import { DecorationSet, EditorView } from 'prosemirror-view';
+
+interface DiffRenderingProps {
+  doc: Node;
+  decorations: DecorationSet;
+}
+
+// A read-only view of a document, rendered through the schema's toDOM with
+// the diff drawn on top as decorations
+const DiffRendering: React.FC<DiffRenderingProps> = ({ doc, decorations }) => {
+  const mountRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!mountRef.current) return;
+    const view = new EditorView(mountRef.current, {
+      state: EditorState.create({ doc }),
+      editable: () => false,
+      decorations: () => decorations,
+      attributes: { class: 'pm-diff-view' },
+    });
+    return () => view.destroy();
+  }, [doc, decorations]);
+
+  return <div ref={mountRef} className="text-sm" />;
+};
+
+export default DiffRendering;
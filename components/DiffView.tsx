@@ -0,0 +1,48 @@
+import React from 'react';
+import { LineDiff } from '../types';
+import { cn } from '../lib/utils';
+
+// Unchanged lines further than this from a change are collapsed
+const DIFF_CONTEXT = 2;
+
+const DiffView: React.FC<{ lines: LineDiff[] }> = ({ lines }) => {
+  const changed = lines.map(line => line.type !== 'same');
+  if (!changed.some(Boolean)) return <div className="text-xs text-slate-600 italic">Identical</div>;
+
+  const near = (idx: number) => {
+    for (let d = -DIFF_CONTEXT; d <= DIFF_CONTEXT; d++) if (changed[idx + d]) return true;
+    return false;
+  };
+
+  const rows: React.ReactNode[] = [];
+  let skipped = 0;
+  const flushSkipped = (key: number) => {
+    if (skipped) rows.push(<div key={`skip-${key}`} className="text-slate-600 italic px-2">… {skipped} unchanged line{skipped === 1 ? '' : 's'}</div>);
+    skipped = 0;
+  };
+  lines.forEach((line, idx) => {
+    if (!near(idx)) {
+      skipped++;
+      return;
+    }
+    flushSkipped(idx);
+    rows.push(
+      <div
+        key={idx}
+        className={cn(
+          "px-2 whitespace-pre",
+          line.type === 'added' && "bg-green-900/30 text-green-300",
+          line.type === 'removed' && "bg-red-900/30 text-red-300",
+          line.type === 'same' && "text-slate-500"
+        )}
+      >
+        {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+      </div>
+    );
+  });
+  flushSkipped(lines.length);
+
+  return <div className="font-mono text-xs bg-slate-950/50 rounded py-1 overflow-x-auto max-h-72 overflow-y-auto">{rows}</div>;
+};
+
+export default DiffView;
@@ -0,0 +1,183 @@
+import React, { useState, useMemo } from 'react';
+import { Slice } from 'prosemirror-model';
+import { EditorView } from 'prosemirror-view';
+import { cn, DEFAULT_DOC_HTML, errorMessage } from '../lib/utils';
+import { parseDocumentHTML, parseDocumentJSON, replaceDocument, serializeFragmentHTML } from '../lib/documents';
+import { AlertCircle, CheckCircle2, Copy, Upload } from 'lucide-react';
+
+interface DocumentIOProps {
+  view: EditorView | null;
+  // Signal to refresh the export when the editor state changes
+  transactionCount: number;
+}
+
+type ImportFormat = 'json' | 'html';
+type ExportScope = 'doc' | 'selection';
+type ExportFormat = 'json' | 'html' | 'slice';
+
+const Segmented = <T extends string>({ options, value, onChange }: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) => (
+  <div className="flex bg-slate-900 border border-slate-700 rounded-md p-0.5">
+    {options.map(option => (
+      <button
+        key={option.value}
+        onClick={() => onChange(option.value)}
+        className={cn(
+          "px-2 py-1 text-xs rounded transition-colors",
+          option.value === value ? "bg-slate-700 text-white" : "text-slate-400 hover:text-white"
+        )}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+const DocumentIO: React.FC<DocumentIOProps> = ({ view, transactionCount }) => {
+  const [importFormat, setImportFormat] = useState<ImportFormat>('json');
+  const [importText, setImportText] = useState<string>('');
+  const [importStatus, setImportStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const [exportScope, setExportScope] = useState<ExportScope>('doc');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'error'>('idle');
+
+  const exportText = useMemo(() => {
+    if (!view) return '';
+    const { doc, selection, schema } = view.state;
+    const slice = exportScope === 'doc' ? new Slice(doc.content, 0, 0) : selection.content();
+    try {
+      switch (exportFormat) {
+        case 'json':
+          return JSON.stringify(exportScope === 'doc' ? doc.toJSON() : slice.content.toJSON() ?? [], null, 2);
+        case 'html':
+          return serializeFragmentHTML(schema, slice.content);
+        case 'slice':
+          return JSON.stringify(slice.toJSON() ?? { content: [] }, null, 2);
+      }
+    } catch (e) {
+      return errorMessage(e);
+    }
+  }, [view, transactionCount, exportScope, exportFormat]);
+
+  const handleImport = (text: string, format: ImportFormat) => {
+    if (!view) return;
+    try {
+      const { schema } = view.state;
+      const doc = format === 'json' ? parseDocumentJSON(schema, text) : parseDocumentHTML(schema, text);
+      view.dispatch(replaceDocument(view.state, doc));
+      setImportStatus({ ok: true, message: `Loaded document (${doc.content.size} positions)` });
+    } catch (e) {
+      setImportStatus({ ok: false, message: errorMessage(e) });
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(exportText);
+      setCopyStatus('copied');
+    } catch {
+      // Clipboard access can be denied; the text can still be selected by hand
+      setCopyStatus('error');
+    }
+    setTimeout(() => setCopyStatus('idle'), 1500);
+  };
+
+  const copyLabel = {
+    idle: 'Copy',
+    copied: 'Copied!',
+    error: "Couldn't copy",
+  }[copyStatus];
+
+  if (!view) {
+    return (
+      <div className="flex items-center justify-center h-full text-slate-500">
+        Waiting for editor...
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      {/* Import */}
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-slate-500 uppercase tracking-wider font-medium">Import</span>
+          <Segmented
+            options={[{ value: 'json', label: 'Node JSON' }, { value: 'html', label: 'HTML' }]}
+            value={importFormat}
+            onChange={setImportFormat}
+          />
+        </div>
+        <textarea
+          value={importText}
+          onChange={(e) => setImportText(e.target.value)}
+          placeholder={importFormat === 'json' ? '{"type": "doc", "content": [...]}' : '<p>Paste HTML here</p>'}
+          className="w-full h-40 p-2 font-mono text-xs bg-slate-950 text-slate-300 border border-slate-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+          spellCheck={false}
+        />
+        <div className="flex items-center justify-between gap-2">
+          <div className="min-w-0 text-xs">
+            {importStatus && (
+              <div className={cn("flex items-center gap-1", importStatus.ok ? "text-green-400" : "text-red-400")}>
+                {importStatus.ok ? <CheckCircle2 size={14} className="shrink-0" /> : <AlertCircle size={14} className="shrink-0" />}
+                <span className="break-all">{importStatus.message}</span>
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={() => handleImport(DEFAULT_DOC_HTML, 'html')}
+              className="px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 rounded-md hover:bg-slate-700 transition-colors"
+            >
+              Load Default
+            </button>
+            <button
+              onClick={() => handleImport(importText, importFormat)}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 transition-colors"
+            >
+              <Upload size={14} /> Load
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Export */}
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-2">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <span className="text-xs text-slate-500 uppercase tracking-wider font-medium">Export</span>
+          <div className="flex gap-2">
+            <Segmented
+              options={[{ value: 'doc', label: 'Document' }, { value: 'selection', label: 'Selection' }]}
+              value={exportScope}
+              onChange={setExportScope}
+            />
+            <Segmented
+              options={[{ value: 'json', label: 'JSON' }, { value: 'html', label: 'HTML' }, { value: 'slice', label: 'Slice' }]}
+              value={exportFormat}
+              onChange={setExportFormat}
+            />
+          </div>
+        </div>
+        <textarea
+          value={exportText}
+          readOnly
+          className="w-full h-64 p-2 font-mono text-xs bg-slate-950 text-slate-300 border border-slate-700 rounded-md focus:outline-none resize-y"
+          spellCheck={false}
+        />
+        <div className="flex justify-end">
+          <button
+            onClick={handleCopy}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 rounded-md hover:bg-slate-700 transition-colors"
+          >
+            <Copy size={14} /> {copyLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentIO;
@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Node } from 'prosemirror-model';
+import { EditorState, NodeSelection } from 'prosemirror-state';
+import { cn } from '../lib/utils';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+interface DocumentTreeProps {
+  state: EditorState;
+  // The tracked position from the visualizer, marked in the tree
+  pos: number;
+  onSelectNode: (pos: number, node: Node) => void;
+}
+
+// Nodes are identified by their child-index path from the root, e.g. "0.2.1"
+const pathKey = (path: number[]) => path.join('.');
+
+// Keys of every node that contains `pos`, from the root down
+function ancestorKeys(doc: Node, pos: number): string[] {
+  const $pos = doc.resolve(Math.max(0, Math.min(pos, doc.content.size)));
+  const keys = [''];
+  const path: number[] = [];
+  for (let d = 0; d < $pos.depth; d++) {
+    path.push($pos.index(d));
+    keys.push(pathKey(path));
+  }
+  return keys;
+}
+
+interface TreeNodeProps {
+  node: Node;
+  // Absolute position before the node; -1 for the doc itself, which has no
+  // opening token
+  pos: number;
+  path: number[];
+  expanded: Set<string>;
+  onToggle: (key: string) => void;
+  activeKey: string;
+  trackedPos: number;
+  onSelectNode: (pos: number, node: Node) => void;
+}
+
+const TreeNode: React.FC<TreeNodeProps> = ({ node, pos, path, expanded, onToggle, activeKey, trackedPos, onSelectNode }) => {
+  const rowRef = useRef<HTMLDivElement>(null);
+  const key = pathKey(path);
+  const isRoot = pos < 0;
+  const isExpanded = expanded.has(key);
+  const isActive = activeKey === key;
+  const start = isRoot ? 0 : pos;
+  const end = isRoot ? node.content.size : pos + node.nodeSize;
+  const contentStart = isRoot ? 0 : pos + 1;
+  const containsTracked = trackedPos >= start && trackedPos <= end;
+
+  useEffect(() => {
+    if (isActive) rowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [isActive]);
+
+  const children: { child: Node; offset: number }[] = [];
+  node.forEach((child, offset) => children.push({ child, offset }));
+
+  return (
+    <div>
+      <div
+        ref={rowRef}
+        className={cn(
+          "flex items-start gap-1 px-1 py-0.5 rounded cursor-pointer text-xs font-mono hover:bg-slate-800",
+          isActive && "bg-blue-900/40 ring-1 ring-blue-700"
+        )}
+        onClick={() => onSelectNode(pos, node)}
+      >
+        <span
+          className="w-4 shrink-0 text-slate-500 hover:text-white pt-0.5"
+          onClick={(e) => {
+            e.stopPropagation();
+            if (children.length > 0) onToggle(key);
+          }}
+        >
+          {children.length > 0 && (isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />)}
+        </span>
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className={cn("font-bold", containsTracked ? "text-blue-300" : "text-slate-300")}>{node.type.name}</span>
+            <span className="text-slate-500">{start}–{end}</span>
+            <span className="text-slate-600">size {node.nodeSize}</span>
+            {node.marks.map((mark, idx) => (
+              <span key={idx} className="px-1 rounded bg-purple-900/40 text-purple-300">{mark.type.name}</span>
+            ))}
+            {Object.keys(node.attrs).length > 0 && (
+              <span className="text-amber-300/80 truncate">
+                {Object.entries(node.attrs).map(([name, value]) => `${name}=${JSON.stringify(value)}`).join(' ')}
+              </span>
+            )}
+          </div>
+          {node.isText && (
+            <div className="text-green-400 break-all whitespace-pre-wrap">"{node.text}"</div>
+          )}
+        </div>
+      </div>
+      {isExpanded && children.length > 0 && (
+        <div className="ml-2 pl-2 border-l border-slate-800">
+          {children.map(({ child, offset }, idx) => (
+            <TreeNode
+              key={idx}
+              node={child}
+              pos={contentStart + offset}
+              path={[...path, idx]}
+              expanded={expanded}
+              onToggle={onToggle}
+              activeKey={activeKey}
+              trackedPos={trackedPos}
+              onSelectNode={onSelectNode}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DocumentTree: React.FC<DocumentTreeProps> = ({ state, pos, onSelectNode }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(['']));
+  const { doc, selection } = state;
+
+  // The node the editor selection points at: the selected node for a
+  // NodeSelection, otherwise the innermost node around the selection head
+  let activeKey: string;
+  if (selection instanceof NodeSelection) {
+    const { $from } = selection;
+    const path: number[] = [];
+    for (let d = 0; d <= $from.depth; d++) path.push($from.index(d));
+    activeKey = pathKey(path);
+  } else {
+    const keys = ancestorKeys(doc, selection.head);
+    activeKey = keys[keys.length - 1];
+  }
+
+  // Follow the editor: expand everything down to the selection
+  useEffect(() => {
+    const keys = ancestorKeys(doc, selection.head);
+    setExpanded(prev => {
+      if (keys.every(key => prev.has(key))) return prev;
+      const next = new Set(prev);
+      keys.forEach(key => next.add(key));
+      return next;
+    });
+  }, [doc, selection]);
+
+  const handleToggle = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-slate-500 mt-2">
+        <span>Ranges are the positions before and after each node</span>
+        <span className="font-mono">content.size {doc.content.size}</span>
+      </div>
+      <div className="max-h-96 overflow-y-auto bg-slate-950/50 rounded p-1">
+        <TreeNode
+          node={doc}
+          pos={-1}
+          path={[]}
+          expanded={expanded}
+          onToggle={handleToggle}
+          activeKey={activeKey}
+          trackedPos={pos}
+          onSelectNode={onSelectNode}
+        />
+      </div>
+      <div className="text-[10px] text-slate-600">
+        Click a node to select it in the editor.
+      </div>
+    </div>
+  );
+};
+
+export default DocumentTree;
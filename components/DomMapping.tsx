@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { EditorView } from 'prosemirror-view';
+import { AlertTriangle, Crosshair } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { auditToDOM, coordsInfo, domAtPosInfo, domRects, DomTarget, inspectDOM, describeDOMNode } from '../lib/domMapping';
+import RangeHighlight from './RangeHighlight';
+
+interface DomMappingProps {
+  view: EditorView;
+  transactionCount: number;
+  pos: number;
+  onPosChange: (pos: number) => void;
+}
+
+interface HoveredTarget {
+  target: DomTarget;
+  // view.posAtCoords at the mouse
+  coords: { pos: number; inside: number } | null;
+}
+
+const Row: React.FC<{ label: string; onHover?: (hovering: boolean) => void; children: React.ReactNode }> = ({ label, onHover, children }) => (
+  <div
+    className="flex items-baseline gap-2 px-1.5 py-1 rounded hover:bg-slate-800/50 text-xs"
+    onMouseEnter={() => onHover?.(true)}
+    onMouseLeave={() => onHover?.(false)}
+  >
+    <span className="w-24 shrink-0 font-mono text-slate-500">{label}</span>
+    <span className="font-mono text-slate-300 break-all min-w-0">{children}</span>
+  </div>
+);
+
+const rectText = (rect: DOMRect) =>
+  `${Math.round(rect.left)},${Math.round(rect.top)} ${Math.round(rect.width)}×${Math.round(rect.height)}`;
+
+const DomMapping: React.FC<DomMappingProps> = ({ view, transactionCount, pos, onPosChange }) => {
+  const [picking, setPicking] = useState(false);
+  const [hovered, setHovered] = useState<HoveredTarget | null>(null);
+  const [highlight, setHighlight] = useState<DOMRect[]>([]);
+
+  // Follows the mouse over the editor's DOM while picking
+  useEffect(() => {
+    if (!picking) return;
+    const onMove = (event: MouseEvent) => {
+      if (!(event.target instanceof globalThis.Node)) return;
+      setHovered({
+        target: inspectDOM(view, event.target),
+        coords: view.posAtCoords({ left: event.clientX, top: event.clientY }),
+      });
+    };
+    view.dom.addEventListener('mousemove', onMove);
+    return () => view.dom.removeEventListener('mousemove', onMove);
+  }, [view, picking]);
+
+  const safePos = Math.max(0, Math.min(pos, view.state.doc.content.size));
+  const atPos = useMemo(() => {
+    const domAtPos = domAtPosInfo(view, safePos);
+    const nodeDOM = view.nodeDOM(safePos);
+    let roundTrip: number | null = null;
+    try {
+      if (domAtPos) roundTrip = view.posAtDOM(domAtPos.node, domAtPos.offset);
+    } catch {
+      // Reported as missing below
+    }
+    return { domAtPos, nodeDOM, roundTrip, coords: coordsInfo(view, safePos) };
+  }, [view, safePos, transactionCount]);
+
+  const issues = useMemo(() => auditToDOM(view.state.doc), [view, transactionCount]);
+
+  // The editor may have redrawn the hovered node since
+  const target = hovered && view.dom.contains(hovered.target.dom) ? hovered : null;
+  const pickedRects = useMemo(() => target ? domRects(target.target.dom) : [], [target]);
+
+  const hoverRects = (rects: () => DOMRect[]) => (hovering: boolean) => setHighlight(hovering ? rects() : []);
+
+  return (
+    <div className="space-y-3">
+      <RangeHighlight rects={highlight} className="border-blue-400 bg-blue-400/30" />
+      <RangeHighlight rects={picking ? pickedRects : []} />
+
+      <div>
+        <span className="block text-slate-500 mb-1 text-[10px] uppercase">Position {safePos} in the DOM</span>
+        <Row label="domAtPos" onHover={atPos.domAtPos ? hoverRects(() => domRects(atPos.domAtPos!.node)) : undefined}>
+          {atPos.domAtPos ? atPos.domAtPos.description : <span className="text-slate-600">none</span>}
+        </Row>
+        <Row label="posAtDOM ↩">
+          {atPos.roundTrip === null ? (
+            <span className="text-slate-600">none</span>
+          ) : (
+            <span className={cn(atPos.roundTrip !== safePos && "text-amber-300")}>
+              {atPos.roundTrip}{atPos.roundTrip !== safePos && ' (differs)'}
+            </span>
+          )}
+        </Row>
+        <Row label="nodeDOM" onHover={atPos.nodeDOM ? hoverRects(() => domRects(atPos.nodeDOM!)) : undefined}>
+          {atPos.nodeDOM ? describeDOMNode(atPos.nodeDOM) : <span className="text-slate-600">none, no node starts here</span>}
+        </Row>
+        {atPos.coords.map(({ side, rect }) => (
+          <Row key={side} label={`coordsAtPos ${side > 0 ? '+1' : '-1'}`} onHover={hoverRects(() => [new DOMRect(rect.left, rect.top, Math.max(2, rect.width), rect.height)])}>
+            {rectText(rect)}
+          </Row>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-slate-500 text-[10px] uppercase">DOM under the mouse</span>
+          <button
+            onClick={() => { setPicking(!picking); setHovered(null); }}
+            className={cn(
+              "flex items-center gap-1 px-2 py-0.5 rounded text-xs transition-colors",
+              picking ? "bg-blue-600 text-white" : "text-slate-300 bg-slate-800 hover:bg-slate-700"
+            )}
+          >
+            <Crosshair size={12} /> {picking ? 'Picking' : 'Pick in editor'}
+          </button>
+        </div>
+        {!picking ? (
+          <div className="text-xs text-slate-600 italic px-1.5">Turn on picking, then hover the editor</div>
+        ) : !target ? (
+          <div className="text-xs text-slate-600 italic px-1.5">Hover the editor</div>
+        ) : (
+          <>
+            <Row label="element">{target.target.description}</Row>
+            <Row label="posAtDOM">
+              {target.target.pos === null ? <span className="text-slate-600">outside the document</span> : (
+                <button onClick={() => onPosChange(target.target.pos!)} className="text-blue-300 hover:underline">{target.target.pos}</button>
+              )}
+            </Row>
+            {target.coords && (
+              <Row label="posAtCoords">
+                <button onClick={() => onPosChange(target.coords!.pos)} className="text-blue-300 hover:underline">{target.coords.pos}</button>
+                <span className="text-slate-500"> inside {target.coords.inside}</span>
+              </Row>
+            )}
+            {target.target.info && (
+              <Row label="node">
+                <button
+                  onClick={() => onPosChange(target.target.info!.start)}
+                  className="text-blue-300 hover:underline"
+                >
+                  {target.target.info.type}
+                </button>
+                <span className="text-slate-500"> {target.target.info.start}-{target.target.info.end} depth {target.target.info.depth}</span>
+                {Object.keys(target.target.info.attrs).length > 0 && (
+                  <span className="text-slate-400"> {JSON.stringify(target.target.info.attrs)}</span>
+                )}
+              </Row>
+            )}
+          </>
+        )}
+      </div>
+
+      <div>
+        <span className="block text-slate-500 mb-1 text-[10px] uppercase">toDOM audit ({issues.length})</span>
+        {issues.length === 0 ? (
+          <div className="text-xs text-slate-600 italic px-1.5">Every node's toDOM output looks as expected</div>
+        ) : (
+          issues.map((issue, idx) => (
+            <div
+              key={idx}
+              onClick={() => onPosChange(issue.pos)}
+              onMouseEnter={() => {
+                const dom = view.nodeDOM(issue.pos);
+                setHighlight(dom ? domRects(dom) : []);
+              }}
+              onMouseLeave={() => setHighlight([])}
+              className="flex items-start gap-2 px-1.5 py-1 rounded hover:bg-slate-800/50 text-xs cursor-pointer"
+            >
+              <AlertTriangle size={12} className="mt-0.5 shrink-0 text-amber-400" />
+              <span className="font-mono text-slate-400 shrink-0">{issue.type}@{issue.pos}</span>
+              <span className="text-amber-300">{issue.message}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DomMapping;
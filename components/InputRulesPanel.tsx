@@ -0,0 +1,439 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Schema } from 'prosemirror-model';
+import { AlertTriangle, ArrowDown, ArrowUp, ChevronDown, ChevronRight, Keyboard, Play, Plus, RotateCcw, Trash2, Zap } from 'lucide-react';
+import { FiredInput, InputRuleConfig, KeyBindingConfig } from '../types';
+import { cn } from '../lib/utils';
+import { createInputRule, createKeyBinding, INPUT_RULE_KINDS, inputScope } from '../lib/inputRules';
+import { CompiledPlugins, PluginCompileError } from '../lib/plugins';
+import { markTypes, nodeTypes } from '../lib/schemaInfo';
+import { expressionCompletions } from '../lib/codeEditor';
+import CodeEditor from './CodeEditor';
+
+interface InputRulesPanelProps {
+  schema: Schema | null;
+  rules: InputRuleConfig[];
+  // False while the rules suggested for the schema are in use
+  rulesCustomized: boolean;
+  // Null goes back to the suggested rules
+  onRulesChange: (rules: InputRuleConfig[] | null) => void;
+  bindings: KeyBindingConfig[];
+  bindingsCustomized: boolean;
+  onBindingsChange: (bindings: KeyBindingConfig[] | null) => void;
+  compiled: CompiledPlugins | null;
+  // Rules and bindings fire right before a transaction; this re-renders the lights
+  transactionCount: number;
+}
+
+// How long a rule or binding stays lit after it fired
+const FIRED_HIGHLIGHT_MS = 1500;
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:border-blue-500";
+
+// A keydown in prosemirror-keymap notation. Shift is left out for printable
+// characters, which already come shifted (e.g. `Ctrl->`).
+function keyName(event: React.KeyboardEvent): string | null {
+  if (['Control', 'Alt', 'Shift', 'Meta'].includes(event.key)) return null;
+  const key = event.key === ' ' ? 'Space' : event.key;
+  const modifiers = [
+    event.ctrlKey && 'Ctrl',
+    event.altKey && 'Alt',
+    event.metaKey && 'Meta',
+    event.shiftKey && (key.length > 1 || /[a-z]/i.test(key)) && 'Shift',
+  ].filter(Boolean);
+  return [...modifiers, key].join('-');
+}
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const FiredLight: React.FC<{ fired: boolean; enabled: boolean }> = ({ fired, enabled }) => (
+  <span
+    title={fired ? 'Just fired' : undefined}
+    className={cn(
+      "w-2 h-2 rounded-full shrink-0 transition-all",
+      fired ? "bg-amber-400 shadow-[0_0_6px_2px] shadow-amber-400/60" : enabled ? "bg-slate-600" : "bg-slate-800"
+    )}
+  />
+);
+
+interface RowProps<T> {
+  config: T;
+  error: PluginCompileError | undefined;
+  fired: boolean;
+  onChange: (config: T) => void;
+  onDelete: () => void;
+}
+
+const RowFrame: React.FC<{ error: PluginCompileError | undefined; fired: boolean; children: React.ReactNode }> = ({ error, fired, children }) => (
+  <div className={cn(
+    "bg-slate-900 rounded-lg border transition-colors",
+    fired ? "border-amber-600" : error ? "border-red-900" : "border-slate-800"
+  )}>
+    {children}
+  </div>
+);
+
+const ApplyButtons: React.FC<{ dirty: boolean; onRevert: () => void; onApply: () => void; disabled?: boolean }> = ({ dirty, onRevert, onApply, disabled }) => (
+  <div className="flex justify-end gap-2">
+    <button
+      onClick={onRevert}
+      disabled={!dirty}
+      className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-slate-300 bg-slate-800 rounded-md hover:bg-slate-700 disabled:opacity-40 transition-colors"
+    >
+      <RotateCcw size={14} /> Revert
+    </button>
+    <button
+      onClick={onApply}
+      disabled={!dirty || disabled}
+      className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600 transition-colors"
+    >
+      <Play size={14} /> Apply
+    </button>
+  </div>
+);
+
+interface RuleRowProps extends RowProps<InputRuleConfig> {
+  schema: Schema | null;
+  completions: ReturnType<typeof expressionCompletions>;
+  isFirst: boolean;
+  isLast: boolean;
+  onMove: (offset: number) => void;
+}
+
+const RuleRow: React.FC<RuleRowProps> = ({ config, error, fired, schema, completions, isFirst, isLast, onChange, onMove, onDelete }) => {
+  const [expanded, setExpanded] = useState(false);
+  // Edits only rebuild the editor when applied
+  const [draft, setDraft] = useState(config);
+  useEffect(() => setDraft(config), [config]);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(config);
+  const patternValid = isValidPattern(draft.pattern);
+
+  const typeOptions = useMemo(() => {
+    if (!schema) return [];
+    switch (draft.kind) {
+      case 'mark': return markTypes(schema).map(type => type.name);
+      case 'textblock': return nodeTypes(schema).filter(type => type.isTextblock).map(type => type.name);
+      case 'wrapping': return nodeTypes(schema).filter(type => type.isBlock && !type.isTextblock && !type.isLeaf && type !== schema.topNodeType).map(type => type.name);
+      default: return [];
+    }
+  }, [schema, draft.kind]);
+
+  const kindLabel = INPUT_RULE_KINDS.find(item => item.kind === config.kind)?.label;
+
+  return (
+    <RowFrame error={error} fired={fired}>
+      <div className="flex items-center gap-2 p-2">
+        <button onClick={() => setExpanded(!expanded)} className="text-slate-500 hover:text-white">
+          {expanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+        </button>
+        <FiredLight fired={fired} enabled={config.enabled} />
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(e) => onChange({ ...config, enabled: e.target.checked })}
+          title={config.enabled ? 'Disable' : 'Enable'}
+          className="rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500"
+        />
+        <div className="flex-1 min-w-0">
+          <div className={cn("text-sm truncate", config.enabled ? "text-slate-200" : "text-slate-500 line-through")}>
+            {config.name || 'unnamed'}
+          </div>
+          <div className="text-xs font-mono text-slate-500 truncate">
+            /{config.pattern}/ → {kindLabel}{config.kind !== 'custom' && ` ${config.type}`}
+          </div>
+        </div>
+        {error && <span title={error.message}><AlertTriangle size={14} className="text-red-400" /></span>}
+        <button onClick={() => onMove(-1)} disabled={isFirst} title="Move up" className="text-slate-500 hover:text-white disabled:opacity-30">
+          <ArrowUp size={14} />
+        </button>
+        <button onClick={() => onMove(1)} disabled={isLast} title="Move down" className="text-slate-500 hover:text-white disabled:opacity-30">
+          <ArrowDown size={14} />
+        </button>
+        <button onClick={onDelete} title="Delete" className="text-slate-500 hover:text-red-400">
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      {error && <div className="px-3 pb-2 text-xs text-red-400 font-mono break-all">{error.message}</div>}
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="block text-slate-500 mb-1 text-[10px] uppercase">Name</span>
+              <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="block text-slate-500 mb-1 text-[10px] uppercase">Pattern</span>
+              <input
+                value={draft.pattern}
+                onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+                className={cn(inputClass, !patternValid && "border-red-700 focus:border-red-500")}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-slate-500 mb-1 text-[10px] uppercase">Action</span>
+              <select
+                value={draft.kind}
+                onChange={(e) => setDraft({ ...draft, kind: e.target.value as InputRuleConfig['kind'] })}
+                className={inputClass}
+              >
+                {INPUT_RULE_KINDS.map(item => <option key={item.kind} value={item.kind}>{item.label}</option>)}
+              </select>
+            </label>
+            {draft.kind !== 'custom' && (
+              <label className="block">
+                <span className="block text-slate-500 mb-1 text-[10px] uppercase">{draft.kind === 'mark' ? 'Mark' : 'Node'}</span>
+                <select value={draft.type} onChange={(e) => setDraft({ ...draft, type: e.target.value })} className={inputClass}>
+                  {!typeOptions.includes(draft.type) && <option value={draft.type}>{draft.type || '(none)'}</option>}
+                  {typeOptions.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+              </label>
+            )}
+          </div>
+          {draft.kind === 'custom' ? (
+            <div>
+              <span className="block text-slate-500 mb-1 text-[10px] uppercase">Handler: (state, match, start, end) =&gt; tr, or a replacement string</span>
+              <CodeEditor
+                value={draft.handler}
+                onChange={(handler) => setDraft({ ...draft, handler })}
+                extensions={completions}
+                className="h-28 resize-y [&_.cm-editor]:h-full"
+              />
+            </div>
+          ) : (
+            <div>
+              <span className="block text-slate-500 mb-1 text-[10px] uppercase">Attrs: match =&gt; attrs (optional)</span>
+              <CodeEditor
+                value={draft.attrs}
+                onChange={(attrs) => setDraft({ ...draft, attrs })}
+                extensions={completions}
+                singleLine
+              />
+            </div>
+          )}
+          <ApplyButtons dirty={dirty} disabled={!patternValid} onRevert={() => setDraft(config)} onApply={() => onChange(draft)} />
+        </div>
+      )}
+    </RowFrame>
+  );
+};
+
+interface BindingRowProps extends RowProps<KeyBindingConfig> {
+  completions: ReturnType<typeof expressionCompletions>;
+}
+
+const BindingRow: React.FC<BindingRowProps> = ({ config, error, fired, completions, onChange, onDelete }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [draft, setDraft] = useState(config);
+  useEffect(() => setDraft(config), [config]);
+  const [recording, setRecording] = useState(false);
+  const dirty = draft.key !== config.key || draft.command !== config.command;
+
+  return (
+    <RowFrame error={error} fired={fired}>
+      <div className="flex items-center gap-2 p-2">
+        <button onClick={() => setExpanded(!expanded)} className="text-slate-500 hover:text-white">
+          {expanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+        </button>
+        <FiredLight fired={fired} enabled={config.enabled} />
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(e) => onChange({ ...config, enabled: e.target.checked })}
+          title={config.enabled ? 'Disable' : 'Enable'}
+          className="rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500"
+        />
+        <kbd className={cn(
+          "px-1.5 py-0.5 rounded border text-xs font-mono shrink-0",
+          config.enabled ? "bg-slate-800 border-slate-700 text-slate-200" : "bg-slate-900 border-slate-800 text-slate-500 line-through"
+        )}>
+          {config.key || '(no key)'}
+        </kbd>
+        <span className="flex-1 min-w-0 text-xs font-mono text-slate-400 truncate">{config.command}</span>
+        {error && <span title={error.message}><AlertTriangle size={14} className="text-red-400" /></span>}
+        <button onClick={onDelete} title="Delete" className="text-slate-500 hover:text-red-400">
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      {error && <div className="px-3 pb-2 text-xs text-red-400 font-mono break-all">{error.message}</div>}
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-2">
+          <div>
+            <span className="block text-slate-500 mb-1 text-[10px] uppercase">Key</span>
+            <div className="flex gap-2">
+              <input
+                value={draft.key}
+                onChange={(e) => setDraft({ ...draft, key: e.target.value })}
+                placeholder="e.g. Mod-Shift-z"
+                className={inputClass}
+              />
+              <button
+                onClick={() => setRecording(true)}
+                onBlur={() => setRecording(false)}
+                onKeyDown={(e) => {
+                  if (!recording) return;
+                  const name = keyName(e);
+                  if (!name) return;
+                  e.preventDefault();
+                  setDraft({ ...draft, key: name });
+                  setRecording(false);
+                }}
+                className={cn(
+                  "flex items-center gap-1.5 px-3 py-1 text-xs font-medium rounded-md transition-colors shrink-0",
+                  recording ? "text-white bg-amber-600" : "text-slate-300 bg-slate-800 hover:bg-slate-700"
+                )}
+              >
+                <Keyboard size={14} /> {recording ? 'Press keys...' : 'Record'}
+              </button>
+            </div>
+          </div>
+          <div>
+            <span className="block text-slate-500 mb-1 text-[10px] uppercase">Command</span>
+            <CodeEditor
+              value={draft.command}
+              onChange={(command) => setDraft({ ...draft, command })}
+              extensions={completions}
+              className="h-20 resize-y [&_.cm-editor]:h-full"
+            />
+          </div>
+          <ApplyButtons dirty={dirty} onRevert={() => setDraft(config)} onApply={() => onChange(draft)} />
+        </div>
+      )}
+    </RowFrame>
+  );
+};
+
+const SectionHeader: React.FC<{ title: string; customized: boolean; onReset: () => void; onAdd: () => void }> = ({ title, customized, onReset, onAdd }) => (
+  <div className="flex items-center justify-between px-1">
+    <span className="text-slate-500 text-[10px] uppercase">
+      {title} {!customized && <span className="normal-case text-blue-400">· suggested for this schema</span>}
+    </span>
+    <div className="flex items-center gap-3 text-xs">
+      <button
+        onClick={onReset}
+        disabled={!customized}
+        title="Discard changes and use the suggestions for the current schema"
+        className="flex items-center gap-1 text-slate-400 hover:text-white disabled:opacity-40 disabled:hover:text-slate-400"
+      >
+        <RotateCcw size={14} /> Suggestions
+      </button>
+      <button onClick={onAdd} className="flex items-center gap-1 text-slate-400 hover:text-white">
+        <Plus size={14} /> Add
+      </button>
+    </div>
+  </div>
+);
+
+const InputRulesPanel: React.FC<InputRulesPanelProps> = ({
+  schema, rules, rulesCustomized, onRulesChange, bindings, bindingsCustomized, onBindingsChange, compiled, transactionCount,
+}) => {
+  // Values rule and binding code can use, kept current for autocompletion
+  const scopeRef = useRef<Record<string, unknown>>({});
+  Object.assign(scopeRef.current, inputScope(schema));
+  const completions = useMemo(() => expressionCompletions(scopeRef.current), []);
+
+  // Re-render once the latest light should go out
+  const [, setTick] = useState(0);
+  const fired: FiredInput[] = compiled?.tracer.fired || [];
+  const latest = fired[fired.length - 1];
+  useEffect(() => {
+    if (!latest) return;
+    const remaining = latest.time + FIRED_HIGHLIGHT_MS - Date.now();
+    if (remaining <= 0) return;
+    const timer = setTimeout(() => setTick(tick => tick + 1), remaining);
+    return () => clearTimeout(timer);
+  }, [latest, transactionCount]);
+
+  const now = Date.now();
+  const isLit = (id: string) => fired.some(entry => entry.id === id && now - entry.time < FIRED_HIGHLIGHT_MS);
+  const errorFor = (id: string) => compiled?.errors.find(error => error.id === id);
+
+  const moveRule = (idx: number, offset: number) => {
+    const next = [...rules];
+    const [item] = next.splice(idx, 1);
+    next.splice(idx + offset, 0, item);
+    onRulesChange(next);
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3">
+        <span className="block text-slate-500 mb-1 text-[10px] uppercase">Recently fired</span>
+        {fired.length === 0 ? (
+          <div className="text-xs text-slate-600 italic">Type in the editor to see which rule or binding handles it</div>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {[...fired].reverse().slice(0, 8).map((entry, idx) => (
+              <span
+                key={`${entry.time}-${idx}`}
+                className={cn(
+                  "flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-mono border",
+                  now - entry.time < FIRED_HIGHLIGHT_MS ? "bg-amber-900/40 border-amber-700 text-amber-200" : "bg-slate-950/50 border-slate-800 text-slate-400"
+                )}
+              >
+                {entry.kind === 'rule' ? <Zap size={12} /> : <Keyboard size={12} />} {entry.name}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <SectionHeader
+          title={`Input rules (${rules.length})`}
+          customized={rulesCustomized}
+          onReset={() => onRulesChange(null)}
+          onAdd={() => onRulesChange([...rules, createInputRule({ name: 'arrow', pattern: '->$', handler: '"→"' })])}
+        />
+        <p className="text-xs text-slate-500 px-1">The first rule whose pattern matches the text before the cursor wins.</p>
+        {rules.map((rule, idx) => (
+          <RuleRow
+            key={rule.id}
+            config={rule}
+            error={errorFor(rule.id)}
+            fired={isLit(rule.id)}
+            schema={schema}
+            completions={completions}
+            isFirst={idx === 0}
+            isLast={idx === rules.length - 1}
+            onChange={(next) => onRulesChange(rules.map((item, i) => i === idx ? next : item))}
+            onMove={(offset) => moveRule(idx, offset)}
+            onDelete={() => onRulesChange(rules.filter((_, i) => i !== idx))}
+          />
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <SectionHeader
+          title={`Key bindings (${bindings.length})`}
+          customized={bindingsCustomized}
+          onReset={() => onBindingsChange(null)}
+          onAdd={() => onBindingsChange([...bindings, createKeyBinding('', 'selectAll')])}
+        />
+        <p className="text-xs text-slate-500 px-1">Bindings for the same key are tried in order. Keys not bound here fall through to the base keymap plugin.</p>
+        {bindings.map((binding, idx) => (
+          <BindingRow
+            key={binding.id}
+            config={binding}
+            error={errorFor(binding.id)}
+            fired={isLit(binding.id)}
+            completions={completions}
+            onChange={(next) => onBindingsChange(bindings.map((item, i) => i === idx ? next : item))}
+            onDelete={() => onBindingsChange(bindings.filter((_, i) => i !== idx))}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default InputRulesPanel;
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Play, ShieldAlert, X } from 'lucide-react';
+import { LinkedCode } from '../lib/permalink';
+
+interface LinkedCodePromptProps {
+  code: LinkedCode[];
+  onRun: () => void;
+  onDismiss: () => void;
+}
+
+// Shown for a permalink that carries code. The document and layout are
+// restored already; the code only runs once the user asks for it.
+const LinkedCodePrompt: React.FC<LinkedCodePromptProps> = ({ code, onRun, onDismiss }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="bg-amber-900/30 border-b border-amber-800/60 px-6 py-2 text-sm text-amber-200 space-y-2">
+      <div className="flex items-center gap-2">
+        <ShieldAlert size={16} className="shrink-0" />
+        <span>
+          This link contains code ({code.length} piece{code.length === 1 ? '' : 's'}). It hasn't been run, so the
+          document is shown with the built-in schema.
+        </span>
+        <button onClick={() => setIsExpanded(!isExpanded)} className="flex items-center gap-1 text-amber-300 hover:text-amber-100 shrink-0">
+          {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />} Review
+        </button>
+        <div className="ml-auto flex gap-2 shrink-0">
+          <button
+            onClick={onDismiss}
+            className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-slate-300 bg-slate-800 rounded-md hover:bg-slate-700 transition-colors"
+          >
+            <X size={14} /> Dismiss
+          </button>
+          <button
+            onClick={onRun}
+            className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-white bg-amber-600 rounded-md hover:bg-amber-500 transition-colors"
+          >
+            <Play size={14} /> Run this code
+          </button>
+        </div>
+      </div>
+      {isExpanded && (
+        <div className="max-h-[40vh] overflow-y-auto space-y-2 pb-1">
+          {code.map((entry, idx) => (
+            <div key={idx}>
+              <span className="block text-amber-300/70 mb-1 text-[10px] uppercase">{entry.label}</span>
+              <pre className="bg-slate-950/60 p-2 rounded text-xs font-mono text-slate-300 whitespace-pre-wrap break-all">{entry.code}</pre>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LinkedCodePrompt;
@@ -0,0 +1,209 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Schema } from 'prosemirror-model';
+import { AlertTriangle, FileCode, Play, RotateCcw, Trash2 } from 'lucide-react';
+import { NodeViewEvent, NodeViewEventKind } from '../types';
+import { cn } from '../lib/utils';
+import { clearNodeViewEvents, CompiledNodeViews, EXAMPLE_NODE_VIEW_CODE, nodeViewScope } from '../lib/nodeViews';
+import { CodeDiagnostic, expressionCompletions } from '../lib/codeEditor';
+import CodeEditor from './CodeEditor';
+
+interface NodeViewPanelProps {
+  schema: Schema | null;
+  // The code in use; edits are only applied on demand
+  code: string;
+  onCodeChange: (code: string) => void;
+  compiled: CompiledNodeViews | null;
+  // Events are collected during dispatch; this re-renders the log
+  transactionCount: number;
+}
+
+const KIND_STYLES: Record<NodeViewEventKind, string> = {
+  create: "bg-green-900/40 border-green-800 text-green-300",
+  update: "bg-blue-900/40 border-blue-800 text-blue-300",
+  destroy: "bg-red-900/40 border-red-800 text-red-300",
+  selectNode: "bg-purple-900/40 border-purple-800 text-purple-300",
+  deselectNode: "bg-purple-900/40 border-purple-800 text-purple-300",
+  stopEvent: "bg-slate-800 border-slate-700 text-slate-300",
+  ignoreMutation: "bg-slate-800 border-slate-700 text-slate-300",
+  error: "bg-red-900/60 border-red-700 text-red-200",
+};
+
+interface EventGroup {
+  dispatch: number | null;
+  events: NodeViewEvent[];
+}
+
+// Consecutive events of the same dispatch, newest first
+function groupEvents(events: NodeViewEvent[]): EventGroup[] {
+  const groups: EventGroup[] = [];
+  for (const event of events) {
+    const last = groups[groups.length - 1];
+    if (last && last.dispatch === event.dispatch) last.events.push(event);
+    else groups.push({ dispatch: event.dispatch, events: [event] });
+  }
+  return groups.reverse();
+}
+
+interface TypeCounts {
+  create: number;
+  update: number;
+  needless: number;
+  destroy: number;
+}
+
+function countByType(events: NodeViewEvent[]): [string, TypeCounts][] {
+  const counts = new Map<string, TypeCounts>();
+  for (const event of events) {
+    if (!counts.has(event.type)) counts.set(event.type, { create: 0, update: 0, needless: 0, destroy: 0 });
+    const entry = counts.get(event.type)!;
+    if (event.kind === 'create' || event.kind === 'update' || event.kind === 'destroy') entry[event.kind]++;
+    if (event.needless) entry.needless++;
+  }
+  return [...counts];
+}
+
+const EventRow: React.FC<{ event: NodeViewEvent }> = ({ event }) => (
+  <div className="flex items-baseline gap-2 px-1.5 py-0.5 text-xs">
+    <span className={cn("px-1.5 rounded border text-[10px] font-mono shrink-0", KIND_STYLES[event.kind])}>{event.kind}</span>
+    <span className="font-mono text-slate-300 shrink-0">{event.type} #{event.instance}</span>
+    {event.pos !== null && <span className="font-mono text-slate-500 shrink-0">@{event.pos}</span>}
+    <span className={cn("font-mono break-all min-w-0", event.kind === 'error' ? "text-red-400" : "text-slate-400")}>{event.detail}</span>
+    {event.result !== undefined && event.kind === 'update' && (
+      <span className={cn("font-mono shrink-0", event.result ? "text-slate-500" : "text-amber-300")}>
+        → {String(event.result)}
+      </span>
+    )}
+    {event.needless && (
+      <span className="ml-auto px-1 rounded text-[10px] bg-amber-900/40 border border-amber-800 text-amber-300 shrink-0">needless</span>
+    )}
+  </div>
+);
+
+const NodeViewPanel: React.FC<NodeViewPanelProps> = ({ schema, code, onCodeChange, compiled }) => {
+  const [draft, setDraft] = useState(code);
+  // Clearing mutates the tracer, so the log needs a nudge to re-render
+  const [, setCleared] = useState(0);
+  // Values node view code can use, kept current for autocompletion
+  const scopeRef = useRef<Record<string, unknown>>({});
+  Object.assign(scopeRef.current, nodeViewScope(schema));
+  const completions = useMemo(() => expressionCompletions(scopeRef.current), []);
+
+  // Code can also be replaced from outside, e.g. by a permalink
+  useEffect(() => setDraft(code), [code]);
+
+  const dirty = draft !== code;
+  const error = compiled?.error ?? null;
+  const diagnostics = useMemo<CodeDiagnostic[]>(() => error && error.line !== null && !dirty
+    ? [{ line: error.line, column: error.column, message: error.message, severity: 'error' }]
+    : [], [error, dirty]);
+
+  const events = compiled?.tracer.events ?? [];
+  const groups = groupEvents(events);
+  const counts = countByType(events);
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-3">
+      <div className={cn("bg-slate-900 rounded-lg border p-3 space-y-2", error ? "border-red-900" : "border-slate-800")}>
+        <div className="flex items-center justify-between">
+          <span className="text-slate-500 text-[10px] uppercase">Node views</span>
+          {dirty && <span className="text-[10px] text-amber-400 uppercase">edited</span>}
+        </div>
+        <CodeEditor
+          value={draft}
+          onChange={setDraft}
+          extensions={completions}
+          diagnostics={diagnostics}
+          className="h-64 resize-y [&_.cm-editor]:h-full"
+        />
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-red-400 font-mono break-all">{error && !dirty ? error.message : ''}</span>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={() => setDraft(EXAMPLE_NODE_VIEW_CODE)}
+              className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-slate-300 bg-slate-800 rounded-md hover:bg-slate-700 transition-colors"
+            >
+              <FileCode size={14} /> Example
+            </button>
+            <button
+              onClick={() => setDraft(code)}
+              disabled={!dirty}
+              className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-slate-300 bg-slate-800 rounded-md hover:bg-slate-700 disabled:opacity-40 transition-colors"
+            >
+              <RotateCcw size={14} /> Revert
+            </button>
+            <button
+              onClick={() => onCodeChange(draft)}
+              disabled={!dirty}
+              className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600 transition-colors"
+            >
+              <Play size={14} /> Apply
+            </button>
+          </div>
+        </div>
+        {compiled && compiled.unknownTypes.length > 0 && (
+          <div className="flex items-start gap-1.5 text-xs text-amber-300">
+            <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+            The schema has no {compiled.unknownTypes.join(', ')} node type, so those node views are never used
+          </div>
+        )}
+        <p className="text-xs text-slate-500">Applying rebuilds the editor, keeping the document.</p>
+      </div>
+
+      {counts.length > 0 && (
+        <div className="bg-slate-900 rounded-lg border border-slate-800 p-3">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-slate-500 text-[10px] uppercase text-left">
+                <th className="font-normal pb-1">Type</th>
+                <th className="font-normal pb-1">Created</th>
+                <th className="font-normal pb-1">Updated</th>
+                <th className="font-normal pb-1">Needless</th>
+                <th className="font-normal pb-1">Destroyed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {counts.map(([type, entry]) => (
+                <tr key={type} className="border-t border-slate-800 font-mono">
+                  <td className="py-1 pr-2 text-slate-300">{type}</td>
+                  <td className="py-1 pr-2">{entry.create}</td>
+                  <td className="py-1 pr-2">{entry.update}</td>
+                  <td className={cn("py-1 pr-2", entry.needless > 0 ? "text-amber-300" : "text-slate-500")}>{entry.needless}</td>
+                  <td className="py-1">{entry.destroy}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-slate-500 text-[10px] uppercase">Lifecycle ({events.length})</span>
+        {events.length > 0 && compiled && (
+          <button
+            onClick={() => { clearNodeViewEvents(compiled.tracer); setCleared(count => count + 1); }}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-white"
+          >
+            <Trash2 size={14} /> Clear
+          </button>
+        )}
+      </div>
+
+      {events.length === 0 ? (
+        <div className="text-sm text-slate-500 text-center mt-8">
+          Define a node view and apply it; every call the editor makes into it is listed here.
+        </div>
+      ) : (
+        groups.map(group => (
+          <div key={group.events[0].id} className="bg-slate-900 rounded-lg border border-slate-800 py-1.5">
+            <div className="px-3 pb-1 text-[10px] uppercase text-slate-500">
+              {group.dispatch === null ? 'Editor view built or torn down' : `Transaction ${group.dispatch}`}
+            </div>
+            {group.events.map(event => <EventRow key={event.id} event={event} />)}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default NodeViewPanel;
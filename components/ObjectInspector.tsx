@@ -0,0 +1,363 @@
+import React, { useState } from 'react';
+import { Fragment, Mark, Node, ResolvedPos, Slice } from 'prosemirror-model';
+import { Selection, Transaction } from 'prosemirror-state';
+import { Mapping, Step, StepMap, Transform } from 'prosemirror-transform';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { cn, errorMessage } from '../lib/utils';
+import { describeMarks, describeSelection, describeStep, getMetaEntries } from '../lib/transactions';
+import { callGetter, className, getterNames, inspectorKind, ownProperties, previewValue, stepMapRanges } from '../lib/inspector';
+
+interface ObjectInspectorProps {
+  value: unknown;
+  // Label for the root row; without it the root is shown expanded, unlabeled
+  name?: string;
+}
+
+// Long child lists are cut off; the rest are still reachable as properties
+const MAX_ITEMS = 50;
+
+const isExpandable = (value: unknown): value is object => typeof value === 'object' && value !== null;
+
+const Preview: React.FC<{ value: unknown }> = ({ value }) => (
+  <span className={cn(
+    "break-all",
+    typeof value === 'string' ? "text-green-300"
+      : typeof value === 'number' || typeof value === 'bigint' ? "text-blue-300"
+      : typeof value === 'boolean' ? "text-purple-300"
+      : value === null || value === undefined ? "text-slate-500"
+      : typeof value === 'function' ? "text-slate-400 italic"
+      : "text-slate-300"
+  )}>
+    {previewValue(value)}
+  </span>
+);
+
+const Label: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <span className="block text-slate-500 mt-1 mb-0.5 text-[10px] uppercase">{children}</span>
+);
+
+const MiniNode: React.FC<{ node: Node; pos: number }> = ({ node, pos }) => {
+  const [expanded, setExpanded] = useState(false);
+  const children: { child: Node; offset: number }[] = [];
+  node.forEach((child, offset) => children.push({ child, offset }));
+  const attrs = Object.entries(node.attrs);
+
+  return (
+    <div>
+      <div className="flex items-start gap-1">
+        <button
+          className="w-3 shrink-0 text-slate-500 hover:text-white pt-0.5"
+          onClick={() => setExpanded(!expanded)}
+          disabled={children.length === 0}
+        >
+          {children.length > 0 && (expanded ? <ChevronDown size={10} /> : <ChevronRight size={10} />)}
+        </button>
+        <span className="text-blue-300">{node.type.name}</span>
+        <span className="text-slate-600">{pos}–{pos + node.nodeSize}</span>
+        {attrs.length > 0 && (
+          <span className="text-slate-400 truncate">
+            {attrs.map(([key, val]) => `${key}=${JSON.stringify(val)}`).join(' ')}
+          </span>
+        )}
+        {node.marks.length > 0 && <span className="text-purple-300">{describeMarks(node.marks)}</span>}
+        {node.isText && <span className="text-green-300 truncate">{JSON.stringify(node.text)}</span>}
+      </div>
+      {expanded && (
+        <div className="pl-3 border-l border-slate-800 ml-1.5">
+          {children.slice(0, MAX_ITEMS).map(({ child, offset }) => (
+            <MiniNode key={offset} node={child} pos={pos + 1 + offset} />
+          ))}
+          {children.length > MAX_ITEMS && <div className="text-slate-600 italic">… {children.length - MAX_ITEMS} more</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Fragment children, with positions relative to the fragment start
+const FragmentChildren: React.FC<{ fragment: Fragment }> = ({ fragment }) => {
+  const children: { child: Node; offset: number }[] = [];
+  fragment.forEach((child, offset) => children.push({ child, offset }));
+  if (children.length === 0) return <div className="text-slate-600 italic">empty</div>;
+  return (
+    <div>
+      {children.slice(0, MAX_ITEMS).map(({ child, offset }) => <MiniNode key={offset} node={child} pos={offset} />)}
+      {children.length > MAX_ITEMS && <div className="text-slate-600 italic">… {children.length - MAX_ITEMS} more</div>}
+    </div>
+  );
+};
+
+const NodeView: React.FC<{ node: Node }> = ({ node }) => (
+  <div>
+    <Facts facts={[
+      ['type', node.type.name],
+      ['nodeSize', node.nodeSize],
+      ...Object.entries(node.attrs).map(([key, val]) => [`attrs.${key}`, JSON.stringify(val)] as [string, React.ReactNode]),
+      ...(node.marks.length ? [['marks', describeMarks(node.marks)] as [string, React.ReactNode]] : []),
+      ...(node.isText ? [['text', JSON.stringify(node.text)] as [string, React.ReactNode]] : []),
+    ]} />
+    {!node.isLeaf && (
+      <>
+        <Label>Content ({node.childCount}), positions from its start</Label>
+        <FragmentChildren fragment={node.content} />
+      </>
+    )}
+  </div>
+);
+
+const Facts: React.FC<{ facts: [string, React.ReactNode][] }> = ({ facts }) => (
+  <div className="grid grid-cols-[auto_1fr] gap-x-3">
+    {facts.map(([label, value]) => (
+      <React.Fragment key={label}>
+        <span className="text-slate-500">{label}</span>
+        <span className="text-slate-300 break-all">{value}</span>
+      </React.Fragment>
+    ))}
+  </div>
+);
+
+const ResolvedPosView: React.FC<{ $pos: ResolvedPos }> = ({ $pos }) => {
+  const rows = [];
+  for (let d = 0; d <= $pos.depth; d++) {
+    rows.push({
+      depth: d,
+      node: $pos.node(d).type.name,
+      index: $pos.index(d),
+      start: $pos.start(d),
+      end: $pos.end(d),
+      before: d > 0 ? $pos.before(d) : '—',
+      after: d > 0 ? $pos.after(d) : '—',
+    });
+  }
+  return (
+    <div>
+      <Facts facts={[
+        ['pos', $pos.pos],
+        ['parentOffset', $pos.parentOffset],
+        ['textOffset', $pos.textOffset],
+        ['nodeBefore', <Preview value={$pos.nodeBefore} />],
+        ['nodeAfter', <Preview value={$pos.nodeAfter} />],
+      ]} />
+      <Label>Path</Label>
+      <table className="w-full">
+        <thead>
+          <tr className="text-slate-500 text-left">
+            {['depth', 'node', 'index', 'start', 'end', 'before', 'after'].map(h => <th key={h} className="font-normal pr-2">{h}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.depth} className={cn("text-slate-300", row.depth === $pos.depth && "text-blue-300")}>
+              <td className="pr-2">{row.depth}</td>
+              <td className="pr-2">{row.node}</td>
+              <td className="pr-2">{row.index}</td>
+              <td className="pr-2">{row.start}</td>
+              <td className="pr-2">{row.end}</td>
+              <td className="pr-2">{row.before}</td>
+              <td>{row.after}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const SelectionView: React.FC<{ selection: Selection }> = ({ selection }) => (
+  <Facts facts={[
+    ['type', className(selection)],
+    ['anchor', selection.anchor],
+    ['head', selection.head],
+    ['from–to', `${selection.from}–${selection.to}`],
+    ['empty', String(selection.empty)],
+    ['ranges', selection.ranges.map(range => `${range.$from.pos}–${range.$to.pos}`).join(', ')],
+  ]} />
+);
+
+const SliceView: React.FC<{ slice: Slice }> = ({ slice }) => (
+  <div>
+    <Facts facts={[
+      ['openStart', slice.openStart],
+      ['openEnd', slice.openEnd],
+      ['size', slice.size],
+    ]} />
+    <Label>Content</Label>
+    <FragmentChildren fragment={slice.content} />
+  </div>
+);
+
+const MarksView: React.FC<{ marks: readonly Mark[] }> = ({ marks }) => (
+  <div className="space-y-0.5">
+    {marks.map((mark, idx) => (
+      <div key={idx} className="flex gap-2">
+        <span className="text-purple-300">{mark.type.name}</span>
+        <span className="text-slate-400 truncate">
+          {Object.entries(mark.attrs).map(([key, val]) => `${key}=${JSON.stringify(val)}`).join(' ')}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+const StepView: React.FC<{ step: Step }> = ({ step }) => {
+  const { name, fields } = describeStep(step);
+  return <Facts facts={[['class', name], ...fields.map(field => [field.name, field.value] as [string, React.ReactNode])]} />;
+};
+
+const StepMapView: React.FC<{ map: StepMap }> = ({ map }) => {
+  const ranges = stepMapRanges(map);
+  if (ranges.length === 0) return <div className="text-slate-600 italic">No changed ranges</div>;
+  return (
+    <div>
+      {ranges.map(([oldStart, oldEnd, newStart, newEnd], idx) => (
+        <div key={idx} className="text-slate-300">
+          {oldStart}–{oldEnd} <span className="text-slate-500">→</span> {newStart}–{newEnd}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const MappingView: React.FC<{ mapping: Mapping }> = ({ mapping }) => (
+  <div>
+    <Facts facts={[['from', mapping.from], ['to', mapping.to]]} />
+    <Label>Maps ({mapping.maps.length})</Label>
+    {mapping.maps.slice(0, MAX_ITEMS).map((map, idx) => (
+      <div key={idx} className="flex gap-2">
+        <span className="text-slate-500">{idx}</span>
+        <StepMapView map={map} />
+      </div>
+    ))}
+  </div>
+);
+
+const TransformView: React.FC<{ tr: Transform }> = ({ tr }) => (
+  <div>
+    <Facts facts={[
+      ['docChanged', String(tr.docChanged)],
+      ['doc size', `${tr.before.content.size} → ${tr.doc.content.size}`],
+      ...(tr instanceof Transaction ? [
+        ['selection', describeSelection(tr.selection)],
+        ['storedMarks', describeMarks(tr.storedMarks)],
+        ['time', new Date(tr.time).toLocaleTimeString()],
+        ['meta', getMetaEntries(tr).map(([key]) => key).join(', ') || '—'],
+      ] as [string, React.ReactNode][] : []),
+    ]} />
+    <Label>Steps ({tr.steps.length})</Label>
+    {tr.steps.slice(0, MAX_ITEMS).map((step, idx) => {
+      const { name, fields } = describeStep(step);
+      return (
+        <div key={idx} className="text-slate-300 truncate">
+          <span className="text-slate-500">{idx}</span> <span className="text-blue-300">{name}</span>{' '}
+          {fields.map(field => `${field.name}=${field.value}`).join(' ')}
+        </div>
+      );
+    })}
+  </div>
+);
+
+const TypedView: React.FC<{ value: unknown }> = ({ value }) => {
+  switch (inspectorKind(value)) {
+    case 'node': return <NodeView node={value as Node} />;
+    case 'fragment': return <FragmentChildren fragment={value as Fragment} />;
+    case 'slice': return <SliceView slice={value as Slice} />;
+    case 'resolvedPos': return <ResolvedPosView $pos={value as ResolvedPos} />;
+    case 'selection': return <SelectionView selection={value as Selection} />;
+    case 'mark': return <MarksView marks={[value as Mark]} />;
+    case 'marks': return <MarksView marks={value as Mark[]} />;
+    case 'step': return <StepView step={value as Step} />;
+    case 'stepMap': return <StepMapView map={value as StepMap} />;
+    case 'mapping': return <MappingView mapping={value as Mapping} />;
+    case 'transform': return <TransformView tr={value as Transform} />;
+    default: return null;
+  }
+};
+
+interface PropertyRowProps {
+  name: string;
+  value?: unknown;
+  // Set for getters that haven't been called yet: calling happens on expand
+  getterOf?: object;
+  defaultExpanded?: boolean;
+}
+
+const PropertyRow: React.FC<PropertyRowProps> = ({ name, value: initialValue, getterOf, defaultExpanded = false }) => {
+  const [expanded, setExpanded] = useState(defaultExpanded);
+  const [evaluated, setEvaluated] = useState<{ value: unknown } | { error: Error } | null>(null);
+
+  const pending = !!getterOf && !evaluated;
+  const failed = evaluated && 'error' in evaluated ? evaluated.error : null;
+  const value = evaluated && 'value' in evaluated ? evaluated.value : initialValue;
+  const expandable = !pending && !failed && isExpandable(value);
+
+  const handleClick = () => {
+    if (pending) {
+      const result = callGetter(getterOf!, name);
+      setEvaluated(result);
+      return;
+    }
+    if (expandable) setExpanded(!expanded);
+  };
+
+  return (
+    <div>
+      <div className="flex items-start gap-1 cursor-pointer hover:bg-slate-800/50 rounded" onClick={handleClick}>
+        <span className="w-3 shrink-0 text-slate-500 pt-0.5">
+          {expandable && (expanded ? <ChevronDown size={10} /> : <ChevronRight size={10} />)}
+        </span>
+        <span className={cn("shrink-0", getterOf ? "text-sky-300/70" : "text-sky-300")}>{name}</span>
+        <span className="text-slate-600">:</span>
+        {pending
+          ? <span className="text-slate-500" title="Invoke property getter">(...)</span>
+          : failed
+            ? <span className="text-red-400">{`[Exception: ${errorMessage(failed)}]`}</span>
+            : <Preview value={value} />}
+      </div>
+      {expanded && expandable && (
+        <div className="pl-3 border-l border-slate-800 ml-1.5">
+          <ObjectBody value={value} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// What an expanded object shows: its typed view (for ProseMirror values),
+// then own properties, then getters from its prototype chain
+const ObjectBody: React.FC<{ value: object }> = ({ value }) => {
+  const properties = ownProperties(value);
+  const getters = getterNames(value);
+  const typed = inspectorKind(value) !== null;
+  return (
+    <div>
+      {typed && (
+        <div className="bg-slate-900/60 rounded px-1.5 py-1 my-0.5">
+          <TypedView value={value} />
+        </div>
+      )}
+      {properties.slice(0, MAX_ITEMS * 4).map(({ key, value: child }) => <PropertyRow key={key} name={key} value={child} />)}
+      {properties.length > MAX_ITEMS * 4 && <div className="text-slate-600 italic">… {properties.length - MAX_ITEMS * 4} more</div>}
+      {getters.map(getter => <PropertyRow key={`get ${getter}`} name={getter} getterOf={value} />)}
+    </div>
+  );
+};
+
+// Lazily expandable view of any value, like the console in browser devtools
+const ObjectInspector: React.FC<ObjectInspectorProps> = ({ value, name }) => {
+  let content: React.ReactNode;
+  if (name !== undefined) {
+    content = <PropertyRow name={name} value={value} defaultExpanded />;
+  } else if (!isExpandable(value)) {
+    content = <Preview value={value} />;
+  } else {
+    content = (
+      <>
+        <div className="text-slate-400 mb-0.5"><Preview value={value} /></div>
+        <ObjectBody value={value} />
+      </>
+    );
+  }
+  return <div className="text-xs font-mono">{content}</div>;
+};
+
+export default ObjectInspector;
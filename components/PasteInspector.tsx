@@ -0,0 +1,297 @@
+import React, { useState } from 'react';
+import { Slice } from 'prosemirror-model';
+import { EditorView } from 'prosemirror-view';
+import { ChevronDown, ChevronRight, ClipboardPaste, Trash2 } from 'lucide-react';
+import { PasteRecord } from '../types';
+import { describeStep } from '../lib/transactions';
+import { pluginLabel } from '../lib/plugins';
+import { PASTE_FIXTURES, pasteFixture, pasteHandlers, pasteOutcome } from '../lib/paste';
+import { errorMessage } from '../lib/utils';
+
+interface PasteInspectorProps {
+  view: EditorView | null;
+  // Oldest first, as recorded
+  records: PasteRecord[];
+  onClear: () => void;
+}
+
+interface FixtureDraft {
+  html: string;
+  text: string;
+}
+
+const Stage: React.FC<{ index: number; title: string; children: React.ReactNode }> = ({ index, title, children }) => (
+  <div>
+    <span className="block text-slate-500 mb-1 text-[10px] uppercase">{index}. {title}</span>
+    {children}
+  </div>
+);
+
+const Raw: React.FC<{ value: string | null; empty?: string }> = ({ value, empty = 'None' }) => (
+  value === null
+    ? <div className="text-xs text-slate-600 italic">{empty}</div>
+    : <pre className="bg-slate-950/50 p-2 rounded text-xs font-mono text-slate-300 whitespace-pre-wrap break-all max-h-40 overflow-y-auto">{value}</pre>
+);
+
+const SliceView: React.FC<{ slice: Slice }> = ({ slice }) => (
+  <div className="bg-slate-950/50 p-2 rounded text-xs font-mono space-y-1">
+    <div className="flex gap-2">
+      <span className="px-1.5 rounded border border-slate-700 text-slate-300">openStart {slice.openStart}</span>
+      <span className="px-1.5 rounded border border-slate-700 text-slate-300">openEnd {slice.openEnd}</span>
+      <span className="text-slate-500">size {slice.size}</span>
+    </div>
+    <div className="text-slate-300 break-all">{slice.content.toString()}</div>
+  </div>
+);
+
+// Whether a transform prop changed its input, for the stages that ran
+const Transformed: React.FC<{ input: string | null; output: string | null }> = ({ input, output }) => {
+  if (output === null) return <div className="text-xs text-slate-600 italic">Not used for this paste</div>;
+  if (output === input) return <div className="text-xs text-slate-500">Unchanged</div>;
+  return <Raw value={output} />;
+};
+
+interface PasteEntryProps {
+  record: PasteRecord;
+  view: EditorView;
+  onUseAsFixture: (draft: FixtureDraft) => void;
+}
+
+const PasteEntry: React.FC<PasteEntryProps> = ({ record, view, onUseAsFixture }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const outcome = pasteOutcome(record);
+  const handlers = record.reachedDefault ? [] : pasteHandlers(view, record.source);
+  const usedText = record.transformedText !== null;
+
+  let summary: React.ReactNode;
+  if (outcome) {
+    summary = <span className="text-blue-300">inserted at {outcome.insertedFrom}–{outcome.insertedTo}</span>;
+  } else if (!record.reachedDefault) {
+    summary = <span className="text-amber-400">handled by a {record.source === 'drop' ? 'handleDrop' : 'handlePaste'} prop</span>;
+  } else {
+    summary = <span className="text-slate-500">nothing inserted</span>;
+  }
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 overflow-hidden">
+      <div
+        className="flex items-center justify-between gap-2 p-3 cursor-pointer hover:bg-slate-800/50 transition-colors select-none"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="flex items-center gap-2 text-sm min-w-0">
+          <span className="font-mono text-slate-500">#{record.id}</span>
+          <span className="font-mono text-slate-300">{record.internalDrag ? 'drag' : record.source}</span>
+          <span className="text-xs truncate">{summary}</span>
+          {outcome && (outcome.dropped.length > 0 || outcome.droppedText > 0) && (
+            <span className="text-xs text-red-400">content dropped</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <span className="text-xs font-mono text-slate-600">{new Date(record.time).toLocaleTimeString()}</span>
+          {isExpanded ? <ChevronDown size={16} className="text-slate-500" /> : <ChevronRight size={16} className="text-slate-500" />}
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 border-t border-slate-800/50 pt-3 space-y-3">
+          {record.internalDrag ? (
+            <div className="text-xs text-slate-500">
+              Dragged within the editor, so the dragged slice skipped the clipboard parser.
+            </div>
+          ) : (
+            <>
+              <Stage index={1} title="Clipboard">
+                <div className="space-y-1">
+                  <span className="block text-slate-600 text-[10px]">text/html</span>
+                  <Raw value={record.html} />
+                  <span className="block text-slate-600 text-[10px]">text/plain</span>
+                  <Raw value={record.text} />
+                </div>
+              </Stage>
+              <Stage index={2} title={usedText ? `transformPastedText${record.plain ? ' (plain)' : ''}` : 'transformPastedHTML'}>
+                {usedText
+                  ? <Transformed input={record.text} output={record.transformedText} />
+                  : <Transformed input={record.html} output={record.transformedHTML} />}
+              </Stage>
+            </>
+          )}
+
+          <Stage index={3} title={record.internalDrag ? 'Dragged slice' : 'Parsed slice'}>
+            {record.parsed ? <SliceView slice={record.parsed} /> : <div className="text-xs text-slate-600 italic">Nothing parsed</div>}
+          </Stage>
+
+          <Stage index={4} title="transformPasted">
+            {!record.transformed ? (
+              <div className="text-xs text-slate-600 italic">Not reached</div>
+            ) : record.transformed === record.parsed ? (
+              <div className="text-xs text-slate-500">Unchanged</div>
+            ) : (
+              <SliceView slice={record.transformed} />
+            )}
+          </Stage>
+
+          <Stage index={5} title={record.source === 'drop' ? 'Drop' : 'replaceSelection'}>
+            {!record.reachedDefault && (
+              <div className="text-xs text-amber-400 mb-1">
+                {handlers.length > 0
+                  ? <>Handled by <span className="font-mono">{handlers.map(pluginLabel).join(', ')}</span> before the default handling</>
+                  : 'Handled by a prop before the default handling'}
+              </div>
+            )}
+            {outcome ? (
+              <div className="space-y-2 text-xs">
+                <div className="font-mono text-slate-300">
+                  Replaced {outcome.replacedFrom}–{outcome.replacedTo}, content now at {outcome.insertedFrom}–{outcome.insertedTo}
+                </div>
+                <SliceView slice={outcome.inserted} />
+                {outcome.dropped.length > 0 && (
+                  <div className="text-red-400">Didn't fit and was dropped: <span className="font-mono">{outcome.dropped.join(', ')}</span></div>
+                )}
+                {outcome.droppedText > 0 && (
+                  <div className="text-red-400">{outcome.droppedText} characters of text were dropped</div>
+                )}
+                {outcome.added.length > 0 && (
+                  <div className="text-amber-300">Added while fitting: <span className="font-mono">{outcome.added.join(', ')}</span></div>
+                )}
+                <div className="space-y-1">
+                  {outcome.entry.transaction.steps.map((step, idx) => {
+                    const { name, fields } = describeStep(step);
+                    return (
+                      <div key={idx} className="bg-slate-950/50 p-2 rounded font-mono">
+                        <div className="text-blue-300 font-bold mb-1">{idx}. {name}</div>
+                        {fields.map(field => (
+                          <div key={field.name} className="flex gap-2">
+                            <span className="text-slate-500 shrink-0">{field.name}</span>
+                            <span className="text-slate-300 break-all">{field.value}</span>
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ) : record.transactions.length > 0 ? (
+              <div className="text-xs text-slate-500">
+                {record.transactions.length} transaction(s) dispatched without changing the document
+              </div>
+            ) : (
+              <div className="text-xs text-slate-600 italic">Nothing dispatched</div>
+            )}
+          </Stage>
+
+          {!record.internalDrag && (record.html !== null || record.text !== null) && (
+            <button
+              onClick={() => onUseAsFixture({ html: record.html ?? '', text: record.text ?? '' })}
+              className="text-xs text-slate-400 hover:text-white"
+            >
+              Use as fixture
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PasteInspector: React.FC<PasteInspectorProps> = ({ view, records, onClear }) => {
+  const [fixture, setFixture] = useState<FixtureDraft>({ html: PASTE_FIXTURES[0].html, text: PASTE_FIXTURES[0].text });
+  const [pasteError, setPasteError] = useState<string | null>(null);
+
+  if (!view) {
+    return (
+      <div className="flex items-center justify-center h-full text-slate-500">
+        Waiting for editor...
+      </div>
+    );
+  }
+
+  const handlePaste = (asText: boolean) => {
+    try {
+      const handled = pasteFixture(view, asText ? { html: '', text: fixture.text } : fixture);
+      setPasteError(handled ? null : 'Nothing handled the paste');
+    } catch (e) {
+      setPasteError(errorMessage(e));
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-2">
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-slate-500 uppercase tracking-wider font-medium">Fixture</span>
+          <select
+            value=""
+            onChange={(e) => {
+              const preset = PASTE_FIXTURES[parseInt(e.target.value, 10)];
+              if (preset) setFixture({ html: preset.html, text: preset.text });
+            }}
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-xs text-slate-300 focus:outline-none focus:border-blue-500"
+          >
+            <option value="">Load a preset…</option>
+            {PASTE_FIXTURES.map((preset, idx) => <option key={idx} value={idx}>{preset.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <span className="block text-slate-500 mb-1 text-[10px] uppercase">text/html</span>
+          <textarea
+            value={fixture.html}
+            onChange={(e) => setFixture({ ...fixture, html: e.target.value })}
+            rows={4}
+            spellCheck={false}
+            className="w-full bg-slate-950/50 border border-slate-800 rounded p-2 text-xs font-mono text-slate-300 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <span className="block text-slate-500 mb-1 text-[10px] uppercase">text/plain</span>
+          <textarea
+            value={fixture.text}
+            onChange={(e) => setFixture({ ...fixture, text: e.target.value })}
+            rows={2}
+            spellCheck={false}
+            className="w-full bg-slate-950/50 border border-slate-800 rounded p-2 text-xs font-mono text-slate-300 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => handlePaste(false)}
+            disabled={!fixture.html && !fixture.text}
+            className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 disabled:opacity-40 transition-colors"
+          >
+            <ClipboardPaste size={14} /> Paste
+          </button>
+          <button
+            onClick={() => handlePaste(true)}
+            disabled={!fixture.text}
+            className="px-3 py-1 text-xs font-medium text-slate-300 bg-slate-800 rounded-md hover:bg-slate-700 disabled:opacity-40 transition-colors"
+          >
+            Paste as plain text
+          </button>
+          {pasteError && <span className="text-xs text-red-400">{pasteError}</span>}
+        </div>
+        <p className="text-[10px] text-slate-600">
+          Runs the view's paste handling at the selection without the OS clipboard, through view.pasteHTML or view.pasteText.
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-slate-500 px-1">
+        <span>{records.length} recorded</span>
+        <button onClick={onClear} className="flex items-center gap-1 text-slate-400 hover:text-white">
+          <Trash2 size={14} /> Clear
+        </button>
+      </div>
+
+      {records.length === 0 ? (
+        <div className="text-sm text-slate-500 text-center mt-8">
+          No pastes yet. Paste or drop something into the editor, or paste a fixture.
+        </div>
+      ) : (
+        // Newest first, like the transaction log
+        records.map(record => (
+          <PasteEntry key={record.id} record={record} view={view} onUseAsFixture={setFixture} />
+        )).reverse()
+      )}
+    </div>
+  );
+};
+
+export default PasteInspector;
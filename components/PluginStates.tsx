@@ -0,0 +1,49 @@
+import React from 'react';
+import { EditorState } from 'prosemirror-state';
+import { cn } from '../lib/utils';
+import { pluginLabel } from '../lib/plugins';
+import ObjectInspector from './ObjectInspector';
+
+interface PluginStatesProps {
+  state: EditorState;
+  // Plugin state that differs from this one is highlighted
+  previous?: EditorState | null;
+  // Only list the plugins whose state changed since `previous`
+  changedOnly?: boolean;
+}
+
+// The state field of every plugin that has one, keyed by its PluginKey
+const PluginStates: React.FC<PluginStatesProps> = ({ state, previous, changedOnly = false }) => {
+  const rows = state.plugins
+    .filter(plugin => plugin.spec.state)
+    .map(plugin => ({
+      plugin,
+      value: plugin.getState(state),
+      // Plugin state is immutable by convention, so identity tells us it changed
+      changed: !!previous && previous.plugins.includes(plugin) && plugin.getState(previous) !== plugin.getState(state),
+    }))
+    .filter(row => !changedOnly || row.changed);
+
+  if (rows.length === 0) {
+    return (
+      <div className="text-xs text-slate-600 italic">
+        {changedOnly ? 'No plugin state changed' : 'No plugin has state'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {rows.map(({ plugin, value, changed }) => (
+        <div
+          key={pluginLabel(plugin)}
+          className={cn("rounded p-2 text-xs", changed ? "bg-amber-900/20 border border-amber-800/50" : "bg-slate-950/50 border border-transparent")}
+        >
+          <ObjectInspector value={value} name={pluginLabel(plugin)} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PluginStates;
@@ -0,0 +1,198 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Schema } from 'prosemirror-model';
+import { AlertTriangle, ArrowDown, ArrowUp, ChevronDown, ChevronRight, Play, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { PluginDefinition } from '../types';
+import { cn } from '../lib/utils';
+import { CompiledPlugins, createPluginDefinition, defaultPluginDefinitions, NEW_PLUGIN_CODE, PluginCompileError, pluginScope } from '../lib/plugins';
+import { CodeDiagnostic, expressionCompletions } from '../lib/codeEditor';
+import CodeEditor from './CodeEditor';
+
+interface PluginsPanelProps {
+  schema: Schema | null;
+  definitions: PluginDefinition[];
+  onDefinitionsChange: (definitions: PluginDefinition[]) => void;
+  compiled: CompiledPlugins | null;
+  // Runtime errors are collected during dispatch; this re-renders the list
+  transactionCount: number;
+}
+
+interface PluginRowProps {
+  definition: PluginDefinition;
+  error: PluginCompileError | undefined;
+  completions: ReturnType<typeof expressionCompletions>;
+  isFirst: boolean;
+  isLast: boolean;
+  onChange: (definition: PluginDefinition) => void;
+  onMove: (offset: number) => void;
+  onDelete: () => void;
+}
+
+const PluginRow: React.FC<PluginRowProps> = ({ definition, error, completions, isFirst, isLast, onChange, onMove, onDelete }) => {
+  const [expanded, setExpanded] = useState(false);
+  // Edits only rebuild the editor when applied
+  const [draft, setDraft] = useState(definition.code);
+  // Renaming recompiles the plugins too, so wait until editing is done
+  const [name, setName] = useState(definition.name);
+  const commitName = () => {
+    if (name !== definition.name) onChange({ ...definition, name });
+  };
+  const dirty = draft !== definition.code;
+
+  const diagnostics = useMemo<CodeDiagnostic[]>(() => error && error.line !== null && !dirty
+    ? [{ line: error.line, column: error.column, message: error.message, severity: 'error' }]
+    : [], [error, dirty]);
+
+  return (
+    <div className={cn("bg-slate-900 rounded-lg border", error ? "border-red-900" : "border-slate-800")}>
+      <div className="flex items-center gap-2 p-2">
+        <button onClick={() => setExpanded(!expanded)} className="text-slate-500 hover:text-white">
+          {expanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+        </button>
+        <input
+          type="checkbox"
+          checked={definition.enabled}
+          onChange={(e) => onChange({ ...definition, enabled: e.target.checked })}
+          title={definition.enabled ? 'Disable' : 'Enable'}
+          className="rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500"
+        />
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => e.key === 'Enter' && commitName()}
+          className={cn(
+            "flex-1 min-w-0 bg-transparent text-sm font-mono focus:outline-none border-b border-transparent focus:border-blue-500",
+            definition.enabled ? "text-slate-200" : "text-slate-500 line-through"
+          )}
+        />
+        {error && <span title={error.message}><AlertTriangle size={14} className="text-red-400" /></span>}
+        {dirty && <span className="text-[10px] text-amber-400 uppercase">edited</span>}
+        <button onClick={() => onMove(-1)} disabled={isFirst} title="Move up" className="text-slate-500 hover:text-white disabled:opacity-30">
+          <ArrowUp size={14} />
+        </button>
+        <button onClick={() => onMove(1)} disabled={isLast} title="Move down" className="text-slate-500 hover:text-white disabled:opacity-30">
+          <ArrowDown size={14} />
+        </button>
+        <button onClick={onDelete} title="Delete" className="text-slate-500 hover:text-red-400">
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      {error && !expanded && (
+        <div className="px-3 pb-2 text-xs text-red-400 font-mono break-all">{error.message}</div>
+      )}
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-2">
+          <CodeEditor
+            value={draft}
+            onChange={setDraft}
+            extensions={completions}
+            diagnostics={diagnostics}
+            className="h-48 resize-y [&_.cm-editor]:h-full"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-red-400 font-mono break-all">{error && !dirty ? error.message : ''}</span>
+            <div className="flex gap-2 shrink-0">
+              <button
+                onClick={() => setDraft(definition.code)}
+                disabled={!dirty}
+                className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-slate-300 bg-slate-800 rounded-md hover:bg-slate-700 disabled:opacity-40 transition-colors"
+              >
+                <RotateCcw size={14} /> Revert
+              </button>
+              <button
+                onClick={() => onChange({ ...definition, code: draft })}
+                disabled={!dirty}
+                className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600 transition-colors"
+              >
+                <Play size={14} /> Apply
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PluginsPanel: React.FC<PluginsPanelProps> = ({ schema, definitions, onDefinitionsChange, compiled }) => {
+  // Values plugin code can use, kept current for autocompletion
+  const scopeRef = useRef<Record<string, unknown>>({});
+  Object.assign(scopeRef.current, pluginScope(schema));
+  const completions = useMemo(() => expressionCompletions(scopeRef.current), []);
+
+  const update = (idx: number, definition: PluginDefinition) => {
+    onDefinitionsChange(definitions.map((item, i) => i === idx ? definition : item));
+  };
+
+  const move = (idx: number, offset: number) => {
+    const next = [...definitions];
+    const [item] = next.splice(idx, 1);
+    next.splice(idx + offset, 0, item);
+    onDefinitionsChange(next);
+  };
+
+  const runtimeErrors = compiled?.tracer.errors || [];
+  const enabledCount = definitions.filter(definition => definition.enabled).length;
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-2">
+      <div className="flex items-center justify-between text-xs text-slate-500 px-1">
+        <span>
+          {enabledCount} of {definitions.length} enabled
+          {compiled && `, ${compiled.plugins.length} plugin instance${compiled.plugins.length === 1 ? '' : 's'}`}
+        </span>
+        <button
+          onClick={() => onDefinitionsChange(defaultPluginDefinitions())}
+          title="Replace all plugins with the defaults"
+          className="flex items-center gap-1 text-slate-400 hover:text-white"
+        >
+          <RotateCcw size={14} /> Defaults
+        </button>
+      </div>
+      <p className="text-xs text-slate-500 px-1">
+        Plugins load in this order. Changes rebuild the editor, keeping the document and selection.
+      </p>
+
+      {definitions.map((definition, idx) => (
+        <PluginRow
+          key={definition.id}
+          definition={definition}
+          error={compiled?.errors.find(error => error.id === definition.id)}
+          completions={completions}
+          isFirst={idx === 0}
+          isLast={idx === definitions.length - 1}
+          onChange={(next) => update(idx, next)}
+          onMove={(offset) => move(idx, offset)}
+          onDelete={() => onDefinitionsChange(definitions.filter((_, i) => i !== idx))}
+        />
+      ))}
+
+      <button
+        onClick={() => onDefinitionsChange([...definitions, createPluginDefinition(`plugin ${definitions.length + 1}`, NEW_PLUGIN_CODE)])}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 rounded-md hover:bg-slate-700 transition-colors"
+      >
+        <Plus size={14} /> Add plugin
+      </button>
+
+      {runtimeErrors.length > 0 && (
+        <div className="bg-slate-900 rounded-lg border border-red-900 p-3">
+          <span className="block text-slate-500 mb-1 text-[10px] uppercase">Runtime errors ({runtimeErrors.length})</span>
+          <div className="space-y-1">
+            {[...runtimeErrors].reverse().map((error, idx) => (
+              <div key={idx} className="text-xs font-mono">
+                <span className="text-slate-600">{new Date(error.time).toLocaleTimeString()}</span>{' '}
+                <span className="text-slate-300">{error.plugin}</span>{' '}
+                <span className="text-amber-300">{error.hook}</span>{' '}
+                <span className="text-red-400 break-all">{error.message}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PluginsPanel;
@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import { EditorView } from 'prosemirror-view';
+import { ChevronDown, ChevronRight, Crosshair, MapPin, Trash2 } from 'lucide-react';
+import { MapResultInfo, TrackedPosition } from '../types';
+import { cn } from '../lib/utils';
+import { createTrackedPosition, positionHistory } from '../lib/mapping';
+import { rangeRects } from '../lib/viewGeometry';
+import RangeHighlight from './RangeHighlight';
+
+interface PositionMapperProps {
+  view: EditorView | null;
+  // The visualizer's position, offered for pinning
+  pos: number;
+  onPosChange: (pos: number) => void;
+  positions: TrackedPosition[];
+  onPositionsChange: (positions: TrackedPosition[]) => void;
+}
+
+const FLAGS: (keyof MapResultInfo)[] = ['deleted', 'deletedBefore', 'deletedAfter', 'deletedAcross'];
+
+const MapResultCell: React.FC<{ result: MapResultInfo }> = ({ result }) => (
+  <div className="font-mono">
+    <span className={result.from === result.to ? "text-slate-500" : "text-slate-200"}>
+      {result.from} → {result.to}
+    </span>
+    <div className="flex flex-wrap gap-0.5 mt-0.5">
+      {FLAGS.filter(flag => result[flag]).map(flag => (
+        <span key={flag} className="px-1 rounded text-[10px] bg-red-900/40 border border-red-800 text-red-300">{flag}</span>
+      ))}
+    </div>
+  </div>
+);
+
+const Trail: React.FC<{ history: number[]; deleted: boolean }> = ({ history, deleted }) => (
+  <span className="font-mono text-xs text-slate-400 break-all">
+    {history.join(' → ')}
+    {deleted && <span className="ml-1 text-red-400">(deleted)</span>}
+  </span>
+);
+
+interface TrackedRowProps {
+  tracked: TrackedPosition;
+  onChange: (tracked: TrackedPosition) => void;
+  onDelete: () => void;
+  onJump: (pos: number) => void;
+  onHover: (pos: number | null) => void;
+}
+
+const TrackedRow: React.FC<TrackedRowProps> = ({ tracked, onChange, onDelete, onJump, onHover }) => {
+  const [expanded, setExpanded] = useState(false);
+  const diverged = tracked.left !== tracked.right;
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800">
+      <div className="flex items-center gap-2 p-2">
+        <button onClick={() => setExpanded(!expanded)} className="text-slate-500 hover:text-white">
+          {expanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+        </button>
+        <input
+          value={tracked.label}
+          onChange={(e) => onChange({ ...tracked, label: e.target.value })}
+          placeholder={`pinned at ${tracked.origin}`}
+          className="flex-1 min-w-0 bg-transparent text-sm focus:outline-none border-b border-transparent focus:border-blue-500 placeholder:text-slate-500"
+        />
+        {(['left', 'right'] as const).map(side => (
+          <button
+            key={side}
+            onClick={() => onJump(tracked[side])}
+            onMouseEnter={() => onHover(tracked[side])}
+            onMouseLeave={() => onHover(null)}
+            title={`Mapped with assoc ${side === 'left' ? -1 : 1}; click to inspect`}
+            className={cn(
+              "px-1.5 py-0.5 rounded border text-xs font-mono",
+              tracked[`${side}Deleted`] ? "border-red-800 text-red-300 bg-red-900/20" : "border-slate-700 text-blue-300 bg-slate-800 hover:bg-slate-700"
+            )}
+          >
+            {side === 'left' ? '-1' : '+1'}: {tracked[side]}
+          </button>
+        ))}
+        <button onClick={onDelete} title="Unpin" className="text-slate-500 hover:text-red-400">
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      <div className="px-3 pb-2 space-y-0.5">
+        <div className="flex gap-2 items-baseline">
+          <span className="text-[10px] text-slate-500 uppercase w-6 shrink-0">-1</span>
+          <Trail history={positionHistory(tracked, 'left')} deleted={tracked.leftDeleted} />
+        </div>
+        {diverged && (
+          <div className="flex gap-2 items-baseline">
+            <span className="text-[10px] text-slate-500 uppercase w-6 shrink-0">+1</span>
+            <Trail history={positionHistory(tracked, 'right')} deleted={tracked.rightDeleted} />
+          </div>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="px-3 pb-3">
+          {tracked.trail.length === 0 ? (
+            <div className="text-xs text-slate-600 italic">No document changes since it was pinned</div>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-500 text-[10px] uppercase text-left">
+                  <th className="font-normal pb-1">Step</th>
+                  <th className="font-normal pb-1">assoc -1</th>
+                  <th className="font-normal pb-1">assoc +1</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...tracked.trail].reverse().map(entry => entry.steps.map((step, idx) => (
+                  <tr key={`${entry.transactionId}-${idx}`} className={cn("align-top", idx === 0 && "border-t border-slate-800")}>
+                    <td className="py-1 pr-2 font-mono">
+                      {idx === 0 && <span className="text-slate-500">#{entry.transactionId} </span>}
+                      <span className="text-blue-300">{step.step}</span>
+                    </td>
+                    <td className="py-1 pr-2"><MapResultCell result={step.left} /></td>
+                    <td className="py-1"><MapResultCell result={step.right} /></td>
+                  </tr>
+                )))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PositionMapper: React.FC<PositionMapperProps> = ({ view, pos, onPosChange, positions, onPositionsChange }) => {
+  const [hoveredPos, setHoveredPos] = useState<number | null>(null);
+
+  const rects = useMemo(() => {
+    if (!view || hoveredPos === null || hoveredPos > view.state.doc.content.size) return [];
+    return rangeRects(view, hoveredPos, hoveredPos);
+  }, [view, hoveredPos]);
+
+  if (!view) {
+    return (
+      <div className="flex items-center justify-center h-full text-slate-500">
+        Waiting for editor...
+      </div>
+    );
+  }
+
+  const update = (idx: number, tracked: TrackedPosition) => {
+    onPositionsChange(positions.map((item, i) => i === idx ? tracked : item));
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-2">
+      <RangeHighlight rects={rects} className="border-blue-400 bg-blue-400/40" />
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => onPositionsChange([...positions, createTrackedPosition(pos)])}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 transition-colors"
+        >
+          <MapPin size={14} /> Pin position {pos}
+        </button>
+        {positions.length > 0 && (
+          <button onClick={() => onPositionsChange([])} className="flex items-center gap-1 text-xs text-slate-400 hover:text-white">
+            <Trash2 size={14} /> Unpin all
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-slate-500 px-1">
+        Pinned positions are mapped through every step with <code className="text-slate-400">mapResult</code>, once
+        with assoc -1 and once with +1. They only differ where content is inserted right at the position.
+      </p>
+
+      {positions.length === 0 ? (
+        <div className="text-sm text-slate-500 text-center mt-8 flex flex-col items-center gap-2">
+          <Crosshair size={20} />
+          Pin a position, then edit the document to see how it moves.
+        </div>
+      ) : (
+        positions.map((tracked, idx) => (
+          <TrackedRow
+            key={tracked.id}
+            tracked={tracked}
+            onChange={(next) => update(idx, next)}
+            onDelete={() => onPositionsChange(positions.filter((_, i) => i !== idx))}
+            onJump={onPosChange}
+            onHover={setHoveredPos}
+          />
+        ))
+      )}
+    </div>
+  );
+};
+
+export default PositionMapper;
@@ -1,103 +1,123 @@
 import React, { useRef, useEffect } from 'react';
-import { EditorState } from 'prosemirror-state';
+import { EditorState, Selection, Transaction } from 'prosemirror-state';
 import { EditorView } from 'prosemirror-view';
 import { Schema, DOMParser } from 'prosemirror-model';
-import { keymap } from 'prosemirror-keymap';
-import { history, undo, redo } from 'prosemirror-history';
-import { baseKeymap, splitBlock } from 'prosemirror-commands';
-import { inputRules, wrappingInputRule, textblockTypeInputRule } from 'prosemirror-inputrules';
+import { positionRulerProps } from '../lib/positionRuler';
+import { CompiledPlugins, finishTrace, startTrace } from '../lib/plugins';
+import { migrateDocument } from '../lib/migration';
+import { createPasteTrace, tracePasteTransaction } from '../lib/paste';
+import { CompiledNodeViews, startNodeViewRender, startNodeViewTrace } from '../lib/nodeViews';
+import { MigrationReport, PasteRecord, PluginTrace } from '../types';
+import { DEFAULT_DOC_HTML } from '../lib/utils';
 
 interface ProseMirrorEditorProps {
   schema: Schema;
+  // Compiled from the plugins panel; the view is rebuilt when they change
+  plugins: CompiledPlugins;
+  // From the node views panel; also rebuilds the view when they change
+  nodeViews: CompiledNodeViews;
   onViewReady: (view: EditorView) => void;
-  onTransaction: () => void;
+  onTransaction: (tr: Transaction, appended: Transaction[], stateBefore: EditorState, stateAfter: EditorState, pluginTrace: PluginTrace) => void;
+  // Called with the position under the mouse while the position ruler is shown
+  onPosHover: (pos: number) => void;
+  // Called when the previous document was carried over into a new schema
+  onMigration: (report: MigrationReport) => void;
+  // Called after each paste or drop with what every stage of it did
+  onPaste: (record: PasteRecord) => void;
+  // Document and selection JSON for the first view, e.g. from a permalink
+  initialContent?: { doc: unknown; selection: unknown } | null;
+  showPositions: boolean;
+  onShowPositionsChange: (show: boolean) => void;
 }
 
-const ProseMirrorEditor: React.FC<ProseMirrorEditorProps> = ({ schema, onViewReady, onTransaction }) => {
+const ProseMirrorEditor: React.FC<ProseMirrorEditorProps> = ({
+  schema, plugins, nodeViews, onViewReady, onTransaction, onPosHover, onMigration, onPaste, initialContent, showPositions, onShowPositionsChange: setShowPositions,
+}) => {
   const editorRef = useRef<HTMLDivElement>(null);
   const viewRef = useRef<EditorView | null>(null);
+  // The document as it was when the previous view was torn down
+  const lastDocRef = useRef<{ schema: Schema; json: any; selection: any } | null>(null);
+  // Only the first view starts from initialContent
+  const initialContentRef = useRef(initialContent);
 
-  // Re-initialize editor when schema changes
+  // Re-initialize editor when the schema, the plugins or the node views change
   useEffect(() => {
     if (!editorRef.current) return;
 
-    // Basic initial content
-    const contentElement = document.createElement('div');
-    contentElement.innerHTML = `<p>Hello World!</p><p>This is a <strong>ProseMirror</strong> explorer.</p><p>Try typing markdown:</p><ul><li><ul><li>bullet list</li></ul></li></ul><ol><li><ol><li>ordered list</li></ol></li></ol><blockquote>> blockquote</blockquote><h1>Heading</h1><table><tbody><tr><td><p>Table Cell</p></td><td><p>Table Cell 2</p></td></tr></tbody></table>`;
-    
-    // Attempt to parse content with the new schema, fallback to empty doc if it fails
     let doc;
-    try {
-        doc = DOMParser.fromSchema(schema).parse(contentElement);
-    } catch (e) {
-        console.warn("Failed to parse initial content with new schema", e);
-        // Fallback to minimal doc
+    let selection: Selection | undefined;
+
+    // Carry the previous document over. For a new schema this goes through
+    // JSON, and the report lists what didn't survive.
+    const lastDoc = lastDocRef.current;
+    if (lastDoc && lastDoc.schema === schema) {
+        doc = schema.nodeFromJSON(lastDoc.json);
+        selection = Selection.fromJSON(doc, lastDoc.selection);
+    } else if (lastDoc) {
+        const report = migrateDocument(schema, lastDoc.json);
+        onMigration(report);
+        doc = report.doc;
+    } else if (initialContentRef.current) {
+        const { doc: docJSON, selection: selectionJSON } = initialContentRef.current;
+        initialContentRef.current = null;
         try {
-            doc = schema.nodeFromJSON({ type: 'doc', content: [{ type: 'paragraph' }] });
-        } catch (e2) {
-             // If paragraph doesn't exist, try just doc
-             doc = schema.topNodeType.createAndFill();
+            doc = schema.nodeFromJSON(docJSON);
+            doc.check();
+            if (selectionJSON) selection = Selection.fromJSON(doc, selectionJSON);
+        } catch (e) {
+            console.warn("Failed to restore the document, using the default content", e);
+            doc = undefined;
         }
     }
 
     if (!doc) {
-        console.error("Could not create a document from the schema");
-        return;
-    }
-
-    // Build Input Rules based on current Schema
-    const rules = [];
-    
-    // Blockquote: > + space
-    if (schema.nodes.blockquote) {
-      rules.push(wrappingInputRule(/^\s*>\s$/, schema.nodes.blockquote));
-    }
-    
-    // Headings: #{1,6} + space
-    if (schema.nodes.heading) {
-      rules.push(textblockTypeInputRule(
-        /^(#{1,6})\s$/,
-        schema.nodes.heading,
-        match => ({ level: match[1].length })
-      ));
-    }
+        // Basic initial content
+        const contentElement = document.createElement('div');
+        contentElement.innerHTML = DEFAULT_DOC_HTML;
 
-    // Bullet list: * + space
-    if (schema.nodes.bullet_list) {
-      rules.push(wrappingInputRule(/^\s*\*\s$/, schema.nodes.bullet_list));
+        // Attempt to parse content with the new schema, fallback to empty doc if it fails
+        try {
+            doc = DOMParser.fromSchema(schema).parse(contentElement);
+        } catch (e) {
+            console.warn("Failed to parse initial content with new schema", e);
+            // Fallback to minimal doc
+            try {
+                doc = schema.nodeFromJSON({ type: 'doc', content: [{ type: 'paragraph' }] });
+            } catch (e2) {
+                 // If paragraph doesn't exist, try just doc
+                 doc = schema.topNodeType.createAndFill();
+            }
+        }
     }
 
-    // Ordered list: \d+. + space (e.g., 1., 23., 100.)
-    if (schema.nodes.ordered_list) {
-      rules.push(wrappingInputRule(
-        /^\s*(\d+)\.\s$/,
-        schema.nodes.ordered_list,
-        match => ({ start: parseInt(match[1], 10) })
-      ));
+    if (!doc) {
+        console.error("Could not create a document from the schema");
+        return;
     }
 
+    const paste = createPasteTrace(onPaste);
     const state = EditorState.create({
       doc,
+      selection,
       schema,
-      plugins: [
-        history(),
-        inputRules({ rules }),
-        keymap({
-          "Mod-z": undo,
-          "Mod-y": redo,
-          "Mod-Shift-z": redo,
-          "Enter": splitBlock, // Basic command to ensure we can type new lines
-        }),
-        keymap(baseKeymap)
-      ]
+      plugins: [paste.plugins[0], ...plugins.plugins, paste.plugins[1]],
     });
 
+    startNodeViewRender(nodeViews.tracer);
     const view = new EditorView(editorRef.current, {
       state,
+      nodeViews: nodeViews.nodeViews,
       dispatchTransaction: (tr) => {
-        const nextState = view.state.apply(tr);
+        const prevState = view.state;
+        startTrace(plugins.tracer);
+        startNodeViewTrace(nodeViews.tracer);
+        // applyTransaction also reports what appendTransaction hooks added. It
+        // returns no transactions at all when a filter rejected this one.
+        const { state: nextState, transactions } = prevState.applyTransaction(tr);
+        const appended = transactions.slice(1);
         view.updateState(nextState);
-        onTransaction(); // Notify parent to update visualizer
+        tracePasteTransaction(paste.tracer, tr, prevState, nextState);
+        onTransaction(tr, appended, prevState, nextState, finishTrace(plugins.tracer, appended)); // Notify parent to update visualizer
       }
     });
 
@@ -105,17 +125,40 @@ const ProseMirrorEditor: React.FC<ProseMirrorEditorProps> = ({ schema, onViewRea
     onViewReady(view);
 
     return () => {
+      lastDocRef.current = { schema, json: view.state.doc.toJSON(), selection: view.state.selection.toJSON() };
+      startNodeViewRender(nodeViews.tracer);
       view.destroy();
       viewRef.current = null;
     };
-  }, [schema, onViewReady, onTransaction]);
+  }, [schema, plugins, nodeViews, onViewReady, onTransaction, onMigration, onPaste]);
+
+  // Toggle the position ruler. Runs after the effect above, so a rebuilt view
+  // picks it up too.
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    view.setProps(showPositions
+      ? positionRulerProps(onPosHover)
+      : { decorations: undefined, handleDOMEvents: undefined });
+  }, [schema, plugins, nodeViews, showPositions, onPosHover]);
 
   return (
     <div className="flex flex-col h-full bg-slate-900 border-r border-slate-700">
       <div className="px-4 py-3 bg-slate-800 border-b border-slate-700 flex justify-between items-center">
         <h2 className="text-lg font-semibold text-slate-100"><span className="text-blue-400">2.</span> Editor</h2>
-        <div className="text-xs text-slate-400">
-          Typing updates the state
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={showPositions}
+              onChange={(e) => setShowPositions(e.target.checked)}
+              className="rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500"
+            />
+            Show Positions
+          </label>
+          <div className="text-xs text-slate-400">
+            Typing updates the state
+          </div>
         </div>
       </div>
       <div className="flex-1 p-4 overflow-y-auto bg-slate-900">
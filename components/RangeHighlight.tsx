@@ -0,0 +1,29 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { cn } from '../lib/utils';
+
+interface RangeHighlightProps {
+  // Viewport rectangles, e.g. from rangeRects
+  rects: DOMRect[];
+  className?: string;
+}
+
+// Outlines screen rectangles over the page without touching the editor's
+// DOM or decorations. Rendered into the body so panels can't clip it.
+const RangeHighlight: React.FC<RangeHighlightProps> = ({ rects, className }) => {
+  if (rects.length === 0) return null;
+  return createPortal(
+    <>
+      {rects.map((rect, idx) => (
+        <div
+          key={idx}
+          className={cn("fixed pointer-events-none z-50 rounded-sm border border-amber-400 bg-amber-400/20", className)}
+          style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+        />
+      ))}
+    </>,
+    document.body
+  );
+};
+
+export default RangeHighlight;
@@ -1,22 +1,42 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
 import { Schema } from 'prosemirror-model';
-import { AlertCircle, CheckCircle2, RotateCcw, Play } from 'lucide-react';
-import { cn, DEFAULT_SCHEMA_CODE } from '../lib/utils';
+import { AlertCircle, AlertTriangle, CheckCircle2, RotateCcw, Play } from 'lucide-react';
+import { DEFAULT_SCHEMA_CODE, errorMessage } from '../lib/utils';
+import { lintSchema } from '../lib/schemaLint';
+import { CodeDiagnostic, locateEvaluationError, schemaCodeCompletions, specKeyDiagnostics } from '../lib/codeEditor';
+import { InputRuleConfig, SchemaWarning } from '../types';
+import CodeEditor, { CodeEditorHandle } from './CodeEditor';
+
+// The schema code only sees `Schema`, so that's all there is to complete besides spec keys
+const schemaCompletions = schemaCodeCompletions({ Schema });
 
 interface SchemaEditorProps {
-  onSchemaChange: (schema: Schema) => void;
+  // Code to evaluate on mount, e.g. from a permalink; defaults to the example schema
+  initialCode?: string;
+  // Called with the schema and the code it was built from
+  onSchemaChange: (schema: Schema, code: string) => void;
   onError: (error: string | null) => void;
+  // Called before Apply Schema or Reset replaces the schema in use
+  onBeforeApply?: () => void;
+  // Input rules configured in the rules panel, null while the suggested ones are used
+  inputRules: InputRuleConfig[] | null;
+  expanded: boolean;
+  onExpandedChange: (expanded: boolean) => void;
 }
 
-const SchemaEditor: React.FC<SchemaEditorProps> = ({ onSchemaChange, onError }) => {
-  const [code, setCode] = useState(DEFAULT_SCHEMA_CODE);
-  const [isExpanded, setIsExpanded] = useState(true);
+const SchemaEditor: React.FC<SchemaEditorProps> = ({
+  initialCode = DEFAULT_SCHEMA_CODE, onSchemaChange, onError, onBeforeApply, inputRules, expanded: isExpanded, onExpandedChange: setIsExpanded,
+}) => {
+  const [code, setCode] = useState(initialCode);
   const [lastSuccess, setLastSuccess] = useState<boolean>(true);
-
-  const handleReset = useCallback(() => {
-    setCode(DEFAULT_SCHEMA_CODE);
-    handleSubmit(DEFAULT_SCHEMA_CODE);
-  }, []);
+  // The schema last built and its code; warnings are kept current with the input rules
+  const [linted, setLinted] = useState<{ schema: Schema; code: string } | null>(null);
+  const warnings = useMemo<SchemaWarning[]>(
+    () => linted ? lintSchema(linted.schema, linted.code, inputRules) : [],
+    [linted, inputRules]
+  );
+  const [evalError, setEvalError] = useState<CodeDiagnostic | null>(null);
+  const editorRef = useRef<CodeEditorHandle>(null);
 
   const handleSubmit = useCallback((currentCode: string) => {
     try {
@@ -27,22 +47,56 @@ const SchemaEditor: React.FC<SchemaEditorProps> = ({ onSchemaChange, onError })
       const result = schemaCreator(Schema);
 
       if (result instanceof Schema) {
-        onSchemaChange(result);
+        onSchemaChange(result, currentCode);
         onError(null);
         setLastSuccess(true);
+        setLinted({ schema: result, code: currentCode });
+        setEvalError(null);
       } else {
         throw new Error("The code must return an instance of Schema.");
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error(err);
-      onError(err.message || "An unknown error occurred evaluating the schema.");
+      onError(errorMessage(err));
       setLastSuccess(false);
+      setLinted(null);
+      const location = locateEvaluationError(err, currentCode);
+      setEvalError(location && {
+        ...location,
+        severity: 'error',
+        message: errorMessage(err),
+      });
     }
   }, [onSchemaChange, onError]);
 
+  // Both replace the schema in use, so the parent gets a chance to snapshot it first
+  const handleApply = useCallback(() => {
+    onBeforeApply?.();
+    handleSubmit(code);
+  }, [onBeforeApply, handleSubmit, code]);
+
+  const handleReset = useCallback(() => {
+    onBeforeApply?.();
+    setCode(DEFAULT_SCHEMA_CODE);
+    handleSubmit(DEFAULT_SCHEMA_CODE);
+  }, [onBeforeApply, handleSubmit]);
+
+  const jumpToLine = useCallback((line: number) => {
+    editorRef.current?.jumpToLine(line);
+  }, []);
+
+  // The evaluation error and the schema warnings, shown inline in the editor
+  const diagnostics = useMemo(() => {
+    const result: CodeDiagnostic[] = evalError ? [evalError] : [];
+    warnings.forEach(warning => {
+      if (warning.line !== null) result.push({ line: warning.line, severity: 'warning', message: warning.message });
+    });
+    return result;
+  }, [evalError, warnings]);
+
   // Initial load
   React.useEffect(() => {
-    handleSubmit(DEFAULT_SCHEMA_CODE);
+    handleSubmit(initialCode);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -62,20 +116,26 @@ const SchemaEditor: React.FC<SchemaEditorProps> = ({ onSchemaChange, onError })
       
       {isExpanded && (
         <div className="p-4 space-y-4">
-          <div className="relative">
-            <textarea
-              value={code}
-              onChange={(e) => setCode(e.target.value)}
-              className="w-full h-64 p-4 font-mono text-sm bg-slate-950 text-slate-300 border border-slate-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y"
-              spellCheck={false}
-            />
-          </div>
+          <CodeEditor
+            ref={editorRef}
+            value={code}
+            onChange={setCode}
+            extensions={schemaCompletions}
+            diagnostics={diagnostics}
+            lintSource={specKeyDiagnostics}
+            className="h-64 resize-y [&_.cm-editor]:h-full"
+          />
 
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
                {lastSuccess ? (
                   <div className="flex items-center text-green-400 text-sm">
                     <CheckCircle2 size={16} className="mr-1" /> Schema valid
+                    {warnings.length > 0 && (
+                      <span className="flex items-center ml-3 text-amber-400">
+                        <AlertTriangle size={16} className="mr-1" /> {warnings.length} warning{warnings.length === 1 ? '' : 's'}
+                      </span>
+                    )}
                   </div>
                ) : (
                   <div className="flex items-center text-red-400 text-sm">
@@ -92,7 +152,7 @@ const SchemaEditor: React.FC<SchemaEditorProps> = ({ onSchemaChange, onError })
                 Reset
               </button>
               <button
-                onClick={() => handleSubmit(code)}
+                onClick={handleApply}
                 className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 transition-colors shadow-lg shadow-blue-900/20"
               >
                 <Play size={16} />
@@ -100,6 +160,25 @@ const SchemaEditor: React.FC<SchemaEditorProps> = ({ onSchemaChange, onError })
               </button>
             </div>
           </div>
+
+          {lastSuccess && warnings.length > 0 && (
+            <div className="space-y-1">
+              {warnings.map((warning, idx) => (
+                <div key={idx} className="flex items-start gap-2 text-xs bg-amber-950/30 border border-amber-900/50 rounded px-2 py-1.5">
+                  <span className="font-mono text-amber-500 shrink-0">{warning.rule}</span>
+                  <span className="text-amber-100/90 flex-1">{warning.message}</span>
+                  {warning.line !== null && (
+                    <button
+                      onClick={() => jumpToLine(warning.line!)}
+                      className="font-mono text-blue-400 hover:text-blue-300 shrink-0"
+                    >
+                      line {warning.line}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
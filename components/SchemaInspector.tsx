@@ -0,0 +1,281 @@
+import React, { useState, useMemo } from 'react';
+import { MarkType, NodeType, Schema } from 'prosemirror-model';
+import { EditorView } from 'prosemirror-view';
+import { cn } from '../lib/utils';
+import { attributeSpecs } from '../lib/migration';
+import {
+  allowedMarkTypes, excludedMarkTypes, groupsOf, markTypes, nextTypes, nodeTypes, possibleChildren, possibleParents,
+} from '../lib/schemaInfo';
+import ContentMatchGraph from './ContentMatchGraph';
+
+interface SchemaInspectorProps {
+  schema: Schema | null;
+  view: EditorView | null;
+  // The visualizer's tracked position, used for the contentMatchAt lookup
+  pos: number;
+  transactionCount: number;
+}
+
+type Selected = { kind: 'node'; type: NodeType } | { kind: 'mark'; type: MarkType };
+
+const TypePill: React.FC<{ name: string; active?: boolean; mark?: boolean; onClick?: () => void }> = ({ name, active, mark, onClick }) => (
+  <button
+    onClick={onClick}
+    className={cn(
+      "px-1.5 py-0.5 rounded text-xs font-mono border transition-colors",
+      active
+        ? "bg-blue-600 border-blue-400 text-white"
+        : mark
+          ? "bg-purple-900/30 border-purple-900 text-purple-300 hover:bg-purple-900/60"
+          : "bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700"
+    )}
+  >
+    {name}
+  </button>
+);
+
+const Property: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex gap-2 text-xs">
+    <span className="text-slate-500 w-24 shrink-0">{label}</span>
+    <span className="text-slate-300 font-mono min-w-0 break-all">{children}</span>
+  </div>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div>
+    <span className="block text-slate-500 mb-1 text-[10px] uppercase">{title}</span>
+    {children}
+  </div>
+);
+
+const AttrsTable: React.FC<{ type: NodeType | MarkType }> = ({ type }) => {
+  const specs = Object.entries(attributeSpecs(type));
+  if (specs.length === 0) return <div className="text-xs text-slate-600 italic">No attributes</div>;
+  return (
+    <table className="w-full text-xs font-mono">
+      <thead>
+        <tr className="text-slate-500 text-left">
+          <th className="font-normal pr-2">name</th>
+          <th className="font-normal pr-2">default</th>
+          <th className="font-normal">validate</th>
+        </tr>
+      </thead>
+      <tbody>
+        {specs.map(([name, spec]) => (
+          <tr key={name} className="text-slate-300 align-top">
+            <td className="pr-2 text-amber-300">{name}</td>
+            <td className="pr-2">{'default' in spec ? JSON.stringify(spec.default) : <span className="text-red-400">required</span>}</td>
+            <td className="text-slate-400">
+              {typeof spec.validate === 'function' ? 'ƒ()' : spec.validate || '—'}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const SchemaInspector: React.FC<SchemaInspectorProps> = ({ schema, view, pos, transactionCount }) => {
+  const [selected, setSelected] = useState<Selected | null>(null);
+
+  // Forget the selection when it belongs to a previous schema
+  const current = selected && selected.type.schema === schema ? selected : null;
+
+  // What can go at the tracked position, at every depth
+  const positionMatches = useMemo(() => {
+    if (!view || view.state.schema !== schema) return [];
+    const { doc } = view.state;
+    const $pos = doc.resolve(Math.max(0, Math.min(pos, doc.content.size)));
+    const result = [];
+    for (let d = 0; d <= $pos.depth; d++) {
+      const node = $pos.node(d);
+      const index = $pos.index(d);
+      const match = node.contentMatchAt(index);
+      result.push({ depth: d, node, index, match, next: nextTypes(match) });
+    }
+    return result;
+  }, [view, schema, pos, transactionCount]);
+
+  if (!schema) {
+    return (
+      <div className="flex items-center justify-center h-full text-slate-500">
+        Waiting for schema...
+      </div>
+    );
+  }
+
+  const selectNode = (type: NodeType) => setSelected({ kind: 'node', type });
+  const selectMark = (type: MarkType) => setSelected({ kind: 'mark', type });
+
+  const renderNodeType = (type: NodeType) => {
+    const spec = type.spec;
+    const parents = possibleParents(schema, type);
+    const children = possibleChildren(type);
+    const marks = allowedMarkTypes(schema, type);
+    const atPos = positionMatches.find(m => m.node.type === type);
+    return (
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <Property label="content">{spec.content ? `"${spec.content}"` : '—'}</Property>
+          <Property label="group">{groupsOf(type).join(' ') || '—'}</Property>
+          <Property label="kind">
+            {[
+              type.isBlock ? 'block' : 'inline',
+              type.isTextblock && 'textblock',
+              type.isLeaf && 'leaf',
+              type.isAtom && 'atom',
+              type.isText && 'text',
+            ].filter(Boolean).join(', ')}
+          </Property>
+          <Property label="defining">{String(!!(spec.defining || spec.definingAsContext || spec.definingForContent))}</Property>
+          <Property label="isolating">{String(!!spec.isolating)}</Property>
+          <Property label="selectable">{String(spec.selectable !== false)}</Property>
+          <Property label="whitespace">{type.whitespace}</Property>
+          <Property label="marks">{spec.marks === undefined ? <span className="text-slate-500">(default)</span> : `"${spec.marks}"`}</Property>
+        </div>
+
+        <Section title="Allowed marks">
+          <div className="flex flex-wrap gap-1">
+            {marks.length === 0
+              ? <span className="text-xs text-slate-600 italic">None</span>
+              : marks.map(mark => <TypePill key={mark.name} name={mark.name} mark onClick={() => selectMark(mark)} />)}
+          </div>
+        </Section>
+
+        <Section title="Attributes">
+          <AttrsTable type={type} />
+        </Section>
+
+        <Section title="Can be contained by">
+          <div className="flex flex-wrap gap-1">
+            {parents.length === 0
+              ? <span className="text-xs text-slate-600 italic">{type === schema.topNodeType ? 'Top node' : 'Nothing — unreachable'}</span>
+              : parents.map(parent => <TypePill key={parent.name} name={parent.name} onClick={() => selectNode(parent)} />)}
+          </div>
+        </Section>
+
+        <Section title="Can contain">
+          <div className="flex flex-wrap gap-1">
+            {children.length === 0
+              ? <span className="text-xs text-slate-600 italic">Nothing</span>
+              : children.map(child => <TypePill key={child.name} name={child.name} onClick={() => selectNode(child)} />)}
+          </div>
+        </Section>
+
+        <Section title="Content match automaton">
+          <ContentMatchGraph match={type.contentMatch} highlight={atPos?.match} />
+          {atPos && (
+            <div className="text-[10px] text-slate-500 mt-1">
+              Highlighted: contentMatchAt({atPos.index}) of the {type.name} at depth {atPos.depth} around pos {pos}
+            </div>
+          )}
+        </Section>
+      </div>
+    );
+  };
+
+  const renderMarkType = (type: MarkType) => {
+    const spec = type.spec;
+    const excluded = excludedMarkTypes(schema, type);
+    const allowedIn = nodeTypes(schema).filter(node => node.allowsMarkType(type) && node.inlineContent);
+    return (
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <Property label="group">{groupsOf(type).join(' ') || '—'}</Property>
+          <Property label="inclusive">{String(spec.inclusive !== false)}</Property>
+          <Property label="spanning">{String(spec.spanning !== false)}</Property>
+          <Property label="excludes">{spec.excludes === undefined ? <span className="text-slate-500">(itself)</span> : `"${spec.excludes}"`}</Property>
+        </div>
+
+        <Section title="Excludes">
+          <div className="flex flex-wrap gap-1">
+            {excluded.length === 0
+              ? <span className="text-xs text-slate-600 italic">Nothing</span>
+              : excluded.map(mark => <TypePill key={mark.name} name={mark.name} mark onClick={() => selectMark(mark)} />)}
+          </div>
+        </Section>
+
+        <Section title="Allowed in">
+          <div className="flex flex-wrap gap-1">
+            {allowedIn.length === 0
+              ? <span className="text-xs text-slate-600 italic">No node allows this mark</span>
+              : allowedIn.map(node => <TypePill key={node.name} name={node.name} onClick={() => selectNode(node)} />)}
+          </div>
+        </Section>
+
+        <Section title="Attributes">
+          <AttrsTable type={type} />
+        </Section>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-3">
+        <Section title={`Node types (${Object.keys(schema.nodes).length})`}>
+          <div className="flex flex-wrap gap-1">
+            {nodeTypes(schema).map(type => (
+              <TypePill
+                key={type.name}
+                name={type.name}
+                active={current?.kind === 'node' && current.type === type}
+                onClick={() => selectNode(type)}
+              />
+            ))}
+          </div>
+        </Section>
+        <Section title={`Mark types (${Object.keys(schema.marks).length})`}>
+          <div className="flex flex-wrap gap-1">
+            {markTypes(schema).map(type => (
+              <TypePill
+                key={type.name}
+                name={type.name}
+                mark
+                active={current?.kind === 'mark' && current.type === type}
+                onClick={() => selectMark(type)}
+              />
+            ))}
+          </div>
+        </Section>
+      </div>
+
+      {current && (
+        <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="font-mono font-bold text-blue-300">{current.type.name}</span>
+            <span className="text-xs text-slate-500">{current.kind === 'node' ? 'NodeType' : 'MarkType'}</span>
+          </div>
+          {current.kind === 'node' ? renderNodeType(current.type) : renderMarkType(current.type)}
+        </div>
+      )}
+
+      {/* contentMatchAt lookup for the tracked position */}
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3">
+        <span className="block text-slate-500 mb-2 text-[10px] uppercase">What can go at pos {pos}</span>
+        <div className="space-y-1.5">
+          {positionMatches.map(({ depth, node, index, match, next }) => (
+            <div key={depth} className="text-xs bg-slate-950/50 rounded p-2 space-y-1">
+              <div className="flex items-center gap-2 font-mono">
+                <span className="text-slate-500">depth {depth}</span>
+                <button className="text-blue-300 hover:underline" onClick={() => selectNode(node.type)}>{node.type.name}</button>
+                <span className="text-slate-400">.contentMatchAt({index})</span>
+                {match.validEnd && <span className="text-green-400">validEnd</span>}
+              </div>
+              <div className="flex flex-wrap gap-1 items-center">
+                {next.length === 0
+                  ? <span className="text-slate-600 italic">Nothing more can be inserted</span>
+                  : next.map(type => <TypePill key={type.name} name={type.name} onClick={() => selectNode(type)} />)}
+              </div>
+              {match.defaultType && (
+                <div className="text-slate-500">defaultType: <span className="font-mono text-slate-300">{match.defaultType.name}</span></div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SchemaInspector;
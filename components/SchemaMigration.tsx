@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { EditorView } from 'prosemirror-view';
+import { MigrationIssueKind, MigrationReport } from '../types';
+import { cn } from '../lib/utils';
+import { replaceDocument } from '../lib/documents';
+import { AlertCircle, CheckCircle2, Wrench } from 'lucide-react';
+
+interface SchemaMigrationProps {
+  report: MigrationReport | null;
+  view: EditorView | null;
+}
+
+const KIND_LABELS: Record<MigrationIssueKind, string> = {
+  'unknown-node': 'Removed node',
+  'unknown-mark': 'Removed mark',
+  'disallowed-mark': 'Mark not allowed',
+  'dropped-attr': 'Dropped attr',
+  'defaulted-attr': 'Defaulted attr',
+  'invalid-attr': 'Invalid attr',
+  'invalid-content': 'Content violation',
+};
+
+// Defaulted attrs are expected during a migration; everything else needs a look
+const isWarning = (kind: MigrationIssueKind) => kind !== 'defaulted-attr';
+
+const PathLabel: React.FC<{ path: string[] }> = ({ path }) => (
+  <span className="font-mono text-slate-500 break-all">{path.join(' › ')}</span>
+);
+
+const SchemaMigration: React.FC<SchemaMigrationProps> = ({ report, view }) => {
+  const [appliedReport, setAppliedReport] = useState<MigrationReport | null>(null);
+
+  if (!report) {
+    return (
+      <div className="flex items-center justify-center h-full text-sm text-slate-500 text-center px-6">
+        Apply a schema to carry the current document over and see what changed.
+      </div>
+    );
+  }
+
+  // The repair only makes sense in the editor built for the report's schema
+  const canRepair = !!report.repairedDoc && view?.state.schema === report.schema && appliedReport !== report;
+
+  const handleRepair = () => {
+    if (!view || !report.repairedDoc) return;
+    view.dispatch(replaceDocument(view.state, report.repairedDoc));
+    setAppliedReport(report);
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-2">
+        {report.doc ? (
+          <div className="flex items-center gap-2 text-sm text-green-400">
+            <CheckCircle2 size={16} /> Document carried over into the new schema
+          </div>
+        ) : (
+          <>
+            <div className="flex items-start gap-2 text-sm text-red-400">
+              <AlertCircle size={16} className="shrink-0 mt-0.5" />
+              <span>
+                The document doesn't fit the new schema, so the editor fell back to the default content.
+                <span className="block font-mono text-xs text-red-300/80 mt-1 break-all">{report.error}</span>
+              </span>
+            </div>
+            {report.repairedDoc && (
+              <button
+                onClick={handleRepair}
+                disabled={!canRepair}
+                className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600 transition-colors"
+              >
+                <Wrench size={14} />
+                {appliedReport === report ? 'Repaired document loaded' : 'Load repaired document'}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3">
+        <div className="text-xs text-slate-500 uppercase tracking-wider font-medium mb-2">
+          Issues ({report.issues.length})
+        </div>
+        {report.issues.length === 0 ? (
+          <div className="text-xs text-slate-600 italic">Nothing changed for this document</div>
+        ) : (
+          <div className="space-y-1.5">
+            {report.issues.map((issue, idx) => (
+              <div key={idx} className="text-xs bg-slate-950/50 rounded p-2">
+                <div className="flex items-center gap-2 mb-0.5">
+                  <span className={cn(
+                    "px-1.5 py-0.5 rounded text-[10px] uppercase font-medium",
+                    isWarning(issue.kind) ? "bg-amber-900/40 text-amber-300" : "bg-slate-800 text-slate-400"
+                  )}>
+                    {KIND_LABELS[issue.kind]}
+                  </span>
+                  <PathLabel path={issue.path} />
+                </div>
+                <div className="text-slate-300">{issue.message}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {report.repairs.length > 0 && (
+        <div className="bg-slate-900 rounded-lg border border-slate-800 p-3">
+          <div className="text-xs text-slate-500 uppercase tracking-wider font-medium mb-2">
+            Repairs ({report.repairs.length})
+          </div>
+          <div className="space-y-1.5">
+            {report.repairs.map((repair, idx) => (
+              <div key={idx} className="text-xs bg-slate-950/50 rounded p-2">
+                <PathLabel path={repair.path} />
+                <div className="text-slate-300">{repair.message}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SchemaMigration;
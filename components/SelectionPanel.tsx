@@ -0,0 +1,366 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EditorView } from 'prosemirror-view';
+import { NodeSelection, Selection } from 'prosemirror-state';
+import { AlertTriangle, Crosshair, Send } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { getSelectionTypeName } from '../lib/transactions';
+import { expressionCompletions } from '../lib/codeEditor';
+import { rangeRects, nodeRects } from '../lib/viewGeometry';
+import {
+  SelectionDraft, SelectionKind, buildSelection, describeResolvedPos, gapCursorTargets, nodeSelectionTargets,
+  selectionAlternatives, selectionDraft, selectionKind, selectionScope, selectionWarnings,
+} from '../lib/selection';
+import CodeEditor from './CodeEditor';
+import RangeHighlight from './RangeHighlight';
+
+interface SelectionPanelProps {
+  view: EditorView | null;
+  // Re-reads the selection after every transaction
+  transactionCount: number;
+  // The visualizer's position, offered as an endpoint
+  pos: number;
+}
+
+const KINDS: { value: SelectionKind; label: string }[] = [
+  { value: 'text', label: 'TextSelection' },
+  { value: 'node', label: 'NodeSelection' },
+  { value: 'all', label: 'AllSelection' },
+  { value: 'gap', label: 'GapCursor' },
+  { value: 'custom', label: 'Expression' },
+];
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <span className="block text-slate-500 mb-1 text-[10px] uppercase">{label}</span>
+    {children}
+  </div>
+);
+
+const ResolvedRow: React.FC<{ name: string; $pos: Selection['$from'] }> = ({ name, $pos }) => {
+  const info = describeResolvedPos($pos);
+  return (
+    <tr className="align-top border-t border-slate-800">
+      <td className="py-1 pr-2 font-mono text-blue-300">{name}</td>
+      <td className="py-1 pr-2 font-mono">{info.pos}</td>
+      <td className="py-1 pr-2 font-mono">{info.depth}</td>
+      <td className="py-1 pr-2 font-mono">{info.parentOffset}</td>
+      <td className="py-1 pr-2 font-mono">{info.index}</td>
+      <td className={cn("py-1 font-mono break-all", info.inlineContent ? "text-slate-300" : "text-amber-300")}>
+        {info.path.join(' › ')}
+      </td>
+    </tr>
+  );
+};
+
+const Warnings: React.FC<{ warnings: string[] }> = ({ warnings }) => (
+  <>
+    {warnings.map(warning => (
+      <div key={warning} className="flex items-start gap-1.5 text-xs text-amber-300">
+        <AlertTriangle size={12} className="mt-0.5 shrink-0" /> {warning}
+      </div>
+    ))}
+  </>
+);
+
+const describe = (selection: Selection) =>
+  `${getSelectionTypeName(selection)} ${selection.anchor}–${selection.head}`;
+
+const SelectionPanel: React.FC<SelectionPanelProps> = ({ view, transactionCount, pos }) => {
+  const [draft, setDraft] = useState<SelectionDraft | null>(null);
+  const [hovered, setHovered] = useState<Selection | null>(null);
+  // Values the expression can use, kept current for autocompletion
+  const scopeRef = useRef<Record<string, unknown>>({});
+  const completions = useMemo(() => expressionCompletions(scopeRef.current), []);
+
+  useEffect(() => {
+    if (!view) return;
+    Object.assign(scopeRef.current, selectionScope(view, pos));
+    setDraft(current => current ?? selectionDraft(view.state.selection));
+  }, [view, pos, transactionCount]);
+
+  const selection = view?.state.selection;
+  const alternatives = useMemo(() => selection ? selectionAlternatives(selection) : [], [selection]);
+  const targets = useMemo(() => view ? nodeSelectionTargets(view.state.doc) : [], [view, transactionCount]);
+  // Only scanned while the GapCursor builder is open
+  const gapKind = draft?.kind === 'gap';
+  const gapTargets = useMemo(() => view && gapKind ? gapCursorTargets(view.state.doc) : [], [view, gapKind, transactionCount]);
+  const preview = useMemo(
+    () => view && draft ? buildSelection(draft, view, pos) : null,
+    [view, draft, pos, transactionCount]
+  );
+
+  const rects = useMemo(() => {
+    if (!view || !hovered || hovered.$head.doc !== view.state.doc) return [];
+    if (hovered instanceof NodeSelection) return nodeRects(view, hovered.from, hovered.to);
+    return rangeRects(view, hovered.from, hovered.to);
+  }, [view, hovered]);
+
+  if (!view || !selection || !draft) {
+    return (
+      <div className="flex items-center justify-center h-full text-slate-500">
+        Waiting for editor...
+      </div>
+    );
+  }
+
+  const dispatch = (next: Selection) => {
+    setHovered(null);
+    view.dispatch(view.state.tr.setSelection(next).scrollIntoView());
+    view.focus();
+  };
+  const update = (changes: Partial<SelectionDraft>) => setDraft({ ...draft, ...changes });
+  const hoverProps = (target: Selection | null) => ({
+    onMouseEnter: () => setHovered(target),
+    onMouseLeave: () => setHovered(null),
+  });
+
+  const kind = selectionKind(selection);
+  const warnings = selectionWarnings(selection);
+  const built = preview && 'selection' in preview ? preview.selection : null;
+  const numberInput = (value: number, onChange: (value: number) => void) => (
+    <input
+      type="number"
+      value={value}
+      min={0}
+      max={view.state.doc.content.size}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-20 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:border-blue-500"
+    />
+  );
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-3">
+      <RangeHighlight rects={rects} className="border-blue-400 bg-blue-400/30" />
+
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-mono text-blue-300">{getSelectionTypeName(selection)}</span>
+            {kind === 'custom' && (
+              <span className="px-1 rounded text-[10px] bg-purple-900/40 border border-purple-800 text-purple-300">custom subclass</span>
+            )}
+            {selection.empty && <span className="text-[10px] text-slate-500 uppercase">empty</span>}
+          </div>
+          <button
+            onClick={() => setDraft(selectionDraft(selection))}
+            className="text-xs text-slate-400 hover:text-white"
+          >
+            Copy into builder
+          </button>
+        </div>
+
+        <div className="grid grid-cols-4 gap-2 text-xs font-mono">
+          <Field label="anchor">{selection.anchor}</Field>
+          <Field label="head">{selection.head}</Field>
+          <Field label="from">{selection.from}</Field>
+          <Field label="to">{selection.to}</Field>
+        </div>
+
+        {selection instanceof NodeSelection && (
+          <Field label="node">
+            <span className="text-xs font-mono">{selection.node.type.name} ({selection.node.nodeSize})</span>
+          </Field>
+        )}
+
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-500 text-[10px] uppercase text-left">
+              <th className="font-normal pb-1"></th>
+              <th className="font-normal pb-1">pos</th>
+              <th className="font-normal pb-1">depth</th>
+              <th className="font-normal pb-1">offset</th>
+              <th className="font-normal pb-1">index</th>
+              <th className="font-normal pb-1">path</th>
+            </tr>
+          </thead>
+          <tbody>
+            <ResolvedRow name="$anchor" $pos={selection.$anchor} />
+            <ResolvedRow name="$head" $pos={selection.$head} />
+            <ResolvedRow name="$from" $pos={selection.$from} />
+            <ResolvedRow name="$to" $pos={selection.$to} />
+          </tbody>
+        </table>
+
+        {selection.ranges.length > 0 && (
+          <Field label={`ranges (${selection.ranges.length})`}>
+            <div className="flex flex-wrap gap-1">
+              {selection.ranges.map((range, idx) => (
+                <span key={idx} className="px-1.5 py-0.5 rounded bg-slate-800 text-xs font-mono">
+                  {range.$from.pos}–{range.$to.pos}
+                </span>
+              ))}
+            </div>
+          </Field>
+        )}
+
+        <Warnings warnings={warnings} />
+      </div>
+
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3">
+        <span className="block text-slate-500 mb-1 text-[10px] uppercase">Where the helpers would land</span>
+        <table className="w-full text-xs">
+          <tbody>
+            {alternatives.map(alternative => (
+              <tr key={alternative.label} className="border-t border-slate-800 first:border-t-0" {...hoverProps(alternative.selection)}>
+                <td className="py-1 pr-2 font-mono text-slate-400">{alternative.label}</td>
+                <td className={cn("py-1 pr-2 font-mono", alternative.same ? "text-slate-500" : "text-amber-300")}>
+                  {alternative.selection ? describe(alternative.selection) : 'null'}
+                  {alternative.same && ' (same)'}
+                </td>
+                <td className="py-1 text-right">
+                  {alternative.selection && !alternative.same && (
+                    <button
+                      onClick={() => dispatch(alternative.selection!)}
+                      title="Dispatch this selection"
+                      className="text-slate-500 hover:text-blue-400"
+                    >
+                      <Send size={12} />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-3">
+        <div className="flex items-center gap-2">
+          {KINDS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => update({ kind: option.value })}
+              className={cn(
+                "px-2 py-1 rounded text-xs transition-colors",
+                draft.kind === option.value ? "bg-blue-600 text-white" : "text-slate-300 bg-slate-800 hover:bg-slate-700"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {draft.kind === 'text' && (
+          <div className="flex items-end gap-3">
+            <Field label="anchor">{numberInput(draft.anchor, anchor => update({ anchor }))}</Field>
+            <Field label="head">{numberInput(draft.head, head => update({ head }))}</Field>
+            <button
+              onClick={() => update({ anchor: pos, head: pos })}
+              className="flex items-center gap-1 text-xs text-slate-400 hover:text-white pb-1"
+            >
+              <Crosshair size={12} /> Cursor at {pos}
+            </button>
+          </div>
+        )}
+
+        {draft.kind === 'node' && (
+          <div className="space-y-2">
+            <div className="flex items-end gap-3">
+              <Field label="node at">{numberInput(draft.nodePos, nodePos => update({ nodePos }))}</Field>
+              <button
+                onClick={() => update({ nodePos: pos })}
+                className="flex items-center gap-1 text-xs text-slate-400 hover:text-white pb-1"
+              >
+                <Crosshair size={12} /> Use {pos}
+              </button>
+            </div>
+            {targets.length > 0 && (
+              <Field label="atoms and isolating nodes">
+                <div className="flex flex-wrap gap-1">
+                  {targets.map(target => (
+                    <button
+                      key={target.pos}
+                      onClick={() => update({ nodePos: target.pos })}
+                      title={[target.atom && 'atom', target.isolating && 'isolating', !target.selectable && 'not selectable'].filter(Boolean).join(', ')}
+                      className={cn(
+                        "px-1.5 py-0.5 rounded border text-xs font-mono",
+                        draft.nodePos === target.pos ? "border-blue-500 text-white bg-blue-900/40" : "border-slate-700 bg-slate-800 hover:bg-slate-700",
+                        !target.selectable && "text-amber-300"
+                      )}
+                    >
+                      {target.type}@{target.pos}
+                    </button>
+                  ))}
+                </div>
+              </Field>
+            )}
+          </div>
+        )}
+
+        {draft.kind === 'all' && (
+          <p className="text-xs text-slate-500">Selects the whole document, from 0 to {view.state.doc.content.size}.</p>
+        )}
+
+        {draft.kind === 'gap' && (
+          <div className="space-y-2">
+            <div className="flex items-end gap-3">
+              <Field label="at">{numberInput(draft.head, head => update({ head }))}</Field>
+              <button
+                onClick={() => update({ head: pos })}
+                className="flex items-center gap-1 text-xs text-slate-400 hover:text-white pb-1"
+              >
+                <Crosshair size={12} /> Use {pos}
+              </button>
+            </div>
+            <Field label="valid gap positions">
+              {gapTargets.length === 0 ? (
+                <p className="text-xs text-slate-500">None: every position between blocks here can hold a text cursor.</p>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {gapTargets.map(target => (
+                    <button
+                      key={target}
+                      onClick={() => update({ head: target })}
+                      className={cn(
+                        "px-1.5 py-0.5 rounded border text-xs font-mono",
+                        draft.head === target ? "border-blue-500 text-white bg-blue-900/40" : "border-slate-700 bg-slate-800 hover:bg-slate-700"
+                      )}
+                    >
+                      {target}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </Field>
+          </div>
+        )}
+
+        {draft.kind === 'custom' && (
+          <div className="space-y-1">
+            <CodeEditor
+              singleLine
+              value={draft.expression}
+              onChange={(expression) => update({ expression })}
+              extensions={completions}
+              className="[&_.cm-content]:py-1.5"
+            />
+            <p className="text-xs text-slate-500">
+              Any expression returning a Selection. <code className="text-slate-400">state</code>, <code className="text-slate-400">pos</code> and
+              the selection classes, GapCursor included, are in scope.
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2 pt-1 border-t border-slate-800">
+          <div className="text-xs font-mono min-w-0" {...hoverProps(built)}>
+            {!preview ? null : 'error' in preview ? (
+              <span className="text-red-400 break-all">{preview.error}</span>
+            ) : (
+              <span className="text-slate-300">{describe(preview.selection)}</span>
+            )}
+          </div>
+          <button
+            onClick={() => built && dispatch(built)}
+            disabled={!built}
+            className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600 transition-colors"
+          >
+            <Send size={12} /> Dispatch
+          </button>
+        </div>
+        {built && <Warnings warnings={selectionWarnings(built)} />}
+      </div>
+    </div>
+  );
+};
+
+export default SelectionPanel;
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Check, Link2 } from 'lucide-react';
+import { Workspace } from '../types';
+import { encodeWorkspace } from '../lib/permalink';
+
+interface ShareButtonProps {
+  // Snapshot of the current workspace, or null while there's nothing to share
+  getWorkspace: () => Workspace | null;
+}
+
+// Puts the workspace into the URL fragment and copies the link. Nothing is
+// sent anywhere: the whole workspace lives in the link itself.
+const ShareButton: React.FC<ShareButtonProps> = ({ getWorkspace }) => {
+  const [status, setStatus] = useState<'idle' | 'copied' | 'updated' | 'error'>('idle');
+  const [linkLength, setLinkLength] = useState<number | null>(null);
+
+  const handleShare = async () => {
+    const workspace = getWorkspace();
+    if (!workspace) return;
+    try {
+      const fragment = await encodeWorkspace(workspace);
+      window.history.replaceState(null, '', `#${fragment}`);
+      setLinkLength(window.location.href.length);
+      try {
+        await navigator.clipboard.writeText(window.location.href);
+        setStatus('copied');
+      } catch {
+        // Clipboard access can be denied; the address bar has the link anyway
+        setStatus('updated');
+      }
+    } catch (e) {
+      console.error(e);
+      setStatus('error');
+    }
+    setTimeout(() => setStatus('idle'), 2000);
+  };
+
+  const label = {
+    idle: 'Share Link',
+    copied: 'Link copied',
+    updated: 'Link in address bar',
+    error: "Couldn't create link",
+  }[status];
+
+  return (
+    <button
+      onClick={handleShare}
+      title={linkLength !== null ? `Last link: ${linkLength} characters` : 'Encode the workspace into the URL'}
+      className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 rounded-md hover:bg-slate-700 transition-colors"
+    >
+      {status === 'copied' ? <Check size={14} className="text-green-400" /> : <Link2 size={14} />}
+      {label}
+    </button>
+  );
+};
+
+export default ShareButton;
@@ -0,0 +1,357 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Node } from 'prosemirror-model';
+import { EditorState, Selection } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { ArrowLeftRight, Camera } from 'lucide-react';
+import { LibraryEntry, TransactionRecord } from '../types';
+import { cn, errorMessage } from '../lib/utils';
+import { listEntries } from '../lib/library';
+import { describeMarks, describeSelection, describeStep, formatValue } from '../lib/transactions';
+import { changedRange, countChanges, DiffNode, diffDecorations, diffNodes, diffSteps, InlineSegment, mapSelection } from '../lib/docDiff';
+import DiffRendering from './DiffRendering';
+
+interface StateDiffProps {
+  view: EditorView | null;
+  transactions: TransactionRecord[];
+  transactionCount: number;
+  // Bumped by the parent after it writes to the library (auto snapshots)
+  libraryRevision: number;
+}
+
+// A state captured in this panel to compare against later
+interface Snapshot {
+  id: string;
+  label: string;
+  state: EditorState;
+}
+
+interface ResolvedSource {
+  doc: Node | null;
+  // Library entries only store the document
+  selection: Selection | null;
+  error: string | null;
+}
+
+const SEGMENT_STYLES: Record<InlineSegment['status'], string> = {
+  same: "text-slate-400",
+  inserted: "bg-green-900/40 text-green-300",
+  deleted: "bg-red-900/40 text-red-300 line-through",
+  marks: "bg-amber-900/40 text-amber-300 underline decoration-dashed",
+};
+
+const STATUS_STYLES: Record<DiffNode['status'], string> = {
+  same: "text-slate-500",
+  inserted: "text-green-300",
+  deleted: "text-red-300 line-through",
+  modified: "text-amber-300",
+};
+
+const range = (from: number, to: number) => from === to ? `${from}` : `${from}–${to}`;
+
+const DiffTreeNode: React.FC<{ diff: DiffNode }> = ({ diff }) => {
+  const { status, nodeA, nodeB, posA, posB, attrChanges } = diff;
+  const node = (nodeB ?? nodeA)!;
+  const retyped = nodeA && nodeB && nodeA.type !== nodeB.type;
+  const isRoot = posA < 0;
+
+  // Unchanged siblings are collapsed into runs
+  const children: React.ReactNode[] = [];
+  let unchanged = 0;
+  const flushUnchanged = (key: number) => {
+    if (unchanged) children.push(<div key={`same-${key}`} className="text-slate-600 italic">… {unchanged} unchanged</div>);
+    unchanged = 0;
+  };
+  diff.children?.forEach((child, idx) => {
+    if (child.status === 'same') {
+      unchanged++;
+      return;
+    }
+    flushUnchanged(idx);
+    children.push(<DiffTreeNode key={idx} diff={child} />);
+  });
+  flushUnchanged(diff.children?.length ?? 0);
+
+  return (
+    <div className="text-xs font-mono">
+      <div className="flex items-center gap-2 flex-wrap py-0.5">
+        <span className={cn("font-bold", STATUS_STYLES[status])}>
+          {retyped ? `${nodeA.type.name} → ${nodeB.type.name}` : node.type.name}
+        </span>
+        {!isRoot && nodeA && <span className="text-slate-500">A {range(posA, posA + nodeA.nodeSize)}</span>}
+        {!isRoot && nodeB && <span className="text-slate-500">B {range(posB, posB + nodeB.nodeSize)}</span>}
+        {status === 'inserted' && <span className="text-green-400">inserted at A {posA}</span>}
+        {status === 'deleted' && <span className="text-red-400">deleted at B {posB}</span>}
+      </div>
+      {attrChanges.map(change => (
+        <div key={change.path} className="pl-4 text-amber-300/80">
+          {change.path}: {change.kind === 'added' ? '∅' : formatValue(change.before)} → {change.kind === 'removed' ? '∅' : formatValue(change.after)}
+        </div>
+      ))}
+      {status !== 'modified' && status !== 'same' && node.textContent && (
+        <div className={cn("pl-4 truncate", status === 'inserted' ? "text-green-400/70" : "text-red-400/70")}>"{node.textContent}"</div>
+      )}
+      {diff.inline && (
+        <div className="pl-4 whitespace-pre-wrap break-all">
+          {diff.inline.map((segment, idx) => (
+            <span
+              key={idx}
+              className={SEGMENT_STYLES[segment.status]}
+              title={segment.status === 'marks'
+                ? `${describeMarks(segment.marksA)} → ${describeMarks(segment.marksB)}`
+                : `A ${range(segment.fromA, segment.toA)}, B ${range(segment.fromB, segment.toB)}`}
+            >
+              {segment.text}
+            </span>
+          ))}
+        </div>
+      )}
+      {children.length > 0 && <div className="ml-1 pl-2 border-l border-slate-800">{children}</div>}
+    </div>
+  );
+};
+
+const StateDiff: React.FC<StateDiffProps> = ({ view, transactions, transactionCount, libraryRevision }) => {
+  const [sourceA, setSourceA] = useState('previous');
+  const [sourceB, setSourceB] = useState('current');
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [mode, setMode] = useState<'tree' | 'rendered'>('tree');
+
+  const refreshEntries = useCallback(() => {
+    listEntries()
+      .then(setEntries)
+      .catch(err => console.warn("Couldn't read the library", err));
+  }, []);
+
+  useEffect(refreshEntries, [refreshEntries, libraryRevision]);
+
+  // transactionCount stands in for view.state, which the view updates in place
+  const resolve = useCallback((id: string): ResolvedSource => {
+    const fromState = (state: EditorState | undefined, missing: string): ResolvedSource =>
+      state ? { doc: state.doc, selection: state.selection, error: null } : { doc: null, selection: null, error: missing };
+    const [kind, key] = id.split(':');
+    if (kind === 'current') return fromState(view?.state, 'Waiting for editor...');
+    if (kind === 'previous') return fromState(transactions[transactions.length - 1]?.stateBefore, 'No transactions recorded yet');
+    // Keyed by transaction id, since the log is trimmed from the front and cut on branching
+    if (kind === 'start' || kind === 'timeline') {
+      const record = transactions.find(candidate => String(candidate.id) === key);
+      return fromState(kind === 'start' ? record?.stateBefore : record?.stateAfter, 'That transaction is no longer recorded');
+    }
+    if (kind === 'snapshot') return fromState(snapshots.find(snapshot => snapshot.id === key)?.state, 'Snapshot not found');
+    const entry = entries.find(e => e.id === key);
+    if (!entry || !view) return { doc: null, selection: null, error: 'Library entry not found' };
+    try {
+      return { doc: view.state.schema.nodeFromJSON(entry.doc), selection: null, error: null };
+    } catch (err) {
+      return { doc: null, selection: null, error: `Doesn't load in the current schema: ${errorMessage(err)}` };
+    }
+  }, [view, transactions, snapshots, entries, transactionCount]);
+
+  const a = useMemo(() => resolve(sourceA), [resolve, sourceA]);
+  const b = useMemo(() => resolve(sourceB), [resolve, sourceB]);
+  const sameSchema = a.doc && b.doc && a.doc.type.schema === b.doc.type.schema;
+
+  const result = useMemo(() => {
+    if (!a.doc || !b.doc || !sameSchema) return null;
+    const diff = diffNodes(a.doc, b.doc);
+    return {
+      diff,
+      counts: countChanges(diff),
+      range: changedRange(a.doc, b.doc),
+      steps: diffSteps(diff),
+      decorationsA: diffDecorations(diff, 'a'),
+      decorationsB: diffDecorations(diff, 'b'),
+    };
+  }, [a.doc, b.doc, sameSchema]);
+
+  if (!view) {
+    return (
+      <div className="flex items-center justify-center h-full text-slate-500">
+        Waiting for editor...
+      </div>
+    );
+  }
+
+  const captureSnapshot = () => {
+    const latest = transactions[transactions.length - 1];
+    const label = `Snapshot ${snapshots.length + 1}${latest ? ` (after #${latest.id})` : ''}`;
+    setSnapshots([...snapshots, { id: crypto.randomUUID(), label, state: view.state }]);
+  };
+
+  const options = (
+    <>
+      <optgroup label="Editor">
+        <option value="current">Current state</option>
+        <option value="previous">Before the latest transaction</option>
+      </optgroup>
+      {transactions.length > 0 && (
+        <optgroup label="Timeline">
+          <option value={`start:${transactions[0].id}`}>Start (before #{transactions[0].id})</option>
+          {transactions.map(record => (
+            <option key={record.id} value={`timeline:${record.id}`}>After #{record.id}</option>
+          ))}
+        </optgroup>
+      )}
+      {snapshots.length > 0 && (
+        <optgroup label="Snapshots">
+          {snapshots.map(snapshot => <option key={snapshot.id} value={`snapshot:${snapshot.id}`}>{snapshot.label}</option>)}
+        </optgroup>
+      )}
+      {entries.length > 0 && (
+        <optgroup label="Library">
+          {entries.map(entry => <option key={entry.id} value={`library:${entry.id}`}>{entry.name}</option>)}
+        </optgroup>
+      )}
+    </>
+  );
+
+  const sourcePicker = (label: string, value: string, onChange: (id: string) => void, source: ResolvedSource) => (
+    <div className="flex-1 min-w-0">
+      <span className="block text-slate-500 mb-1 text-[10px] uppercase">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={refreshEntries}
+        className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+      >
+        {options}
+      </select>
+      {source.error && <div className="text-xs text-red-400 mt-1">{source.error}</div>}
+    </div>
+  );
+
+  const mappedSelection = result && a.selection ? mapSelection(a.selection, result.steps) : null;
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-3">
+      <div className="flex items-end gap-2">
+        {sourcePicker('A (old)', sourceA, setSourceA, a)}
+        <button
+          onClick={() => {
+            setSourceA(sourceB);
+            setSourceB(sourceA);
+          }}
+          title="Swap"
+          className="p-1.5 mb-0.5 rounded text-slate-400 hover:text-white hover:bg-slate-700"
+        >
+          <ArrowLeftRight size={14} />
+        </button>
+        {sourcePicker('B (new)', sourceB, setSourceB, b)}
+      </div>
+      <div className="flex items-center justify-between">
+        <button
+          onClick={captureSnapshot}
+          className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-slate-300 bg-slate-800 rounded-md hover:bg-slate-700 transition-colors"
+        >
+          <Camera size={14} /> Capture current state
+        </button>
+        <div className="flex rounded-md overflow-hidden border border-slate-700 text-xs">
+          {(['tree', 'rendered'] as const).map(value => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={cn("px-2 py-1 capitalize", mode === value ? "bg-slate-700 text-white" : "text-slate-400 hover:text-white")}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {a.doc && b.doc && !sameSchema && (
+        <div className="text-xs text-red-400">The two documents use different schemas, so they can't be compared.</div>
+      )}
+
+      {result && (
+        <>
+          <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-2 text-xs">
+            {result.range === null ? (
+              <div className="text-slate-500 italic">The documents are identical</div>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-x-3 gap-y-1 font-mono">
+                  <span className="text-green-300">+{result.counts.insertedNodes} nodes</span>
+                  <span className="text-red-300">−{result.counts.deletedNodes} nodes</span>
+                  <span className="text-amber-300">{result.counts.changedNodes} changed</span>
+                  <span className="text-green-300">+{result.counts.insertedText} inline</span>
+                  <span className="text-red-300">−{result.counts.deletedText} inline</span>
+                  <span className="text-amber-300">{result.counts.markRanges} mark ranges</span>
+                </div>
+                <div className="font-mono text-slate-400">
+                  findDiffStart {result.range.start}, findDiffEnd A {result.range.endA} / B {result.range.endB}
+                </div>
+              </>
+            )}
+            <div className="grid grid-cols-3 gap-2 pt-1">
+              <div>
+                <span className="block text-slate-500 mb-1 text-[10px] uppercase">Selection A</span>
+                <span className="font-mono text-slate-300">{a.selection ? describeSelection(a.selection) : '—'}</span>
+              </div>
+              <div>
+                <span className="block text-slate-500 mb-1 text-[10px] uppercase">Selection B</span>
+                <span className="font-mono text-slate-300">{b.selection ? describeSelection(b.selection) : '—'}</span>
+              </div>
+              <div>
+                <span className="block text-slate-500 mb-1 text-[10px] uppercase">A mapped to B</span>
+                <span className={cn(
+                  "font-mono",
+                  mappedSelection && b.selection && !mappedSelection.eq(b.selection) ? "text-amber-300" : "text-slate-300"
+                )}>
+                  {mappedSelection ? describeSelection(mappedSelection) : '—'}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          {result.range !== null && (
+            mode === 'tree' ? (
+              <div className="bg-slate-900 rounded-lg border border-slate-800 p-3">
+                <DiffTreeNode diff={result.diff} />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <div>
+                  <span className="block text-slate-500 mb-1 text-[10px] uppercase">A (old)</span>
+                  <DiffRendering doc={a.doc!} decorations={result.decorationsA} />
+                </div>
+                <div>
+                  <span className="block text-slate-500 mb-1 text-[10px] uppercase">B (new)</span>
+                  <DiffRendering doc={b.doc!} decorations={result.decorationsB} />
+                </div>
+              </div>
+            )
+          )}
+
+          {result.range !== null && (
+            <div className="bg-slate-900 rounded-lg border border-slate-800 p-3">
+              <span className="block text-slate-500 mb-1 text-[10px] uppercase">Steps from A to B ({result.steps.steps.length})</span>
+              {result.steps.fallback && (
+                <div className="text-xs text-amber-400 mb-2">
+                  The steps built from the diff didn't reproduce B, so this is the single replace over the changed range.
+                </div>
+              )}
+              <div className="space-y-1">
+                {result.steps.steps.map((step, idx) => {
+                  const { name, fields } = describeStep(step);
+                  return (
+                    <div key={idx} className="bg-slate-950/50 p-2 rounded text-xs font-mono">
+                      <div className="text-blue-300 font-bold mb-1">{idx}. {name}</div>
+                      {fields.map(field => (
+                        <div key={field.name} className="flex gap-2">
+                          <span className="text-slate-500 shrink-0">{field.name}</span>
+                          <span className="text-slate-300 break-all">{field.value}</span>
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StateDiff;
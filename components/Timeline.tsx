@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { GitBranch, Pause, Play, SkipBack, SkipForward, StepBack, StepForward } from 'lucide-react';
+
+interface TimelineProps {
+  // Number of recorded transactions; valid positions are 0..length
+  length: number;
+  // Position of the state currently shown in the editor, 0 being the state
+  // before the first recorded transaction
+  position: number;
+  onSeek: (position: number) => void;
+  onBranch: () => void;
+}
+
+const REPLAY_INTERVAL_MS = 400;
+
+const buttonClass = "p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-400 transition-colors";
+
+const Timeline: React.FC<TimelineProps> = ({ length, position, onSeek, onBranch }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const atHead = position >= length;
+
+  // Replay forward one transaction at a time until we reach the head
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (atHead) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onSeek(position + 1), REPLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, atHead, position, onSeek]);
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-slate-500 uppercase tracking-wider font-medium">Timeline</span>
+        <span className="font-mono text-slate-400">
+          {position} / {length}
+          {!atHead && <span className="ml-2 text-amber-400">rewound</span>}
+        </span>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={length}
+        value={position}
+        disabled={length === 0}
+        onChange={(e) => {
+          setIsPlaying(false);
+          onSeek(parseInt(e.target.value, 10));
+        }}
+        className="w-full accent-blue-500"
+      />
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1">
+          <button className={buttonClass} title="Rewind to start" disabled={position === 0} onClick={() => onSeek(0)}>
+            <SkipBack size={14} />
+          </button>
+          <button className={buttonClass} title="Step back" disabled={position === 0} onClick={() => onSeek(position - 1)}>
+            <StepBack size={14} />
+          </button>
+          <button
+            className={buttonClass}
+            title={isPlaying ? "Pause replay" : "Replay forward"}
+            disabled={atHead}
+            onClick={() => setIsPlaying(!isPlaying)}
+          >
+            {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+          </button>
+          <button className={buttonClass} title="Step forward" disabled={atHead} onClick={() => onSeek(position + 1)}>
+            <StepForward size={14} />
+          </button>
+          <button className={buttonClass} title="Jump to latest" disabled={atHead} onClick={() => onSeek(length)}>
+            <SkipForward size={14} />
+          </button>
+        </div>
+        <button
+          onClick={onBranch}
+          disabled={atHead}
+          title="Discard later transactions and continue from here"
+          className="flex items-center gap-1 px-2 py-1 text-xs rounded text-slate-300 bg-slate-800 hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-slate-800 transition-colors"
+        >
+          <GitBranch size={14} /> Branch here
+        </button>
+      </div>
+      {!atHead && (
+        <div className="text-xs text-slate-500">
+          Editing now will branch from this point and discard the later transactions.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Timeline;
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { cn } from '../lib/utils';
+
+export interface ToolTab {
+  id: string;
+  label: string;
+  icon: React.ReactNode;
+  content: React.ReactNode;
+}
+
+interface ToolPanelProps {
+  tabs: ToolTab[];
+  // Controlled active tab; the panel keeps its own when omitted
+  activeId?: string;
+  onActiveChange?: (id: string) => void;
+}
+
+// Hidden tabs keep their last render instead of recomputing with every
+// transaction; they catch up when shown again
+const TabContent = React.memo<{ active: boolean; content: React.ReactNode }>(
+  ({ content }) => <>{content}</>,
+  (_, next) => !next.active
+);
+
+const ToolPanel: React.FC<ToolPanelProps> = ({ tabs, activeId: controlledId, onActiveChange }) => {
+  const [ownActiveId, setOwnActiveId] = useState<string>(tabs[0]?.id);
+  // Unknown ids (e.g. from an old permalink) fall back to the first tab
+  const activeId = tabs.some(tab => tab.id === controlledId) ? controlledId! : ownActiveId;
+  const setActiveId = (id: string) => {
+    setOwnActiveId(id);
+    onActiveChange?.(id);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-950 text-slate-200">
+      <div className="bg-slate-800 border-b border-slate-700">
+        <div className="px-4 pt-3 pb-2">
+          <h2 className="text-lg font-semibold text-slate-100 flex items-center gap-2">
+            <span className="text-blue-400">4.</span> Tools
+          </h2>
+        </div>
+        <div className="flex px-2 gap-1 overflow-x-auto">
+          {tabs.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveId(tab.id)}
+              className={cn(
+                "flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-t-md whitespace-nowrap transition-colors",
+                tab.id === activeId ? "bg-slate-950 text-blue-300" : "text-slate-400 hover:text-white hover:bg-slate-700/50"
+              )}
+            >
+              {tab.icon}
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Inactive tabs stay mounted (just hidden) so they keep their state */}
+      {tabs.map(tab => (
+        <div key={tab.id} className={cn("flex-1 overflow-hidden", tab.id !== activeId && "hidden")}>
+          <TabContent active={tab.id === activeId} content={tab.content} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ToolPanel;
@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { Transaction } from 'prosemirror-state';
+import { TransactionRecord } from '../types';
+import { cn } from '../lib/utils';
+import { describeMarks, describeSelection, describeStep, formatValue, getMetaEntries } from '../lib/transactions';
+import Timeline from './Timeline';
+import PluginStates from './PluginStates';
+import { Ban, ChevronDown, ChevronRight, History, Trash2 } from 'lucide-react';
+
+interface TransactionLogProps {
+  transactions: TransactionRecord[];
+  // Timeline position of the state shown in the editor (see Timeline)
+  position: number;
+  onSeek: (position: number) => void;
+  onBranch: () => void;
+  onClear: () => void;
+}
+
+const Flag: React.FC<{ label: string; value: boolean }> = ({ label, value }) => (
+  <span className={cn(
+    "px-1.5 py-0.5 rounded text-[10px] font-mono border",
+    value ? "bg-blue-900/40 border-blue-800 text-blue-300" : "bg-slate-900 border-slate-800 text-slate-500"
+  )}>
+    {label}: {String(value)}
+  </span>
+);
+
+const TransactionDetails: React.FC<{ tr: Transaction }> = ({ tr }) => {
+  const metas = getMetaEntries(tr);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1">
+        <Flag label="docChanged" value={tr.docChanged} />
+        <Flag label="selectionSet" value={tr.selectionSet} />
+        <Flag label="storedMarksSet" value={tr.storedMarksSet} />
+        <Flag label="scrolledIntoView" value={tr.scrolledIntoView} />
+      </div>
+
+      <div>
+        <span className="block text-slate-500 mb-1 text-[10px] uppercase">Steps ({tr.steps.length})</span>
+        {tr.steps.length === 0 ? (
+          <div className="text-xs text-slate-600 italic">No steps</div>
+        ) : (
+          <div className="space-y-1">
+            {tr.steps.map((step, idx) => {
+              const { name, fields } = describeStep(step);
+              return (
+                <div key={idx} className="bg-slate-950/50 p-2 rounded text-xs font-mono">
+                  <div className="text-blue-300 font-bold mb-1">{idx}. {name}</div>
+                  {fields.map(field => (
+                    <div key={field.name} className="flex gap-2">
+                      <span className="text-slate-500 shrink-0">{field.name}</span>
+                      <span className="text-slate-300 break-all">{field.value}</span>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <span className="block text-slate-500 mb-1 text-[10px] uppercase">Stored Marks</span>
+        <div className="text-xs font-mono text-slate-300">{describeMarks(tr.storedMarks)}</div>
+      </div>
+
+      <div>
+        <span className="block text-slate-500 mb-1 text-[10px] uppercase">Meta ({metas.length})</span>
+        {metas.length === 0 ? (
+          <div className="text-xs text-slate-600 italic">No metadata</div>
+        ) : (
+          <div className="bg-slate-950/50 p-2 rounded text-xs font-mono space-y-1">
+            {metas.map(([key, value]) => (
+              <div key={key} className="flex gap-2">
+                <span className="text-amber-300 shrink-0">{key}</span>
+                <span className="text-slate-300 break-all">{formatValue(value)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface TransactionEntryProps {
+  record: TransactionRecord;
+  isCurrent: boolean;
+  // Entries after the current timeline position get discarded on the next edit
+  isFuture: boolean;
+  onSeek: () => void;
+}
+
+const TransactionEntry: React.FC<TransactionEntryProps> = ({ record, isCurrent, isFuture, onSeek }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { transaction: tr, appended, stateBefore, stateAfter, pluginTrace } = record;
+  const metaKeys = getMetaEntries(tr).map(([key]) => key);
+  // Set when a filterTransaction hook rejected the dispatched transaction
+  const filteredBy = pluginTrace.filtered.find(entry => entry.transaction === tr)?.plugin;
+  // Appended transactions that were rejected in turn
+  const filteredAppended = pluginTrace.filtered.filter(entry => entry.transaction !== tr);
+
+  return (
+    <div className={cn(
+      "bg-slate-900 rounded-lg border overflow-hidden",
+      isCurrent ? "border-blue-700" : "border-slate-800",
+      isFuture && "opacity-50"
+    )}>
+      <div
+        className="flex items-start justify-between gap-2 p-3 cursor-pointer hover:bg-slate-800/50 transition-colors select-none"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-mono text-slate-500">#{record.id}</span>
+            <span className={cn("font-mono", tr.docChanged ? "text-blue-300" : "text-slate-400")}>
+              {tr.steps.length} step{tr.steps.length === 1 ? '' : 's'}
+            </span>
+            {appended.length > 0 && (
+              <span className="text-xs text-amber-400">+{appended.length} appended</span>
+            )}
+            {filteredBy && (
+              <span className="flex items-center gap-1 text-xs text-red-400"><Ban size={12} /> filtered</span>
+            )}
+          </div>
+          {metaKeys.length > 0 && (
+            <div className="text-xs font-mono text-slate-500 truncate">{metaKeys.join(', ')}</div>
+          )}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <span className="text-xs font-mono text-slate-600">{new Date(record.time).toLocaleTimeString()}</span>
+          <button
+            title="Restore the state after this transaction"
+            onClick={(e) => {
+              e.stopPropagation();
+              onSeek();
+            }}
+            className={cn("hover:text-white", isCurrent ? "text-blue-400" : "text-slate-500")}
+          >
+            <History size={14} />
+          </button>
+          {isExpanded ? <ChevronDown size={16} className="text-slate-500" /> : <ChevronRight size={16} className="text-slate-500" />}
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 border-t border-slate-800/50 pt-3 space-y-3">
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <div className="bg-slate-950/50 p-2 rounded">
+              <span className="block text-slate-500 mb-1 text-[10px] uppercase">Selection Before</span>
+              <span className="font-mono text-slate-300">{describeSelection(stateBefore.selection)}</span>
+            </div>
+            <div className="bg-slate-950/50 p-2 rounded">
+              <span className="block text-slate-500 mb-1 text-[10px] uppercase">Selection After</span>
+              <span className="font-mono text-slate-300">{describeSelection(stateAfter.selection)}</span>
+            </div>
+          </div>
+
+          {filteredBy && (
+            <div className="text-xs text-red-400">
+              Rejected by <span className="font-mono">{filteredBy}</span>, so the state didn't change.
+            </div>
+          )}
+
+          <TransactionDetails tr={tr} />
+
+          {appended.map((appendedTr, idx) => (
+            <div key={idx} className="border-l-2 border-amber-800 pl-3">
+              <div className="text-xs text-amber-400 mb-2">
+                Appended transaction {idx + 1} by <span className="font-mono">{pluginTrace.appendedBy[idx]}</span>
+              </div>
+              <TransactionDetails tr={appendedTr} />
+            </div>
+          ))}
+
+          {filteredAppended.map((entry, idx) => (
+            <div key={idx} className="border-l-2 border-red-900 pl-3 opacity-70">
+              <div className="text-xs text-red-400 mb-2">
+                Appended transaction rejected by <span className="font-mono">{entry.plugin}</span>
+              </div>
+              <TransactionDetails tr={entry.transaction} />
+            </div>
+          ))}
+
+          <div>
+            <span className="block text-slate-500 mb-1 text-[10px] uppercase">Plugin State Changes</span>
+            <PluginStates state={stateAfter} previous={stateBefore} changedOnly />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TransactionLog: React.FC<TransactionLogProps> = ({ transactions, position, onSeek, onBranch, onClear }) => {
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-2">
+      <Timeline length={transactions.length} position={position} onSeek={onSeek} onBranch={onBranch} />
+      <div className="flex items-center justify-between text-xs text-slate-500 px-1">
+        <span>{transactions.length} recorded</span>
+        <button
+          onClick={onClear}
+          className="flex items-center gap-1 text-slate-400 hover:text-white"
+        >
+          <Trash2 size={14} /> Clear
+        </button>
+      </div>
+
+      {transactions.length === 0 ? (
+        <div className="text-sm text-slate-500 text-center mt-8">
+          No transactions yet. Interact with the editor to record some.
+        </div>
+      ) : (
+        // Newest first, since that's usually what you're looking for
+        transactions.map((record, idx) => (
+          <TransactionEntry
+            key={record.id}
+            record={record}
+            isCurrent={idx + 1 === position}
+            isFuture={idx + 1 > position}
+            onSeek={() => onSeek(idx + 1)}
+          />
+        )).reverse()
+      )}
+    </div>
+  );
+};
+
+export default TransactionLog;
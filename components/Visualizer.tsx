@@ -1,24 +1,45 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useEffect, useMemo, useCallback, useRef } from 'react';
+import { Node } from 'prosemirror-model';
+import { AllSelection, EditorState, NodeSelection, Selection, TextSelection } from 'prosemirror-state';
 import { EditorView } from 'prosemirror-view';
-import { NodeInfo } from '../types';
+import { NodeInfo, WatchExpression } from '../types';
 import { cn } from '../lib/utils';
-import { Terminal, MapPin, Hash, Type, ChevronDown, ChevronRight } from 'lucide-react';
+import Accordion from './Accordion';
+import DocumentTree from './DocumentTree';
+import WatchList from './WatchList';
+import PluginStates from './PluginStates';
+import DecorationInspector from './DecorationInspector';
+import DomMapping from './DomMapping';
+import ContentValidator from './ContentValidator';
+import CollabClients from './CollabClients';
+import { CollabNetwork } from '../lib/collab';
+import { Eye, MapPin, Hash, Type, Layers, ListTree, Puzzle, Code, ListChecks, Users } from 'lucide-react';
 
 interface VisualizerProps {
   view: EditorView | null;
   // This prop serves as a signal to re-render when the editor state changes
   transactionCount: number;
+  // The inspected position is shared with the editor's position ruler
+  pos: number;
+  onPosChange: (pos: number) => void;
+  trackCursor: boolean;
+  onTrackCursorChange: (track: boolean) => void;
+  watches: WatchExpression[];
+  onWatchesChange: (watches: WatchExpression[]) => void;
+  // The collab session, if one is running
+  collab: CollabNetwork | null;
 }
 
-const Visualizer: React.FC<VisualizerProps> = ({ view, transactionCount }) => {
-  const [pos, setPos] = useState<number>(0);
-  const [trackCursor, setTrackCursor] = useState<boolean>(true);
-  const [evalExpression, setEvalExpression] = useState<string>('node.type.name');
-  const [evalResult, setEvalResult] = useState<string>('');
-  
-  const [isPosControlExpanded, setIsPosControlExpanded] = useState<boolean>(true);
-  const [isEvalExpanded, setIsEvalExpanded] = useState<boolean>(true);
-  
+const Visualizer: React.FC<VisualizerProps> = ({
+  view, transactionCount, pos, onPosChange: setPos,
+  trackCursor, onTrackCursorChange: setTrackCursor, watches, onWatchesChange, collab,
+}) => {
+  // The state before the latest one, to highlight the plugin state it changed
+  const statesRef = useRef<{ current: EditorState | null; previous: EditorState | null }>({ current: null, previous: null });
+  if (view && view.state !== statesRef.current.current) {
+    statesRef.current = { current: view.state, previous: statesRef.current.current };
+  }
+
   // Update position based on tracker state and editor transactions
   useEffect(() => {
     if (!view) return;
@@ -28,7 +49,8 @@ const Visualizer: React.FC<VisualizerProps> = ({ view, transactionCount }) => {
       const { from } = view.state.selection;
       setPos(from);
     } else {
-      // If tracking is OFF, only update if the current position becomes invalid (e.g. document shortened)
+      // If tracking is OFF, transactions map the position (see App). This
+      // catches states reached without one, like time travel.
       const maxPos = view.state.doc.content.size;
       if (pos > maxPos) {
         setPos(maxPos);
@@ -68,31 +90,25 @@ const Visualizer: React.FC<VisualizerProps> = ({ view, transactionCount }) => {
     return path;
   }, [view, pos, transactionCount]);
 
-  // Handle Evaluation
-  useEffect(() => {
+  // Select a node clicked in the document tree, in the editor and the visualizer
+  const handleSelectNode = useCallback((nodePos: number, node: Node) => {
     if (!view) return;
-    try {
-      const safePos = Math.max(0, Math.min(pos, view.state.doc.content.size));
-      const resolved = view.state.doc.resolve(safePos);
-      const node = resolved.node(resolved.depth); // Current parent node of position
-      // Alternatively, allow accessing nodeAfter
-      const nodeAfter = resolved.nodeAfter;
-
-      // Create a function context
-      // We pass: state, view, node (ancestor), nodeAfter, resolvedPos
-      const func = new Function('state', 'view', 'node', 'nodeAfter', 'resolvedPos', 'pos', `return ${evalExpression}`);
-      
-      const result = func(view.state, view, node, nodeAfter, resolved, safePos);
-      
-      if (result === undefined) setEvalResult("undefined");
-      else if (result === null) setEvalResult("null");
-      else if (typeof result === 'object') setEvalResult(JSON.stringify(result, null, 2));
-      else setEvalResult(String(result));
-
-    } catch (e: any) {
-      setEvalResult(`Error: ${e.message}`);
+    const { doc, tr } = view.state;
+    let selection: Selection;
+    if (nodePos < 0) {
+      // The doc itself has no position before it; select everything instead
+      selection = new AllSelection(doc);
+    } else if (node.isText) {
+      selection = TextSelection.create(doc, nodePos, nodePos + node.nodeSize);
+    } else if (NodeSelection.isSelectable(node)) {
+      selection = NodeSelection.create(doc, nodePos);
+    } else {
+      selection = Selection.near(doc.resolve(nodePos));
     }
-  }, [view, pos, evalExpression, transactionCount]);
+    setPos(Math.max(0, nodePos));
+    view.dispatch(tr.setSelection(selection).scrollIntoView());
+    view.focus();
+  }, [view, setPos]);
 
   if (!view) {
     return (
@@ -123,134 +139,115 @@ const Visualizer: React.FC<VisualizerProps> = ({ view, transactionCount }) => {
 
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         
-         {/* Expression Evaluator Accordion */}
-         <div className="bg-slate-900 rounded-lg border border-slate-800 overflow-hidden">
-             <div 
-                className="flex items-center justify-between p-4 cursor-pointer hover:bg-slate-800/50 transition-colors select-none"
-                onClick={() => setIsEvalExpanded(!isEvalExpanded)}
-            >
-                <div className="flex items-center gap-2 text-slate-400">
-                    <Terminal size={16} />
-                    <span className="text-sm font-medium uppercase tracking-wider">Expression Evaluator</span>
-                </div>
-                {isEvalExpanded ? <ChevronDown size={16} className="text-slate-500" /> : <ChevronRight size={16} className="text-slate-500" />}
-            </div>
-            
-            {isEvalExpanded && (
-                <div className="px-4 pb-4 pt-0 border-t border-slate-800/50 mt-4">
-                    <div className="space-y-3">
-                        <div>
-                            <div className="text-xs text-slate-500 mb-1 flex gap-2">
-                                Available vars:
-                                <code className="text-blue-400">state</code>
-                                <code className="text-blue-400">view</code>
-                                <code className="text-blue-400">node</code>
-                                <code className="text-blue-400">nodeAfter</code>
-                                <code className="text-blue-400">pos</code>
-                                <code className="text-blue-400">resolvedPos</code>
-                            </div>
-                            <input 
-                                type="text" 
-                                value={evalExpression}
-                                onChange={(e) => setEvalExpression(e.target.value)}
-                                className="w-full bg-slate-950 border border-slate-700 rounded p-2 text-sm font-mono text-green-400 focus:outline-none focus:border-blue-500 placeholder-slate-600"
-                                placeholder="e.g. node.childCount"
-                            />
-                        </div>
-                        <div className="bg-slate-950 border border-slate-800 rounded p-3 min-h-[60px]">
-                            <div className="text-xs text-slate-500 mb-1">RESULT</div>
-                            <pre className="text-sm font-mono text-slate-300 whitespace-pre-wrap break-all">
-                                {evalResult}
-                            </pre>
-                        </div>
-                    </div>
-                </div>
-            )}
-        </div>
+        {/* Watch Expressions Accordion */}
+        <Accordion title={`Watch Expressions (${watches.length})`} icon={<Eye size={16} />}>
+            <WatchList
+                view={view}
+                transactionCount={transactionCount}
+                pos={pos}
+                watches={watches}
+                onWatchesChange={onWatchesChange}
+            />
+        </Accordion>
 
         {/* Position Control Accordion */}
-        <div className="bg-slate-900 rounded-lg border border-slate-800 overflow-hidden">
-            <div 
-                className="flex items-center justify-between p-4 cursor-pointer hover:bg-slate-800/50 transition-colors select-none"
-                onClick={() => setIsPosControlExpanded(!isPosControlExpanded)}
-            >
-                <div className="flex items-center gap-2 text-slate-400">
-                    <MapPin size={16} />
-                    <span className="text-sm font-medium uppercase tracking-wider">Document Position</span>
+        <Accordion
+            title="Document Position"
+            icon={<MapPin size={16} />}
+            headerExtra={
+                <div className="flex items-center gap-2 bg-slate-800 px-3 py-1 rounded-md border border-slate-700">
+                    <span className="text-slate-500 text-xs">POS</span>
+                    <input 
+                        type="number" 
+                        value={pos} 
+                        onChange={(e) => {
+                            // Update pos directly, keep tracking ON if it was ON
+                            setPos(parseInt(e.target.value) || 0);
+                        }}
+                        className="bg-transparent text-right w-16 font-mono text-blue-400 focus:outline-none"
+                    />
                 </div>
-                <div className="flex items-center gap-3">
-                    <div 
-                        className="flex items-center gap-2 bg-slate-800 px-3 py-1 rounded-md border border-slate-700"
-                        onClick={(e) => e.stopPropagation()}
-                    >
-                        <span className="text-slate-500 text-xs">POS</span>
-                        <input 
-                            type="number" 
-                            value={pos} 
-                            onChange={(e) => {
-                                // Update pos directly, keep tracking ON if it was ON
-                                setPos(parseInt(e.target.value) || 0);
-                            }}
-                            className="bg-transparent text-right w-16 font-mono text-blue-400 focus:outline-none"
-                        />
-                    </div>
-                    {isPosControlExpanded ? <ChevronDown size={16} className="text-slate-500" /> : <ChevronRight size={16} className="text-slate-500" />}
-                </div>
-            </div>
-
-            {isPosControlExpanded && (
-                <div className="px-4 pb-4 pt-0 border-t border-slate-800/50 mt-4">
-                    {/* Hierarchy Path */}
-                    <div className="space-y-2">
-                        <div className="text-xs text-slate-500 mb-2 mt-2">NODE HIERARCHY</div>
-                        <div className="flex flex-col gap-2">
-                            {hierarchy.map((item, idx) => (
-                                <div key={idx} className="relative flex items-start gap-3 group">
-                                    {idx < hierarchy.length - 1 && (
-                                        <div className="absolute left-[11px] top-6 bottom-[-10px] w-px bg-slate-800 group-last:hidden"></div>
+            }
+        >
+            {/* Hierarchy Path */}
+            <div className="space-y-2">
+                <div className="text-xs text-slate-500 mb-2 mt-2">NODE HIERARCHY</div>
+                <div className="flex flex-col gap-2">
+                    {hierarchy.map((item, idx) => (
+                        <div key={idx} className="relative flex items-start gap-3 group">
+                            {idx < hierarchy.length - 1 && (
+                                <div className="absolute left-[11px] top-6 bottom-[-10px] w-px bg-slate-800 group-last:hidden"></div>
+                            )}
+                            <div className={cn(
+                                "z-10 w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-bold border-2",
+                                idx === hierarchy.length - 1 ? "bg-blue-600 border-blue-400 text-white" : "bg-slate-800 border-slate-600 text-slate-400"
+                            )}>
+                                {idx}
+                            </div>
+                            <div className={cn(
+                                "flex-1 p-3 rounded-md border text-sm transition-colors",
+                                idx === hierarchy.length - 1 ? "bg-slate-800 border-blue-900/50 shadow-md shadow-blue-900/10" : "bg-slate-900/50 border-slate-800"
+                            )}>
+                                <div className="flex items-center justify-between mb-2">
+                                    <span className={cn("font-bold font-mono", idx === hierarchy.length - 1 ? "text-blue-300" : "text-slate-300")}>
+                                        {item.type}
+                                    </span>
+                                    <span className="text-xs font-mono text-slate-500">
+                                        {item.start}-{item.end}
+                                    </span>
+                                </div>
+                                <div className="grid grid-cols-2 gap-2 text-xs text-slate-400">
+                                    {Object.keys(item.attrs).length > 0 && (
+                                        <div className="col-span-2 bg-slate-950/50 p-2 rounded">
+                                            <span className="block text-slate-500 mb-1 text-[10px] uppercase">Attributes</span>
+                                            <pre className="font-mono text-slate-300 overflow-x-auto">
+                                                {JSON.stringify(item.attrs, null, 1).replace(/[\{\}"]/g, '').trim()}
+                                            </pre>
+                                        </div>
                                     )}
-                                    <div className={cn(
-                                        "z-10 w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-bold border-2",
-                                        idx === hierarchy.length - 1 ? "bg-blue-600 border-blue-400 text-white" : "bg-slate-800 border-slate-600 text-slate-400"
-                                    )}>
-                                        {idx}
+                                    <div className="flex items-center gap-1">
+                                        <Hash size={12} /> Size: {item.end - item.start}
                                     </div>
-                                    <div className={cn(
-                                        "flex-1 p-3 rounded-md border text-sm transition-colors",
-                                        idx === hierarchy.length - 1 ? "bg-slate-800 border-blue-900/50 shadow-md shadow-blue-900/10" : "bg-slate-900/50 border-slate-800"
-                                    )}>
-                                        <div className="flex items-center justify-between mb-2">
-                                            <span className={cn("font-bold font-mono", idx === hierarchy.length - 1 ? "text-blue-300" : "text-slate-300")}>
-                                                {item.type}
-                                            </span>
-                                            <span className="text-xs font-mono text-slate-500">
-                                                {item.start}-{item.end}
-                                            </span>
-                                        </div>
-                                        <div className="grid grid-cols-2 gap-2 text-xs text-slate-400">
-                                            {Object.keys(item.attrs).length > 0 && (
-                                                <div className="col-span-2 bg-slate-950/50 p-2 rounded">
-                                                    <span className="block text-slate-500 mb-1 text-[10px] uppercase">Attributes</span>
-                                                    <pre className="font-mono text-slate-300 overflow-x-auto">
-                                                        {JSON.stringify(item.attrs, null, 1).replace(/[\{\}"]/g, '').trim()}
-                                                    </pre>
-                                                </div>
-                                            )}
-                                            <div className="flex items-center gap-1">
-                                                <Hash size={12} /> Size: {item.end - item.start}
-                                            </div>
-                                            <div className="flex items-center gap-1">
-                                                <Type size={12} /> {item.isBlock ? "Block" : item.isInline ? "Inline" : "Unknown"}
-                                            </div>
-                                        </div>
+                                    <div className="flex items-center gap-1">
+                                        <Type size={12} /> {item.isBlock ? "Block" : item.isInline ? "Inline" : "Unknown"}
                                     </div>
                                 </div>
-                            ))}
+                            </div>
                         </div>
-                    </div>
+                    ))}
                 </div>
-            )}
-        </div>
+            </div>
+        </Accordion>
+
+        {/* Plugin State Accordion */}
+        <Accordion title={`Plugin State (${view.state.plugins.filter(plugin => plugin.spec.state).length})`} icon={<Puzzle size={16} />} defaultExpanded={false}>
+            <PluginStates state={view.state} previous={statesRef.current.previous} />
+        </Accordion>
+
+        {/* Decorations Accordion */}
+        <Accordion title="Decorations" icon={<Layers size={16} />} defaultExpanded={false}>
+            <DecorationInspector view={view} transactionCount={transactionCount} pos={pos} />
+        </Accordion>
+
+        {/* DOM Mapping Accordion */}
+        <Accordion title="DOM Mapping" icon={<Code size={16} />} defaultExpanded={false}>
+            <DomMapping view={view} transactionCount={transactionCount} pos={pos} onPosChange={setPos} />
+        </Accordion>
+
+        {/* Content Check Accordion */}
+        <Accordion title="Content Check" icon={<ListChecks size={16} />} defaultExpanded={false}>
+            <ContentValidator view={view} transactionCount={transactionCount} pos={pos} onPosChange={setPos} />
+        </Accordion>
+
+        {/* Collab Clients Accordion */}
+        <Accordion title={`Collab Clients (${collab?.clients.length ?? 0})`} icon={<Users size={16} />} defaultExpanded={false}>
+            <CollabClients network={collab} />
+        </Accordion>
+
+        {/* Document Tree Accordion */}
+        <Accordion title="Document Tree" icon={<ListTree size={16} />}>
+            <DocumentTree state={view.state} pos={pos} onSelectNode={handleSelectNode} />
+        </Accordion>
       </div>
     </div>
   );
@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EditorView } from 'prosemirror-view';
+import { MapPin, Navigation, Plus, Trash2 } from 'lucide-react';
+import { ValueChange, WatchExpression } from '../types';
+import { cn, errorMessage } from '../lib/utils';
+import { formatValue } from '../lib/transactions';
+import { createWatch, diffValues, evaluateExpression, expressionScope, snapshotValue } from '../lib/watch';
+import { CodeDiagnostic, expressionCompletions } from '../lib/codeEditor';
+import CodeEditor from './CodeEditor';
+import ObjectInspector from './ObjectInspector';
+
+interface WatchListProps {
+  view: EditorView;
+  transactionCount: number;
+  // The visualizer's position, used by watches that aren't pinned
+  pos: number;
+  watches: WatchExpression[];
+  onWatchesChange: (watches: WatchExpression[]) => void;
+}
+
+interface WatchResult {
+  ok: boolean;
+  value?: unknown;
+  error?: string;
+  diagnostics: CodeDiagnostic[];
+  // What changed since the previous transaction
+  changes: ValueChange[];
+}
+
+// What a watch evaluated to, kept to compare against after the next transaction
+interface WatchHistory {
+  expression: string;
+  transactionCount: number;
+  current: unknown;
+  previous: unknown;
+}
+
+const NOT_EVALUATED = Symbol('not evaluated');
+const MAX_CHANGES = 20;
+
+const short = (value: unknown) => {
+  const text = formatValue(value, 2);
+  return text.length > 80 ? `${text.slice(0, 79)}…` : text;
+};
+
+const WatchList: React.FC<WatchListProps> = ({ view, transactionCount, pos, watches, onWatchesChange }) => {
+  const [results, setResults] = useState<Record<string, WatchResult>>({});
+  const historyRef = useRef(new Map<string, WatchHistory>());
+  // Values the expressions can use, kept current for autocompletion
+  const scopeRef = useRef<Record<string, unknown>>({});
+  const completions = useMemo(() => expressionCompletions(scopeRef.current), []);
+
+  useEffect(() => {
+    Object.assign(scopeRef.current, expressionScope(view, pos));
+    const history = historyRef.current;
+    const next: Record<string, WatchResult> = {};
+
+    for (const watch of watches) {
+      const result = evaluateExpression(watch.expression, view, watch.pinnedPos ?? pos);
+      const current = 'value' in result ? snapshotValue(result.value) : NOT_EVALUATED;
+
+      // Compare against the value from before the latest transaction. Editing
+      // the expression starts over.
+      const entry = history.get(watch.id);
+      let previous: unknown = NOT_EVALUATED;
+      if (entry && entry.expression === watch.expression) {
+        previous = entry.transactionCount === transactionCount ? entry.previous : entry.current;
+      }
+      history.set(watch.id, { expression: watch.expression, transactionCount, current, previous });
+
+      const comparable = current !== NOT_EVALUATED && previous !== NOT_EVALUATED;
+      next[watch.id] = 'value' in result
+        ? { ok: true, value: result.value, diagnostics: [], changes: comparable ? diffValues(previous, current) : [] }
+        : {
+            ok: false,
+            error: errorMessage(result.error),
+            diagnostics: result.column ? [{ line: 1, column: result.column, severity: 'error', message: errorMessage(result.error) }] : [],
+            changes: [],
+          };
+    }
+
+    for (const id of history.keys()) {
+      if (!watches.some(watch => watch.id === id)) history.delete(id);
+    }
+    setResults(next);
+  }, [view, pos, watches, transactionCount]);
+
+  const updateWatch = (id: string, patch: Partial<WatchExpression>) => {
+    onWatchesChange(watches.map(watch => watch.id === id ? { ...watch, ...patch } : watch));
+  };
+
+  const maxPos = view.state.doc.content.size;
+
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-slate-500 flex flex-wrap gap-x-2">
+        Available vars:
+        <code className="text-blue-400">state</code>
+        <code className="text-blue-400">view</code>
+        <code className="text-blue-400">node</code>
+        <code className="text-blue-400">nodeAfter</code>
+        <code className="text-blue-400">pos</code>
+        <code className="text-blue-400">resolvedPos</code>
+      </div>
+
+      {watches.map(watch => {
+        const result = results[watch.id];
+        const changed = !!result && result.changes.length > 0;
+        return (
+          <div
+            key={watch.id}
+            className={cn(
+              "rounded border p-2 space-y-2 transition-colors",
+              changed ? "border-amber-600/70 bg-amber-950/20" : "border-slate-800 bg-slate-950/50"
+            )}
+          >
+            <div className="flex items-center gap-2">
+              <input
+                value={watch.name}
+                onChange={(e) => updateWatch(watch.id, { name: e.target.value })}
+                placeholder="Name"
+                className="flex-1 min-w-0 bg-transparent text-xs font-medium text-slate-300 focus:outline-none placeholder-slate-600"
+              />
+              {watch.pinnedPos === null ? (
+                <button
+                  onClick={() => updateWatch(watch.id, { pinnedPos: Math.min(pos, maxPos) })}
+                  title="Follows the visualizer position. Click to pin it here."
+                  className="flex items-center gap-1 text-[10px] uppercase text-slate-400 hover:text-white"
+                >
+                  <Navigation size={12} /> pos {Math.min(pos, maxPos)}
+                </button>
+              ) : (
+                <span className="flex items-center gap-1 text-[10px] uppercase text-amber-300">
+                  <button onClick={() => updateWatch(watch.id, { pinnedPos: null })} title="Pinned. Click to follow the visualizer position again.">
+                    <MapPin size={12} />
+                  </button>
+                  pos
+                  <input
+                    type="number"
+                    min={0}
+                    max={maxPos}
+                    value={watch.pinnedPos}
+                    onChange={(e) => updateWatch(watch.id, { pinnedPos: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="bg-transparent w-12 font-mono text-amber-300 focus:outline-none"
+                  />
+                </span>
+              )}
+              <button
+                onClick={() => onWatchesChange(watches.filter(other => other.id !== watch.id))}
+                title="Remove"
+                className="text-slate-500 hover:text-red-400"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+
+            <CodeEditor
+              singleLine
+              value={watch.expression}
+              onChange={(expression) => updateWatch(watch.id, { expression })}
+              extensions={completions}
+              diagnostics={result?.diagnostics}
+              className="[&_.cm-content]:py-1.5"
+            />
+
+            <div className={cn("max-h-64 overflow-y-auto rounded", changed && "ring-1 ring-amber-700/50")}>
+              {!result ? (
+                <span className="text-xs text-slate-600">…</span>
+              ) : result.ok ? (
+                <ObjectInspector value={result.value} />
+              ) : (
+                <pre className="text-sm font-mono text-red-400 whitespace-pre-wrap break-all">{result.error}</pre>
+              )}
+            </div>
+
+            {changed && (
+              <div className="text-xs font-mono space-y-0.5 border-t border-amber-900/40 pt-1.5">
+                {result.changes.slice(0, MAX_CHANGES).map((change, idx) => (
+                  <div key={idx} className="flex gap-2 min-w-0">
+                    <span className="text-slate-400 shrink-0">{change.path}</span>
+                    {change.kind !== 'added' && <span className="text-red-300 line-through truncate">{short(change.before)}</span>}
+                    {change.kind !== 'removed' && <span className="text-green-300 truncate">{short(change.after)}</span>}
+                  </div>
+                ))}
+                {result.changes.length > MAX_CHANGES && (
+                  <div className="text-slate-500 italic">…and {result.changes.length - MAX_CHANGES} more</div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => onWatchesChange([...watches, createWatch('', `watch ${watches.length + 1}`)])}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 rounded-md hover:bg-slate-700 transition-colors"
+      >
+        <Plus size={14} /> Add watch
+      </button>
+    </div>
+  );
+};
+
+export default WatchList;
@@ -0,0 +1,215 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Copy, FolderOpen, Pencil, Save, Trash2 } from 'lucide-react';
+import { LibraryEntry } from '../types';
+import { createEntry, deleteEntry, listEntries, putEntry } from '../lib/library';
+import { diffLines } from '../lib/textDiff';
+import { errorMessage } from '../lib/utils';
+import DiffView from './DiffView';
+
+interface WorkspaceLibraryProps {
+  // Bumped by the parent after it writes to the library (auto snapshots)
+  revision: number;
+  // The applied schema code and current document, or null without an editor
+  getCurrent: () => { schemaCode: string; doc: unknown } | null;
+  onLoad: (entry: LibraryEntry) => void;
+}
+
+const WorkspaceLibrary: React.FC<WorkspaceLibraryProps> = ({ revision, getCurrent, onLoad }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [showAuto, setShowAuto] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  // Up to two entries to diff, in the order they were picked
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const refresh = useCallback(() => {
+    listEntries()
+      .then(list => {
+        setEntries(list);
+        setError(null);
+      })
+      .catch(err => setError(`Couldn't read the library: ${errorMessage(err)}`));
+  }, []);
+
+  useEffect(refresh, [refresh, revision]);
+
+  // Runs a library write, then reloads the list
+  const update = (write: Promise<void>) => {
+    write.then(refresh).catch(err => setError(`Couldn't update the library: ${errorMessage(err)}`));
+  };
+
+  const handleSave = () => {
+    const current = getCurrent();
+    if (!current) return;
+    const entryName = name.trim() || `Workspace ${entries.filter(entry => !entry.auto).length + 1}`;
+    update(putEntry(createEntry({ name: entryName, ...current })));
+    setName('');
+  };
+
+  const handleRename = () => {
+    if (!renaming) return;
+    const entry = entries.find(e => e.id === renaming.id);
+    if (entry && renaming.name.trim()) {
+      update(putEntry({ ...entry, name: renaming.name.trim(), updatedAt: Date.now() }));
+    }
+    setRenaming(null);
+  };
+
+  const handleDuplicate = (entry: LibraryEntry) => {
+    const { name: original, schemaCode, doc, notes } = entry;
+    update(putEntry(createEntry({ name: `${original} (copy)`, schemaCode, doc, notes })));
+  };
+
+  const handleDelete = (entry: LibraryEntry) => {
+    setCompareIds(ids => ids.filter(id => id !== entry.id));
+    update(deleteEntry(entry.id));
+  };
+
+  const handleNotes = (entry: LibraryEntry, notes: string) => {
+    if (notes !== entry.notes) update(putEntry({ ...entry, notes, updatedAt: Date.now() }));
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(ids => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id].slice(-2));
+  };
+
+  const visible = entries.filter(entry => showAuto || !entry.auto);
+  const compared = compareIds.map(id => entries.find(entry => entry.id === id)).filter(Boolean) as LibraryEntry[];
+
+  const diff = useMemo(() => {
+    if (compared.length !== 2) return null;
+    const [before, after] = compared;
+    return {
+      schema: diffLines(before.schemaCode, after.schemaCode),
+      doc: diffLines(JSON.stringify(before.doc, null, 2), JSON.stringify(after.doc, null, 2)),
+    };
+  }, [compared[0], compared[1]]);
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-2">
+        <span className="block text-slate-500 text-[10px] uppercase">Save current workspace</span>
+        <div className="flex gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Name"
+            className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 transition-colors"
+          >
+            <Save size={14} /> Save
+          </button>
+        </div>
+        <p className="text-[11px] text-slate-500">
+          Saves the applied schema code and the document. A snapshot is also taken automatically before each Apply Schema or Reset.
+        </p>
+        {error && <div className="text-xs text-red-400">{error}</div>}
+      </div>
+
+      <div className="bg-slate-900 rounded-lg border border-slate-800 p-3">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs text-slate-500 uppercase tracking-wider font-medium">Library ({visible.length})</span>
+          <label className="flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={showAuto}
+              onChange={(e) => setShowAuto(e.target.checked)}
+              className="rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500"
+            />
+            Auto snapshots
+          </label>
+        </div>
+        {visible.length === 0 ? (
+          <div className="text-xs text-slate-600 italic">Nothing saved yet</div>
+        ) : (
+          <div className="space-y-1.5">
+            {visible.map(entry => (
+              <div key={entry.id} className="text-xs bg-slate-950/50 rounded p-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    title="Compare"
+                    checked={compareIds.includes(entry.id)}
+                    onChange={() => toggleCompare(entry.id)}
+                    className="rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500"
+                  />
+                  {renaming?.id === entry.id ? (
+                    <input
+                      autoFocus
+                      value={renaming.name}
+                      onChange={(e) => setRenaming({ id: entry.id, name: e.target.value })}
+                      onBlur={handleRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename();
+                        if (e.key === 'Escape') setRenaming(null);
+                      }}
+                      className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-1 focus:outline-none focus:border-blue-500"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                      className="flex-1 min-w-0 text-left truncate text-slate-200 hover:text-white"
+                    >
+                      {entry.name}
+                    </button>
+                  )}
+                  {entry.auto && <span className="px-1 rounded bg-slate-800 text-slate-400 text-[10px] uppercase">auto</span>}
+                  <div className="flex items-center gap-1 text-slate-400 shrink-0">
+                    <button onClick={() => onLoad(entry)} title="Load" className="p-1 hover:text-white"><FolderOpen size={14} /></button>
+                    <button onClick={() => setRenaming({ id: entry.id, name: entry.name })} title="Rename" className="p-1 hover:text-white"><Pencil size={14} /></button>
+                    <button onClick={() => handleDuplicate(entry)} title="Duplicate" className="p-1 hover:text-white"><Copy size={14} /></button>
+                    <button onClick={() => handleDelete(entry)} title="Delete" className="p-1 hover:text-red-400"><Trash2 size={14} /></button>
+                  </div>
+                </div>
+                <div className="text-[10px] text-slate-500 mt-0.5 pl-6">{new Date(entry.updatedAt).toLocaleString()}</div>
+                {expandedId === entry.id && (
+                  <div className="mt-2 pl-6 space-y-1">
+                    <span className="block text-slate-500 text-[10px] uppercase">Notes</span>
+                    <textarea
+                      key={entry.updatedAt}
+                      defaultValue={entry.notes}
+                      onBlur={(e) => handleNotes(entry, e.target.value)}
+                      rows={3}
+                      placeholder="What is this workspace for?"
+                      className="w-full bg-slate-950 border border-slate-700 rounded p-2 text-xs focus:outline-none focus:border-blue-500 resize-y"
+                    />
+                    <div className="text-[10px] text-slate-500">
+                      {entry.schemaCode.split('\n').length} lines of schema code, created {new Date(entry.createdAt).toLocaleString()}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {compareIds.length === 1 && (
+          <div className="text-[11px] text-slate-500 mt-2">Tick another entry to compare.</div>
+        )}
+      </div>
+
+      {diff && (
+        <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 space-y-3">
+          <div className="text-xs text-slate-400">
+            <span className="text-red-300">{compared[0].name}</span> → <span className="text-green-300">{compared[1].name}</span>
+          </div>
+          <div>
+            <span className="block text-slate-500 mb-1 text-[10px] uppercase">Schema code</span>
+            <DiffView lines={diff.schema} />
+          </div>
+          <div>
+            <span className="block text-slate-500 mb-1 text-[10px] uppercase">Document JSON</span>
+            <DiffView lines={diff.doc} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceLibrary;
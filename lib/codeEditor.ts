@@ -0,0 +1,325 @@
+import { Extension, EditorState, Text } from '@codemirror/state';
+import {
+  EditorView, keymap, lineNumbers, highlightActiveLine, highlightActiveLineGutter, drawSelection,
+} from '@codemirror/view';
+import { defaultKeymap, history, historyKeymap, indentWithTab } from '@codemirror/commands';
+import { bracketMatching, indentOnInput, syntaxTree, foldGutter, foldKeymap } from '@codemirror/language';
+import {
+  autocompletion, closeBrackets, closeBracketsKeymap, completionKeymap, Completion, CompletionContext, CompletionResult,
+} from '@codemirror/autocomplete';
+import { Diagnostic, lintGutter, lintKeymap } from '@codemirror/lint';
+import { javascript, javascriptLanguage, scopeCompletionSource } from '@codemirror/lang-javascript';
+import { oneDark } from '@codemirror/theme-one-dark';
+import { SyntaxNode } from '@lezer/common';
+import { AttributeSpec, MarkSpec, NodeSpec, StyleParseRule, TagParseRule } from 'prosemirror-model';
+
+// A problem reported against the source, with a 1-based line and column
+export interface CodeDiagnostic {
+  line: number;
+  column?: number;
+  message: string;
+  severity: 'error' | 'warning' | 'info';
+}
+
+const explorerTheme = EditorView.theme({
+  '&': { backgroundColor: '#020617', fontSize: '13px' },
+  '.cm-gutters': { backgroundColor: '#020617', borderRight: '1px solid #1e293b' },
+  '.cm-scroller': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' },
+  '&.cm-focused': { outline: 'none' },
+}, { dark: true });
+
+// Line numbers, brackets, folding, history, completion and lint gutter:
+// roughly CodeMirror's basicSetup, for multi-line code
+export function codeEditorSetup(): Extension {
+  return [
+    lineNumbers(),
+    highlightActiveLineGutter(),
+    foldGutter(),
+    lintGutter(),
+    history(),
+    drawSelection(),
+    indentOnInput(),
+    bracketMatching(),
+    closeBrackets(),
+    autocompletion(),
+    highlightActiveLine(),
+    keymap.of([
+      ...closeBracketsKeymap, ...defaultKeymap, ...historyKeymap, ...foldKeymap,
+      ...completionKeymap, ...lintKeymap, indentWithTab,
+    ]),
+    javascript(),
+    oneDark,
+    explorerTheme,
+  ];
+}
+
+// The same, minus gutters, for one-line inputs. Newlines are rejected so
+// pasted code collapses onto a single line.
+export function singleLineSetup(): Extension {
+  return [
+    history(),
+    drawSelection(),
+    bracketMatching(),
+    closeBrackets(),
+    autocompletion(),
+    keymap.of([...closeBracketsKeymap, ...defaultKeymap, ...historyKeymap, ...completionKeymap]),
+    EditorState.transactionFilter.of(tr => tr.newDoc.lines > 1 ? [] : tr),
+    javascript(),
+    oneDark,
+    explorerTheme,
+  ];
+}
+
+// Convert line/column diagnostics to document offsets, clamped to the
+// current text since it may have been edited after the error was reported
+export function toEditorDiagnostics(doc: Text, diagnostics: CodeDiagnostic[]): Diagnostic[] {
+  return diagnostics.map(diagnostic => {
+    const line = doc.line(Math.max(1, Math.min(diagnostic.line, doc.lines)));
+    const from = diagnostic.column ? Math.min(line.from + diagnostic.column - 1, line.to) : line.from;
+    return { from, to: diagnostic.column ? Math.min(from + 1, line.to) : line.to, severity: diagnostic.severity, message: diagnostic.message };
+  });
+}
+
+// new Function(...params, body) compiles `function anonymous(params\n) {\nbody\n}`,
+// so stack positions inside the body are two lines further down
+const FUNCTION_HEADER_LINES = 2;
+
+// Find where in `code` an error thrown by `new Function(..., code)` (or by
+// calling the result) happened. Runtime errors carry the position in their
+// stack; syntax errors don't, so the code is parsed to find the first error.
+export function locateEvaluationError(error: unknown, code: string): { line: number; column: number } | null {
+  if (error instanceof SyntaxError) {
+    const tree = javascriptLanguage.parser.parse(code);
+    let errorPos = -1;
+    tree.iterate({
+      enter: node => {
+        if (errorPos >= 0) return false;
+        if (node.type.isError) errorPos = node.from;
+      },
+    });
+    if (errorPos < 0) return null;
+    const doc = Text.of(code.split('\n'));
+    const line = doc.lineAt(errorPos);
+    return { line: line.number, column: errorPos - line.from + 1 };
+  }
+
+  const stack = (error as Error | null)?.stack || '';
+  // V8: "at eval (eval at ..., <anonymous>:5:11)"; Firefox: "... > Function:5:11"
+  const match = /<anonymous>:(\d+):(\d+)/.exec(stack) || /Function:(\d+):(\d+)/.exec(stack);
+  if (!match) return null;
+  const line = parseInt(match[1], 10) - FUNCTION_HEADER_LINES;
+  if (line < 1) return null;
+  return { line, column: parseInt(match[2], 10) };
+}
+
+interface SpecKey {
+  label: string;
+  info: string;
+}
+
+// The declared keys of a spec interface, without its `[key: string]: any`
+type DeclaredKeys<T> = keyof { [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K] };
+
+// Spec key docs are keyed by the prosemirror-model interfaces' own keys, so
+// the type-check flags keys an upgrade adds, renames or drops
+type SpecKeyDocs<T> = Record<DeclaredKeys<T>, string>;
+
+const specKeys = (docs: Record<string, string>): SpecKey[] =>
+  Object.entries(docs).map(([label, info]) => ({ label, info }));
+
+const NODE_SPEC_KEYS = specKeys({
+  content: 'Content expression, e.g. "paragraph+" or "inline*"',
+  marks: 'Marks allowed inside: space-separated names or groups, "_" for all, "" for none',
+  group: 'Space-separated groups this node belongs to',
+  inline: 'Whether this is an inline node',
+  atom: 'Treat as a single unit even when it has content',
+  attrs: 'Attribute specs: { name: { default?, validate? } }',
+  selectable: 'Whether the node can be the target of a NodeSelection (default true)',
+  draggable: 'Whether the node can be dragged without being selected',
+  code: 'Whether the node contains code',
+  whitespace: '"pre" or "normal" whitespace handling',
+  definingAsContext: 'Keep this node as context when replacing content',
+  definingForContent: 'Preserve this node type when its content is replaced',
+  defining: 'Shorthand for definingAsContext and definingForContent',
+  isolating: 'Block editing operations from crossing this node\'s boundary',
+  toDOM: '(node) => DOMOutputSpec',
+  parseDOM: 'ParseRule[] used by DOMParser',
+  toDebugString: '(node) => string used by Node.toString',
+  leafText: '(node) => string for leaf nodes in textBetween',
+  linebreakReplacement: 'Marks this node as the schema\'s line break replacement',
+} satisfies SpecKeyDocs<NodeSpec>);
+
+const MARK_SPEC_KEYS = specKeys({
+  attrs: 'Attribute specs: { name: { default?, validate? } }',
+  inclusive: 'Whether the mark extends when typing at its end (default true)',
+  excludes: 'Marks that can\'t coexist with this one; "" for none, "_" for all',
+  group: 'Space-separated groups this mark belongs to',
+  spanning: 'Whether the mark can span multiple adjacent nodes (default true)',
+  code: 'Whether the mark marks code',
+  toDOM: '(mark, inline) => DOMOutputSpec',
+  parseDOM: 'ParseRule[] used by DOMParser',
+} satisfies SpecKeyDocs<MarkSpec>);
+
+const ATTRIBUTE_SPEC_KEYS = specKeys({
+  default: 'Value used when none is given; without it the attribute is required',
+  validate: 'Type list like "number|null", or a function that throws',
+} satisfies SpecKeyDocs<AttributeSpec>);
+
+const PARSE_RULE_KEYS = specKeys({
+  tag: 'CSS selector the DOM element must match',
+  namespace: 'Namespace the element must be in',
+  style: 'CSS property name, optionally with =value, e.g. "font-weight"',
+  priority: 'Higher priority rules are tried first (default 50)',
+  consuming: 'Whether a match prevents further rules from matching (default true)',
+  context: 'Parent node names/groups the rule requires, e.g. "blockquote/"',
+  node: 'Node type to create (implied inside a NodeSpec)',
+  mark: 'Mark type to apply (implied inside a MarkSpec)',
+  ignore: 'Ignore the matched content',
+  closeParent: 'Close the current node when this matches',
+  skip: 'Ignore the node itself, but parse its content',
+  attrs: 'Fixed attributes for the created node or mark',
+  getAttrs: '(dom) => attrs | false | null; false makes the rule not match',
+  contentElement: 'Selector, element or function picking the content element',
+  getContent: '(dom, schema) => Fragment',
+  preserveWhitespace: 'true, false or "full"',
+  clearMark: '(mark) => boolean, for style rules that remove marks',
+} satisfies SpecKeyDocs<TagParseRule & StyleParseRule>);
+
+type SpecKind = 'node' | 'mark' | 'attribute' | 'parseRule';
+
+const SPEC_KEYS: Record<SpecKind, { name: string; keys: SpecKey[] }> = {
+  node: { name: 'NodeSpec', keys: NODE_SPEC_KEYS },
+  mark: { name: 'MarkSpec', keys: MARK_SPEC_KEYS },
+  attribute: { name: 'AttributeSpec', keys: ATTRIBUTE_SPEC_KEYS },
+  parseRule: { name: 'ParseRule', keys: PARSE_RULE_KEYS },
+};
+
+// The name an object literal is bound to: the key of the property or the
+// variable it's the value of. Objects inside arrays take the array's name.
+function ownerName(state: EditorState, object: SyntaxNode): string | null {
+  let node: SyntaxNode = object;
+  if (node.parent?.name === 'ArrayExpression') node = node.parent;
+  const parent = node.parent;
+  if (!parent) return null;
+  if (parent.name === 'Property') {
+    const key = parent.firstChild;
+    if (!key) return null;
+    return state.sliceDoc(key.from, key.to).replace(/^["'`]|["'`]$/g, '');
+  }
+  if (parent.name === 'VariableDeclaration') {
+    let prev = node.prevSibling;
+    while (prev && prev.name !== 'VariableDefinition') prev = prev.prevSibling;
+    return prev ? state.sliceDoc(prev.from, prev.to) : null;
+  }
+  return null;
+}
+
+// Which spec an object literal is, judging by where it sits relative to a
+// `nodes` or `marks` object: `nodes.x`, `nodes.x.attrs.y` or `nodes.x.parseDOM[i]`
+function specKind(state: EditorState, object: SyntaxNode): SpecKind | null {
+  const chain: { node: SyntaxNode; owner: string | null }[] = [];
+  for (let node: SyntaxNode | null = object; node && chain.length < 4; node = node.parent) {
+    if (node.name === 'ObjectExpression') chain.push({ node, owner: ownerName(state, node) });
+  }
+  const collection = (idx: number) => {
+    const owner = chain[idx]?.owner;
+    return owner === 'nodes' ? 'node' : owner === 'marks' ? 'mark' : null;
+  };
+  if (collection(1)) return collection(1);
+  if (collection(2) && chain[0].owner === 'parseDOM') return 'parseRule';
+  if (collection(3) && chain[1].owner === 'attrs') return 'attribute';
+  return null;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = current;
+    }
+  }
+  return row[b.length];
+}
+
+// Spec objects accept arbitrary extra keys (e.g. `tableRole`), so only keys
+// that look like a typo of a known key are flagged
+function likelyTypo(key: string, known: SpecKey[]): string | null {
+  for (const { label } of known) {
+    if (label === key) return null;
+  }
+  for (const { label } of known) {
+    if (label.toLowerCase() === key.toLowerCase()) return label;
+    if (key.length >= 4 && editDistance(label, key) <= 2) return label;
+  }
+  return null;
+}
+
+// Flags misspelled keys in node, mark, attribute and parse rule specs
+export function specKeyDiagnostics(state: EditorState): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  syntaxTree(state).iterate({
+    enter: ref => {
+      if (ref.name !== 'ObjectExpression') return;
+      const object = ref.node;
+      const kind = specKind(state, object);
+      if (!kind) return;
+      const { name, keys } = SPEC_KEYS[kind];
+      for (let prop = object.firstChild; prop; prop = prop.nextSibling) {
+        if (prop.name !== 'Property' || !prop.firstChild) continue;
+        const keyNode = prop.firstChild;
+        const key = state.sliceDoc(keyNode.from, keyNode.to).replace(/^["'`]|["'`]$/g, '');
+        const suggestion = likelyTypo(key, keys);
+        if (!suggestion) continue;
+        diagnostics.push({
+          from: keyNode.from,
+          to: keyNode.to,
+          severity: 'warning',
+          source: name,
+          message: `"${key}" is not ${/^[AEIOU]/.test(name) ? 'an' : 'a'} ${name} property. Did you mean "${suggestion}"?`,
+          actions: [{
+            name: `Use ${suggestion}`,
+            apply: (view, from, to) => view.dispatch({ changes: { from, to, insert: suggestion } }),
+          }],
+        });
+      }
+    },
+  });
+  return diagnostics;
+}
+
+// Completes spec keys when typing a property name inside a spec object
+function specKeyCompletions(context: CompletionContext): CompletionResult | null {
+  const word = context.matchBefore(/[\w$]*/);
+  if (!word) return null;
+  let node: SyntaxNode | null = syntaxTree(context.state).resolveInner(context.pos, -1);
+  // The word being typed is a property name, or nothing yet inside `{ }`
+  if (node.name === 'PropertyDefinition' || node.name === 'VariableName') node = node.parent;
+  if (node?.name === 'Property') node = node.parent;
+  if (!node || node.name !== 'ObjectExpression') return null;
+  // Not after a colon, i.e. we're at a key position
+  if (/:\s*[\w$]*$/.test(context.state.sliceDoc(Math.max(node.from, context.pos - 80), context.pos))) return null;
+
+  const kind = specKind(context.state, node);
+  if (!kind) return null;
+  const { name, keys } = SPEC_KEYS[kind];
+  const options: Completion[] = keys.map(key => ({ label: key.label, type: 'property', detail: name, info: key.info }));
+  return { from: word.from, options, validFor: /^[\w$]*$/ };
+}
+
+// Spec key completion for schema code, plus completion of `Schema` members
+export function schemaCodeCompletions(scope: Record<string, unknown>): Extension {
+  return [
+    javascriptLanguage.data.of({ autocomplete: specKeyCompletions }),
+    javascriptLanguage.data.of({ autocomplete: scopeCompletionSource(scope) }),
+  ];
+}
+
+// Completion of evaluator variables and their properties, read from the live
+// objects. `scope` is mutated by the caller to always hold the current values.
+export function expressionCompletions(scope: Record<string, unknown>): Extension {
+  return javascriptLanguage.data.of({ autocomplete: scopeCompletionSource(scope) });
+}
@@ -0,0 +1,330 @@
+import { Node } from 'prosemirror-model';
+import { EditorState, Transaction } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { Mapping, Step, StepMap } from 'prosemirror-transform';
+import { collab, getVersion, receiveTransaction, sendableSteps } from 'prosemirror-collab';
+import { baseKeymap } from 'prosemirror-commands';
+import { history, redo, undo } from 'prosemirror-history';
+import { keymap } from 'prosemirror-keymap';
+
+// Older handled messages are dropped
+const MAX_HANDLED = 100;
+
+// The central step log every client syncs with, like a collab server would
+// keep it. Its version is the number of steps it has accepted.
+export interface CollabAuthority {
+  doc: Node;
+  steps: Step[];
+  stepClientIDs: (string | number)[];
+}
+
+export type CollabMessageStatus = 'queued' | 'delivered' | 'rejected' | 'dropped';
+
+// A send carries a client's unconfirmed steps to the authority, a receive
+// carries accepted steps from the authority to one client
+export interface CollabMessage {
+  id: number;
+  kind: 'send' | 'receive';
+  // The sender of a send, the recipient of a receive
+  client: string;
+  // The version the steps start at
+  version: number;
+  steps: Step[];
+  clientIDs: (string | number)[];
+  status: CollabMessageStatus;
+  // What handling the message did, or why it was refused
+  note: string;
+}
+
+// What receiveTransaction did to a client's unconfirmed steps
+export interface RebaseInfo {
+  fromVersion: number;
+  toVersion: number;
+  // Steps of the client itself the authority confirmed, and steps of others
+  confirmed: number;
+  remote: number;
+  // The unconfirmed steps before, and the ones left after mapping them over
+  // the remote steps. Steps that no longer apply are lost.
+  before: Step[];
+  after: Step[];
+  lost: number;
+  // The transaction's mapping: the unconfirmed steps undone, the remote
+  // steps, then the rebased steps redone
+  mapping: Mapping;
+}
+
+export interface CollabClient {
+  id: string;
+  state: EditorState;
+  // Set while the client's editor is mounted, and kept in sync with `state`
+  view: EditorView | null;
+  // Held messages wait in the queue until they're delivered by hand
+  holdOutgoing: boolean;
+  holdIncoming: boolean;
+  lastRebase: RebaseInfo | null;
+}
+
+export interface CollabNetwork {
+  authority: CollabAuthority;
+  clients: CollabClient[];
+  // Messages in delivery order
+  queue: CollabMessage[];
+  // Delivered, rejected and dropped messages, newest last
+  handled: CollabMessage[];
+  nextMessage: number;
+  onChange: () => void;
+}
+
+const CLIENT_NAMES = 'ABCDEFGH';
+export const MAX_CLIENTS = CLIENT_NAMES.length;
+
+function clientState(doc: Node, id: string, version: number): EditorState {
+  return EditorState.create({
+    doc,
+    plugins: [
+      collab({ version, clientID: id }),
+      history(),
+      keymap({ 'Mod-z': undo, 'Mod-y': redo, 'Shift-Mod-z': redo }),
+      keymap(baseKeymap),
+    ],
+  });
+}
+
+function createClient(doc: Node, id: string, version = 0): CollabClient {
+  return { id, state: clientState(doc, id, version), view: null, holdOutgoing: false, holdIncoming: false, lastRebase: null };
+}
+
+// Every client starts from the same document at version 0
+export function createNetwork(doc: Node, clientCount: number, onChange: () => void): CollabNetwork {
+  return {
+    authority: { doc, steps: [], stepClientIDs: [] },
+    clients: Array.from({ length: Math.min(clientCount, MAX_CLIENTS) }, (_, idx) => createClient(doc, CLIENT_NAMES[idx])),
+    queue: [],
+    handled: [],
+    nextMessage: 1,
+    onChange,
+  };
+}
+
+// A late client starts from the authority's current document and version
+export function addClient(network: CollabNetwork) {
+  const id = CLIENT_NAMES.split('').find(name => !network.clients.some(client => client.id === name));
+  if (!id) return;
+  const { authority } = network;
+  network.clients.push(createClient(authority.doc, id, authorityVersion(authority)));
+  network.onChange();
+}
+
+export function removeClient(network: CollabNetwork, id: string) {
+  network.clients = network.clients.filter(client => client.id !== id);
+  network.queue = network.queue.filter(message => message.client !== id);
+  network.onChange();
+}
+
+export const authorityVersion = (authority: CollabAuthority) => authority.steps.length;
+
+export const unconfirmedSteps = (client: CollabClient): Step[] => [...(sendableSteps(client.state)?.steps ?? [])];
+
+// Whether the client has seen everything the authority has and has
+// nothing left to send
+export const isInSync = (network: CollabNetwork, client: CollabClient) =>
+  getVersion(client.state) === authorityVersion(network.authority) && !sendableSteps(client.state);
+
+const findClient = (network: CollabNetwork, id: string) => network.clients.find(client => client.id === id);
+
+function setState(client: CollabClient, state: EditorState) {
+  client.state = state;
+  client.view?.updateState(state);
+}
+
+export function isHeld(network: CollabNetwork, message: CollabMessage) {
+  const client = findClient(network, message.client);
+  return !!client && (message.kind === 'send' ? client.holdOutgoing : client.holdIncoming);
+}
+
+function enqueue(network: CollabNetwork, message: Omit<CollabMessage, 'id' | 'status' | 'note'>) {
+  network.queue.push({ ...message, id: network.nextMessage++, status: 'queued', note: '' });
+}
+
+function finish(network: CollabNetwork, message: CollabMessage, status: CollabMessageStatus, note: string) {
+  network.queue = network.queue.filter(queued => queued !== message);
+  network.handled = [...network.handled, { ...message, status, note }].slice(-MAX_HANDLED);
+}
+
+// Queues the client's unconfirmed steps for the authority. A send that's
+// still waiting in the queue is updated instead, since nothing has been
+// sent yet.
+function queueSend(network: CollabNetwork, client: CollabClient) {
+  const sendable = sendableSteps(client.state);
+  if (!sendable) return;
+  const message = {
+    kind: 'send' as const,
+    client: client.id,
+    version: sendable.version,
+    steps: [...sendable.steps],
+    clientIDs: sendable.steps.map(() => sendable.clientID),
+  };
+  const waiting = network.queue.find(queued => queued.kind === 'send' && queued.client === client.id);
+  if (waiting) Object.assign(waiting, message);
+  else enqueue(network, message);
+}
+
+// The authority only accepts steps based on its current version; anything
+// else means the client hasn't seen some steps yet and has to rebase first
+function deliverSend(network: CollabNetwork, message: CollabMessage) {
+  const { authority } = network;
+  const version = authorityVersion(authority);
+  if (message.version !== version) {
+    finish(network, message, 'rejected', `based on v${message.version}, the authority is at v${version}`);
+    return;
+  }
+  let doc = authority.doc;
+  for (const step of message.steps) {
+    const result = step.apply(doc);
+    if (!result.doc) {
+      finish(network, message, 'rejected', `a step doesn't apply: ${result.failed}`);
+      return;
+    }
+    doc = result.doc;
+  }
+  authority.doc = doc;
+  authority.steps.push(...message.steps);
+  authority.stepClientIDs.push(...message.clientIDs);
+  const accepted = authorityVersion(authority);
+  finish(network, message, 'delivered', `accepted as ${accepted === version + 1 ? '' : `v${version + 1}–`}v${accepted}`);
+  for (const client of network.clients) {
+    enqueue(network, { kind: 'receive', client: client.id, version, steps: message.steps, clientIDs: message.clientIDs });
+  }
+}
+
+// Steps the client already has are skipped. Steps past a gap can't be
+// applied; the client has to resync to fill it.
+function deliverReceive(network: CollabNetwork, message: CollabMessage) {
+  const client = findClient(network, message.client);
+  if (!client) return;
+  const version = getVersion(client.state);
+  const offset = version - message.version;
+  if (offset < 0) {
+    finish(network, message, 'rejected', `starts at v${message.version}, the client is at v${version}`);
+    return;
+  }
+  if (offset >= message.steps.length) {
+    finish(network, message, 'delivered', `already at v${version}, nothing new`);
+    return;
+  }
+  const steps = message.steps.slice(offset);
+  const clientIDs = message.clientIDs.slice(offset);
+  applyRemote(client, steps, clientIDs);
+  finish(network, message, 'delivered', `v${version} → v${getVersion(client.state)}`);
+  queueSend(network, client);
+}
+
+function applyRemote(client: CollabClient, steps: Step[], clientIDs: (string | number)[]) {
+  const before = unconfirmedSteps(client);
+  const fromVersion = getVersion(client.state);
+  const tr = receiveTransaction(client.state, steps, clientIDs, { mapSelectionBackward: true });
+  setState(client, client.state.apply(tr));
+  const after = unconfirmedSteps(client);
+  // Confirmed steps are the leading ones carrying the client's own ID
+  let confirmed = 0;
+  while (confirmed < clientIDs.length && clientIDs[confirmed] === client.id) confirmed++;
+  confirmed = Math.min(confirmed, before.length);
+  client.lastRebase = {
+    fromVersion,
+    toVersion: getVersion(client.state),
+    confirmed,
+    remote: steps.length - confirmed,
+    before,
+    after,
+    lost: before.length - confirmed - after.length,
+    mapping: tr.mapping,
+  };
+}
+
+// Delivers queued messages in order until only held ones are left
+function flush(network: CollabNetwork) {
+  for (;;) {
+    const next = network.queue.find(message => !isHeld(network, message));
+    if (!next) break;
+    if (next.kind === 'send') deliverSend(network, next);
+    else deliverReceive(network, next);
+  }
+}
+
+// The client editor's dispatchTransaction
+export function applyLocal(network: CollabNetwork, id: string, tr: Transaction) {
+  const client = findClient(network, id);
+  if (!client) return;
+  setState(client, client.state.apply(tr));
+  if (tr.docChanged) {
+    queueSend(network, client);
+    flush(network);
+  }
+  network.onChange();
+}
+
+// Delivers one message now, held or not
+export function deliverMessage(network: CollabNetwork, id: number) {
+  const message = network.queue.find(queued => queued.id === id);
+  if (!message) return;
+  if (message.kind === 'send') deliverSend(network, message);
+  else deliverReceive(network, message);
+  flush(network);
+  network.onChange();
+}
+
+export function dropMessage(network: CollabNetwork, id: number) {
+  const message = network.queue.find(queued => queued.id === id);
+  if (!message) return;
+  finish(network, message, 'dropped', '');
+  network.onChange();
+}
+
+// Moves a message earlier (-1) or later (1) in the queue
+export function moveMessage(network: CollabNetwork, id: number, offset: -1 | 1) {
+  const index = network.queue.findIndex(queued => queued.id === id);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= network.queue.length) return;
+  const queue = [...network.queue];
+  [queue[index], queue[target]] = [queue[target], queue[index]];
+  network.queue = queue;
+  network.onChange();
+}
+
+export function setHold(network: CollabNetwork, id: string, direction: 'outgoing' | 'incoming', hold: boolean) {
+  const client = findClient(network, id);
+  if (!client) return;
+  if (direction === 'outgoing') client.holdOutgoing = hold;
+  else client.holdIncoming = hold;
+  flush(network);
+  network.onChange();
+}
+
+// Asks the authority for every step since the client's version, like a
+// client polling after it missed messages, and sends any unconfirmed steps
+export function resync(network: CollabNetwork, id: string) {
+  const client = findClient(network, id);
+  if (!client) return;
+  const { authority } = network;
+  const version = getVersion(client.state);
+  if (version < authorityVersion(authority)) {
+    enqueue(network, {
+      kind: 'receive',
+      client: id,
+      version,
+      steps: authority.steps.slice(version),
+      clientIDs: authority.stepClientIDs.slice(version),
+    });
+  } else {
+    queueSend(network, client);
+  }
+  flush(network);
+  network.onChange();
+}
+
+// The changed ranges of a step map, as old → new positions
+export function describeStepMap(map: StepMap): string {
+  const ranges: string[] = [];
+  map.forEach((oldStart, oldEnd, newStart, newEnd) => ranges.push(`${oldStart}–${oldEnd} → ${newStart}–${newEnd}`));
+  return ranges.length ? ranges.join(', ') : 'no change';
+}
@@ -0,0 +1,135 @@
+import * as pmCommands from 'prosemirror-commands';
+import * as pmModel from 'prosemirror-model';
+import * as pmState from 'prosemirror-state';
+import * as pmTransform from 'prosemirror-transform';
+import { Schema } from 'prosemirror-model';
+import { Command, EditorState, Transaction } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { markTypes, nodeTypes } from './schemaInfo';
+import { attributeSpecs } from './migration';
+
+export type CommandSource = 'builtin' | 'schema' | 'custom';
+
+export interface CommandDescriptor {
+  id: string;
+  name: string;
+  source: CommandSource;
+  command: Command;
+}
+
+// The plain commands exported by prosemirror-commands. The parameterized
+// ones (wrapIn, setBlockType, toggleMark) are instantiated per schema type.
+const BUILTIN_COMMANDS: [string, Command][] = [
+  ['deleteSelection', pmCommands.deleteSelection],
+  ['joinBackward', pmCommands.joinBackward],
+  ['joinForward', pmCommands.joinForward],
+  ['joinTextblockBackward', pmCommands.joinTextblockBackward],
+  ['joinTextblockForward', pmCommands.joinTextblockForward],
+  ['selectNodeBackward', pmCommands.selectNodeBackward],
+  ['selectNodeForward', pmCommands.selectNodeForward],
+  ['joinUp', pmCommands.joinUp],
+  ['joinDown', pmCommands.joinDown],
+  ['lift', pmCommands.lift],
+  ['newlineInCode', pmCommands.newlineInCode],
+  ['exitCode', pmCommands.exitCode],
+  ['createParagraphNear', pmCommands.createParagraphNear],
+  ['liftEmptyBlock', pmCommands.liftEmptyBlock],
+  ['splitBlock', pmCommands.splitBlock],
+  ['splitBlockKeepMarks', pmCommands.splitBlockKeepMarks],
+  ['selectParentNode', pmCommands.selectParentNode],
+  ['selectAll', pmCommands.selectAll],
+  ['selectTextblockStart', pmCommands.selectTextblockStart],
+  ['selectTextblockEnd', pmCommands.selectTextblockEnd],
+];
+
+export function builtinCommands(): CommandDescriptor[] {
+  return BUILTIN_COMMANDS.map(([name, command]) => ({ id: `builtin:${name}`, name, source: 'builtin', command }));
+}
+
+// Types with a required attribute can't be created without extra arguments
+const hasRequiredAttrs = (type: pmModel.NodeType | pmModel.MarkType) =>
+  Object.values(attributeSpecs(type)).some(spec => !('default' in spec));
+
+// setBlockType for every textblock, wrapIn for every other block that has
+// content, and toggleMark for every mark
+export function schemaCommands(schema: Schema): CommandDescriptor[] {
+  const result: CommandDescriptor[] = [];
+  for (const type of nodeTypes(schema)) {
+    if (type === schema.topNodeType || !type.isBlock || hasRequiredAttrs(type)) continue;
+    if (type.isTextblock) {
+      result.push({ id: `schema:setBlockType:${type.name}`, name: `setBlockType(${type.name})`, source: 'schema', command: pmCommands.setBlockType(type) });
+    } else if (!type.isLeaf) {
+      result.push({ id: `schema:wrapIn:${type.name}`, name: `wrapIn(${type.name})`, source: 'schema', command: pmCommands.wrapIn(type) });
+    }
+  }
+  for (const type of markTypes(schema)) {
+    if (hasRequiredAttrs(type)) continue;
+    result.push({ id: `schema:toggleMark:${type.name}`, name: `toggleMark(${type.name})`, source: 'schema', command: pmCommands.toggleMark(type) });
+  }
+  return result;
+}
+
+export const DEFAULT_CUSTOM_COMMANDS_CODE = `// Return an object of named commands: (state, dispatch, view) => boolean.
+// Available: schema, commands (prosemirror-commands), model, state, transform
+return {
+  insertHardBreak: (state, dispatch) => {
+    const type = schema.nodes.hard_break;
+    if (!type) return false;
+    if (dispatch) dispatch(state.tr.replaceSelectionWith(type.create()).scrollIntoView());
+    return true;
+  },
+  chainJoinOrLift: commands.chainCommands(commands.joinBackward, commands.lift),
+};
+`;
+
+// The variables custom command code can use
+export function customCommandScope(schema: Schema | null): Record<string, unknown> {
+  return { schema, commands: pmCommands, model: pmModel, state: pmState, transform: pmTransform };
+}
+
+// Evaluate custom command code the same way SchemaEditor evaluates schema code.
+// Throws when the code fails or doesn't return an object of functions.
+export function evaluateCustomCommands(code: string, schema: Schema): CommandDescriptor[] {
+  const scope = customCommandScope(schema);
+  const creator = new Function(...Object.keys(scope), code);
+  const result = creator(...Object.values(scope));
+  if (!result || typeof result !== 'object') {
+    throw new Error('The code must return an object of commands.');
+  }
+  return Object.keys(result).map(name => {
+    if (typeof result[name] !== 'function') throw new Error(`"${name}" is not a function.`);
+    return { id: `custom:${name}`, name, source: 'custom', command: result[name] };
+  });
+}
+
+export type DryRunResult = { applicable: boolean } | { error: Error };
+
+// Calls the command without dispatch, which is how commands report whether
+// they'd apply
+export function dryRun(command: Command, state: EditorState, view: EditorView): DryRunResult {
+  try {
+    return { applicable: !!command(state, undefined, view) };
+  } catch (e: any) {
+    return { error: e instanceof Error ? e : new Error(String(e)) };
+  }
+}
+
+export interface CommandPreview {
+  applicable: boolean;
+  // What the command dispatched, if anything. A command may return true
+  // without dispatching.
+  transaction: Transaction | null;
+  error: Error | null;
+}
+
+// Runs the command with a dispatch that captures the transaction instead of
+// applying it
+export function previewCommand(command: Command, state: EditorState, view: EditorView): CommandPreview {
+  let transaction: Transaction | null = null;
+  try {
+    const applicable = !!command(state, tr => { transaction = tr; }, view);
+    return { applicable, transaction, error: null };
+  } catch (e: any) {
+    return { applicable: false, transaction: null, error: e instanceof Error ? e : new Error(String(e)) };
+  }
+}
@@ -0,0 +1,153 @@
+import { ContentMatch, Fragment, Node, ResolvedPos, Schema, Slice } from 'prosemirror-model';
+import { canJoin, canSplit, findWrapping, insertPoint, ReplaceAroundStep, ReplaceStep, replaceStep, Step } from 'prosemirror-transform';
+import { errorMessage } from './utils';
+
+// What a single ancestor of the position says about the content
+export interface DepthCheck {
+  depth: number;
+  type: string;
+  // The child indexes the content would replace
+  startIndex: number;
+  endIndex: number;
+  canReplace: boolean;
+  // Only for content that is a single node
+  canReplaceWith: boolean | null;
+  // Types that could come next at startIndex, and whether the parent could end there
+  next: string[];
+  validEnd: boolean;
+  // Nodes that would have to go before the content for it to fit, and
+  // between it and the rest of the parent. Null when no fill helps.
+  fillBefore: Fragment | null;
+  fillAfter: Fragment | null;
+  // Wrappers the first node would need here, from ContentMatch.findWrapping
+  wrapping: string[] | null;
+  // canSplit at the position up to this depth, and canJoin around the
+  // ancestor below this depth. Null at the innermost or outermost levels.
+  canSplit: boolean | null;
+  canJoinBefore: boolean | null;
+  canJoinAfter: boolean | null;
+}
+
+export interface ContentReport {
+  from: number;
+  to: number;
+  depths: DepthCheck[];
+  // The step replaceStep fits the slice in with, or null when it can't
+  step: Step | null;
+  // Whether that step had to change the slice, e.g. by closing or wrapping it
+  fitted: boolean;
+  // Why a plain ReplaceStep of the slice fails, i.e. why tr.step() would throw
+  stepError: string | null;
+  // insertPoint for the first node, when the range is empty
+  insertPoint: number | null;
+  // findWrapping of the block range around the position in the first node's type
+  rangeWrapping: string[] | null;
+}
+
+export type ContentInput = { slice: Slice } | { error: string };
+
+// Node JSON, an array of node JSON, or slice JSON with openStart and openEnd
+export function parseContentJSON(schema: Schema, text: string): ContentInput {
+  try {
+    const json = JSON.parse(text);
+    if (Array.isArray(json)) return { slice: new Slice(Fragment.fromJSON(schema, json), 0, 0) };
+    if (json && typeof json === 'object' && !json.type && ('content' in json || 'openStart' in json)) {
+      return { slice: Slice.fromJSON(schema, json) };
+    }
+    return { slice: new Slice(Fragment.from(schema.nodeFromJSON(json)), 0, 0) };
+  } catch (e) {
+    return { error: errorMessage(e) };
+  }
+}
+
+// A node of each type, filled with the least content it needs
+export function sliceFromTypes(schema: Schema, names: string[]): ContentInput {
+  const nodes: Node[] = [];
+  for (const name of names) {
+    const type = schema.nodes[name];
+    if (!type) return { error: `Unknown node type ${name}` };
+    const node = type.isText ? schema.text(name) : type.createAndFill();
+    if (!node) return { error: `${name} can't be created with default content` };
+    nodes.push(node);
+  }
+  return { slice: new Slice(Fragment.from(nodes), 0, 0) };
+}
+
+const nextTypes = (match: ContentMatch) =>
+  Array.from({ length: match.edgeCount }, (_, idx) => match.edge(idx).type.name);
+
+function checkDepth(doc: Node, $from: ResolvedPos, $to: ResolvedPos, depth: number, content: Fragment): DepthCheck {
+  const parent = $from.node(depth);
+  const startIndex = $from.index(depth);
+  // At the innermost level the range's own children are replaced, further
+  // out the ancestors holding it
+  const endIndex = depth === $from.depth ? Math.max(startIndex, $to.index(depth)) : $to.indexAfter(depth);
+  const single = content.childCount === 1 ? content.firstChild! : null;
+  const match = parent.contentMatchAt(startIndex);
+
+  const fillBefore = match.fillBefore(content);
+  let fillAfter: Fragment | null = null;
+  const afterContent = fillBefore && match.matchFragment(fillBefore.append(content));
+  if (afterContent) {
+    const rest: Node[] = [];
+    for (let idx = endIndex; idx < parent.childCount; idx++) rest.push(parent.child(idx));
+    fillAfter = afterContent.fillBefore(Fragment.from(rest), true);
+  }
+  const wrapping = content.firstChild ? match.findWrapping(content.firstChild.type) : null;
+  const inner = depth < $from.depth;
+
+  return {
+    depth,
+    type: parent.type.name,
+    startIndex,
+    endIndex,
+    canReplace: parent.canReplace(startIndex, endIndex, content),
+    canReplaceWith: single ? parent.canReplaceWith(startIndex, endIndex, single.type, single.marks) : null,
+    next: nextTypes(match),
+    validEnd: match.validEnd,
+    fillBefore,
+    fillAfter,
+    wrapping: wrapping && wrapping.map(type => type.name),
+    canSplit: depth > 0 ? canSplit(doc, $from.pos, $from.depth - depth + 1) : null,
+    canJoinBefore: inner ? canJoin(doc, $from.before(depth + 1)) : null,
+    canJoinAfter: inner ? canJoin(doc, $from.after(depth + 1)) : null,
+  };
+}
+
+// Everything the model and transform helpers say about putting the slice
+// between `from` and `to`, at each depth the two positions share
+export function checkContent(doc: Node, from: number, to: number, slice: Slice): ContentReport {
+  const $from = doc.resolve(from);
+  const $to = doc.resolve(to);
+  const shared = $from.sharedDepth(to);
+  const depths: DepthCheck[] = [];
+  for (let depth = shared; depth >= 0; depth--) depths.push(checkDepth(doc, $from, $to, depth, slice.content));
+
+  const step = replaceStep(doc, from, to, slice);
+  let stepError: string | null = null;
+  try {
+    const result = new ReplaceStep(from, to, slice).apply(doc);
+    stepError = result.failed;
+  } catch (e) {
+    stepError = errorMessage(e);
+  }
+
+  const first = slice.content.firstChild;
+  const range = $from.blockRange($to);
+  let rangeWrapping: string[] | null = null;
+  if (first && range && !first.isInline) {
+    const wrappers = findWrapping(range, first.type, first.attrs);
+    rangeWrapping = wrappers && wrappers.map(wrapper => wrapper.type.name);
+  }
+
+  return {
+    from,
+    to,
+    depths,
+    step,
+    fitted: (step instanceof ReplaceStep || step instanceof ReplaceAroundStep) && !step.slice.eq(slice),
+    stepError,
+    insertPoint: first && from === to ? insertPoint(doc, from, first.type) : null,
+    rangeWrapping,
+  };
+}
@@ -0,0 +1,81 @@
+import { EditorState } from 'prosemirror-state';
+import { Decoration, DecorationSource, EditorView } from 'prosemirror-view';
+import { pluginLabel } from './plugins';
+import { decorationAttrs, isInlineDecoration, isWidgetDecoration } from './internals';
+import { errorMessage } from './utils';
+
+export type DecorationKind = 'inline' | 'node' | 'widget';
+
+export interface DecorationInfo {
+  kind: DecorationKind;
+  from: number;
+  to: number;
+  // DOM attributes for inline and node decorations
+  attrs: Record<string, string> | null;
+  spec: Record<string, unknown>;
+  decoration: Decoration;
+}
+
+export interface DecorationGroupInfo {
+  // Plugin label, or "view props" for decorations passed to the view itself
+  source: string;
+  decorations: DecorationInfo[];
+  // When the decorations prop threw
+  error: string | null;
+}
+
+export function decorationKind(decoration: Decoration): DecorationKind {
+  if (isInlineDecoration(decoration)) return 'inline';
+  if (isWidgetDecoration(decoration)) return 'widget';
+  return 'node';
+}
+
+export function describeDecoration(decoration: Decoration): DecorationInfo {
+  const kind = decorationKind(decoration);
+  return {
+    kind,
+    from: decoration.from,
+    to: decoration.to,
+    attrs: kind === 'widget' ? null : decorationAttrs(decoration),
+    spec: decoration.spec || {},
+    decoration,
+  };
+}
+
+// A DecorationSource is either a DecorationSet or a group of them
+function sourceDecorations(source: DecorationSource | null | undefined): Decoration[] {
+  if (!source) return [];
+  const decorations: Decoration[] = [];
+  source.forEachSet(set => decorations.push(...set.find()));
+  return decorations;
+}
+
+// Every `decorations` prop the view consults, in the order it consults them:
+// the view's own props, plugins passed to the view, then state plugins
+export function collectDecorations(view: EditorView): DecorationGroupInfo[] {
+  const sources: { source: string; decorations: ((state: EditorState) => DecorationSource | null | undefined) | undefined }[] = [
+    { source: 'view props', decorations: view.props.decorations },
+    ...(view.props.plugins || []).map(plugin => ({ source: pluginLabel(plugin), decorations: plugin.props.decorations })),
+    ...view.state.plugins.map(plugin => ({ source: pluginLabel(plugin), decorations: plugin.props.decorations })),
+  ];
+
+  const groups: DecorationGroupInfo[] = [];
+  for (const { source, decorations } of sources) {
+    if (!decorations) continue;
+    try {
+      const found = sourceDecorations(decorations(view.state))
+        .map(describeDecoration)
+        .sort((a, b) => a.from - b.from || a.to - b.to);
+      groups.push({ source, decorations: found, error: null });
+    } catch (e) {
+      groups.push({ source, decorations: [], error: errorMessage(e) });
+    }
+  }
+  return groups;
+}
+
+// Whether a decoration applies at `pos`. Widgets sit exactly at a position;
+// inline and node decorations cover their range, ends included.
+export function decorationCovers(info: DecorationInfo, pos: number): boolean {
+  return info.kind === 'widget' ? info.from === pos : info.from <= pos && pos <= info.to;
+}
@@ -0,0 +1,404 @@
+import { Fragment, Mark, Node } from 'prosemirror-model';
+import { Selection } from 'prosemirror-state';
+import { Step, Transform } from 'prosemirror-transform';
+import { Decoration, DecorationSet } from 'prosemirror-view';
+import { ValueChange } from '../types';
+import { describeMark } from './transactions';
+import { diffValues } from './watch';
+
+// Beyond this many alignment cells a changed range is shown as deleted and
+// inserted as a whole instead of being aligned
+const MAX_ALIGN_CELLS = 1_000_000;
+
+export type DiffStatus = 'same' | 'inserted' | 'deleted' | 'modified';
+
+// A run of inline content in a changed textblock
+export interface InlineSegment {
+  status: 'same' | 'inserted' | 'deleted' | 'marks';
+  // The text, with inline nodes shown as `<type>`
+  text: string;
+  // Range in the old document (empty when inserted) and in the new one
+  // (empty when deleted)
+  fromA: number;
+  toA: number;
+  fromB: number;
+  toB: number;
+  marksA: readonly Mark[];
+  marksB: readonly Mark[];
+}
+
+export interface DiffNode {
+  status: DiffStatus;
+  // The node in each document, null on the side it's missing from
+  nodeA: Node | null;
+  nodeB: Node | null;
+  // Positions before the node, -1 for the doc itself. On the side the node
+  // is missing from, the position it was deleted at or would be inserted at.
+  posA: number;
+  posB: number;
+  // Changed attributes and node marks (under `marks`)
+  attrChanges: ValueChange[];
+  // Child diffs of a modified node, or null when it has inline content
+  children: DiffNode[] | null;
+  inline: InlineSegment[] | null;
+}
+
+export interface DiffCounts {
+  insertedNodes: number;
+  deletedNodes: number;
+  changedNodes: number;
+  insertedText: number;
+  deletedText: number;
+  markRanges: number;
+}
+
+export interface DiffSteps {
+  steps: Step[];
+  // Set when the steps built from the diff didn't reproduce the new document
+  // and the single replace between findDiffStart and findDiffEnd is shown
+  fallback: boolean;
+  // The mapping of the steps, for mapping the old selection
+  transform: Transform;
+}
+
+// The changed range at the top level, as findDiffStart/findDiffEnd report it
+export interface ChangedRange {
+  start: number;
+  endA: number;
+  endB: number;
+}
+
+export function changedRange(a: Node, b: Node): ChangedRange | null {
+  const start = a.content.findDiffStart(b.content);
+  if (start === null) return null;
+  let { a: endA, b: endB } = a.content.findDiffEnd(b.content)!;
+  // Repeated content can make the end scan run past the start
+  const overlap = start - Math.min(endA, endB);
+  if (overlap > 0) {
+    endA += overlap;
+    endB += overlap;
+  }
+  return { start, endA, endB };
+}
+
+function marksDiff(a: readonly Mark[], b: readonly Mark[]): ValueChange[] {
+  if (Mark.sameSet(a, b)) return [];
+  return [{ path: 'marks', kind: 'changed', before: a.map(describeMark), after: b.map(describeMark) }];
+}
+
+// Longest common subsequence of two lists, weighted by `score` (0 for items
+// that can't be paired). Returns pairs of indices in order. A common prefix
+// and suffix (items scoring `same`) are paired without the quadratic part;
+// beyond that, lists too long to align come back unpaired.
+function align<T>(a: T[], b: T[], score: (x: T, y: T) => number, same: number): [number, number][] {
+  let start = 0;
+  while (start < a.length && start < b.length && score(a[start], b[start]) === same) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && score(a[endA - 1], b[endB - 1]) === same) {
+    endA--;
+    endB--;
+  }
+
+  const pairs: [number, number][] = [];
+  for (let k = 0; k < start; k++) pairs.push([k, k]);
+  const midA = endA - start;
+  const midB = endB - start;
+  if (midA * midB <= MAX_ALIGN_CELLS) {
+    // best[i][j] = best total score of the middle parts from a[start + i] and b[start + j]
+    const best = Array.from({ length: midA + 1 }, () => new Uint32Array(midB + 1));
+    for (let i = midA - 1; i >= 0; i--) {
+      for (let j = midB - 1; j >= 0; j--) {
+        const pair = score(a[start + i], b[start + j]);
+        best[i][j] = Math.max(best[i + 1][j], best[i][j + 1], pair ? best[i + 1][j + 1] + pair : 0);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA && j < midB) {
+      const pair = score(a[start + i], b[start + j]);
+      if (pair && best[i][j] === best[i + 1][j + 1] + pair) pairs.push([start + i++, start + j++]);
+      else if (best[i + 1][j] >= best[i][j + 1]) i++;
+      else j++;
+    }
+  }
+  for (let k = 0; k < a.length - endA; k++) pairs.push([endA + k, endB + k]);
+  return pairs;
+}
+
+// Identical nodes pair up before nodes that merely share a type
+const SAME_NODE = 4;
+const nodeScore = (a: Node, b: Node) => a.eq(b) ? SAME_NODE : a.type === b.type ? 1 : 0;
+
+// A deleted and an inserted node with the same content, e.g. after
+// setBlockType, are shown as one changed node
+const sameContent = (a: Node, b: Node) =>
+  !a.isLeaf && !b.isLeaf && a.inlineContent === b.inlineContent && a.content.eq(b.content);
+
+function sameNode(node: Node, pos: number, posB: number): DiffNode {
+  return { status: 'same', nodeA: node, nodeB: node, posA: pos, posB, attrChanges: [], children: null, inline: null };
+}
+
+function diffFragments(a: Fragment, b: Fragment, startA: number, startB: number): DiffNode[] {
+  const childrenA: Node[] = [];
+  const childrenB: Node[] = [];
+  a.forEach(child => childrenA.push(child));
+  b.forEach(child => childrenB.push(child));
+
+  const pairs = align(childrenA, childrenB, nodeScore, SAME_NODE);
+  const result: DiffNode[] = [];
+  let i = 0;
+  let j = 0;
+  let posA = startA;
+  let posB = startB;
+
+  // Everything between two paired nodes was deleted or inserted
+  const flushGap = (endI: number, endJ: number) => {
+    const deleted: DiffNode[] = [];
+    const inserted: DiffNode[] = [];
+    for (; i < endI; i++) {
+      deleted.push({ status: 'deleted', nodeA: childrenA[i], nodeB: null, posA, posB, attrChanges: [], children: null, inline: null });
+      posA += childrenA[i].nodeSize;
+    }
+    const gapEndA = posA;
+    for (; j < endJ; j++) {
+      inserted.push({ status: 'inserted', nodeA: null, nodeB: childrenB[j], posA: gapEndA, posB, attrChanges: [], children: null, inline: null });
+      posB += childrenB[j].nodeSize;
+    }
+    // Pair up retyped nodes when the runs line up one to one
+    if (deleted.length === inserted.length && deleted.every((node, k) => sameContent(node.nodeA!, inserted[k].nodeB!))) {
+      deleted.forEach((node, k) => result.push(diffNodes(node.nodeA!, inserted[k].nodeB!, node.posA, inserted[k].posB)));
+    } else {
+      result.push(...deleted, ...inserted);
+    }
+  };
+
+  for (const [pairI, pairJ] of pairs) {
+    flushGap(pairI, pairJ);
+    result.push(diffNodes(childrenA[i], childrenB[j], posA, posB));
+    posA += childrenA[i++].nodeSize;
+    posB += childrenB[j++].nodeSize;
+  }
+  flushGap(childrenA.length, childrenB.length);
+  return result;
+}
+
+interface InlineUnit {
+  // Compared to align the content; marks aren't part of it
+  key: string;
+  text: string;
+  size: number;
+  marks: readonly Mark[];
+}
+
+function inlineUnits(fragment: Fragment): InlineUnit[] {
+  const units: InlineUnit[] = [];
+  fragment.forEach(node => {
+    if (node.isText) {
+      for (const char of node.text!.split('')) units.push({ key: char, text: char, size: 1, marks: node.marks });
+    } else {
+      const { marks, ...json } = node.toJSON();
+      units.push({ key: `\uFFFC${JSON.stringify(json)}`, text: `<${node.type.name}>`, size: node.nodeSize, marks: node.marks });
+    }
+  });
+  return units;
+}
+
+function diffInline(a: Fragment, b: Fragment, startA: number, startB: number): InlineSegment[] {
+  const unitsA = inlineUnits(a);
+  const unitsB = inlineUnits(b);
+  const pairs = align(unitsA, unitsB, (x, y) => x.key === y.key ? 1 : 0, 1);
+  const segments: InlineSegment[] = [];
+  let posA = startA;
+  let posB = startB;
+
+  // Extends the last segment when the unit continues it
+  const push = (status: InlineSegment['status'], unitA: InlineUnit | null, unitB: InlineUnit | null) => {
+    const marksA = unitA?.marks ?? Mark.none;
+    const marksB = unitB?.marks ?? Mark.none;
+    const last = segments[segments.length - 1];
+    if (last && last.status === status && Mark.sameSet(last.marksA, marksA) && Mark.sameSet(last.marksB, marksB)) {
+      last.text += (unitA ?? unitB)!.text;
+    } else {
+      segments.push({ status, text: (unitA ?? unitB)!.text, fromA: posA, toA: posA, fromB: posB, toB: posB, marksA, marksB });
+    }
+    const segment = segments[segments.length - 1];
+    if (unitA) segment.toA = posA += unitA.size;
+    if (unitB) segment.toB = posB += unitB.size;
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const [pairI, pairJ] of [...pairs, [unitsA.length, unitsB.length]]) {
+    while (i < pairI) push('deleted', unitsA[i++], null);
+    while (j < pairJ) push('inserted', null, unitsB[j++]);
+    if (i < unitsA.length && j < unitsB.length) {
+      const unitA = unitsA[i++];
+      const unitB = unitsB[j++];
+      push(Mark.sameSet(unitA.marks, unitB.marks) ? 'same' : 'marks', unitA, unitB);
+    }
+  }
+  return segments;
+}
+
+// Structural diff of two nodes, which are compared in place (they're assumed
+// to correspond to each other, like two versions of a document)
+export function diffNodes(a: Node, b: Node, posA = -1, posB = -1): DiffNode {
+  if (a.eq(b)) return sameNode(a, posA, posB);
+  const attrChanges = [...diffValues(a.attrs, b.attrs), ...marksDiff(a.marks, b.marks)];
+  const inline = a.inlineContent && b.inlineContent;
+  return {
+    status: 'modified', nodeA: a, nodeB: b, posA, posB, attrChanges,
+    children: inline ? null : diffFragments(a.content, b.content, posA + 1, posB + 1),
+    inline: inline ? diffInline(a.content, b.content, posA + 1, posB + 1) : null,
+  };
+}
+
+export function countChanges(diff: DiffNode): DiffCounts {
+  const counts: DiffCounts = { insertedNodes: 0, deletedNodes: 0, changedNodes: 0, insertedText: 0, deletedText: 0, markRanges: 0 };
+  const walk = (node: DiffNode) => {
+    if (node.status === 'inserted') counts.insertedNodes++;
+    if (node.status === 'deleted') counts.deletedNodes++;
+    if (node.status !== 'modified') return;
+    if (node.attrChanges.length > 0 || node.nodeA!.type !== node.nodeB!.type) counts.changedNodes++;
+    node.children?.forEach(walk);
+    node.inline?.forEach(segment => {
+      if (segment.status === 'inserted') counts.insertedText += segment.toB - segment.fromB;
+      if (segment.status === 'deleted') counts.deletedText += segment.toA - segment.fromA;
+      if (segment.status === 'marks') counts.markRanges++;
+    });
+  };
+  walk(diff);
+  return counts;
+}
+
+// Steps that turn the old document into the new one: mark and attribute
+// steps where only those changed, and replace steps for each run of deleted
+// and inserted content. When they don't reproduce the new document, the
+// single replace over the changed range is returned instead.
+export function diffSteps(diff: DiffNode): DiffSteps {
+  const a = diff.nodeA!;
+  const b = diff.nodeB!;
+  const tr = new Transform(a);
+  const map = (pos: number) => tr.mapping.map(pos);
+
+  // Replaces a run of deleted and inserted siblings
+  const replaceRun = (fromA: number, toA: number, fromB: number, toB: number) => {
+    tr.replace(map(fromA), map(toA), b.slice(fromB, toB));
+  };
+
+  const walk = (node: DiffNode) => {
+    if (node.status !== 'modified') return;
+    const nodeA = node.nodeA!;
+    const nodeB = node.nodeB!;
+    const changedAttrs = Object.keys(nodeB.attrs)
+      .filter(key => JSON.stringify(nodeA.attrs[key]) !== JSON.stringify(nodeB.attrs[key]));
+    if (node.posA < 0) {
+      changedAttrs.forEach(key => tr.setDocAttribute(key, nodeB.attrs[key]));
+    } else if (nodeA.type !== nodeB.type) {
+      tr.setNodeMarkup(map(node.posA), nodeB.type, nodeB.attrs, nodeB.marks);
+    } else {
+      changedAttrs.forEach(key => tr.setNodeAttribute(map(node.posA), key, nodeB.attrs[key]));
+      if (!Mark.sameSet(nodeA.marks, nodeB.marks)) {
+        nodeA.marks.forEach(mark => { if (!mark.isInSet(nodeB.marks)) tr.removeNodeMark(map(node.posA), mark); });
+        nodeB.marks.forEach(mark => { if (!mark.isInSet(nodeA.marks)) tr.addNodeMark(map(node.posA), mark); });
+      }
+    }
+
+    if (node.children) {
+      let run: DiffNode[] = [];
+      const flush = () => {
+        if (run.length === 0) return;
+        const last = run[run.length - 1];
+        const endA = last.nodeA ? last.posA + last.nodeA.nodeSize : last.posA;
+        const endB = last.nodeB ? last.posB + last.nodeB.nodeSize : last.posB;
+        replaceRun(run[0].posA, endA, run[0].posB, endB);
+        run = [];
+      };
+      for (const child of node.children) {
+        if (child.status === 'inserted' || child.status === 'deleted') {
+          run.push(child);
+          continue;
+        }
+        flush();
+        walk(child);
+      }
+      flush();
+    }
+
+    if (node.inline) {
+      let run: InlineSegment[] = [];
+      const flush = () => {
+        if (run.length === 0) return;
+        const last = run[run.length - 1];
+        replaceRun(run[0].fromA, last.toA, run[0].fromB, last.toB);
+        run = [];
+      };
+      for (const segment of node.inline) {
+        if (segment.status === 'inserted' || segment.status === 'deleted') {
+          run.push(segment);
+          continue;
+        }
+        flush();
+        if (segment.status === 'marks') {
+          const from = map(segment.fromA);
+          const to = map(segment.toA);
+          segment.marksA.forEach(mark => { if (!mark.isInSet(segment.marksB)) tr.removeMark(from, to, mark); });
+          segment.marksB.forEach(mark => { if (!mark.isInSet(segment.marksA)) tr.addMark(from, to, mark); });
+        }
+      }
+      flush();
+    }
+  };
+
+  try {
+    walk(diff);
+    if (tr.doc.eq(b)) return { steps: tr.steps, fallback: false, transform: tr };
+  } catch {
+    // Falls through to the single replace
+  }
+
+  const fallback = new Transform(a);
+  const range = changedRange(a, b);
+  if (range) fallback.replace(range.start, range.endA, b.slice(range.start, range.endB));
+  return { steps: fallback.steps, fallback: true, transform: fallback };
+}
+
+// The old selection mapped through the diff's steps, or null when it can't
+// be mapped into the new document
+export function mapSelection(selection: Selection, steps: DiffSteps): Selection | null {
+  try {
+    return selection.map(steps.transform.doc, steps.transform.mapping);
+  } catch {
+    return null;
+  }
+}
+
+// Decorations marking the diff in a rendering of one side's document: what
+// was deleted in the old one, what was inserted in the new one, and changed
+// nodes and marks in both
+export function diffDecorations(diff: DiffNode, side: 'a' | 'b'): DecorationSet {
+  const doc = side === 'a' ? diff.nodeA! : diff.nodeB!;
+  const removed = side === 'a' ? 'deleted' : 'inserted';
+  const decorations: Decoration[] = [];
+  const walk = (node: DiffNode) => {
+    const pos = side === 'a' ? node.posA : node.posB;
+    const own = side === 'a' ? node.nodeA : node.nodeB;
+    if (node.status === removed) {
+      decorations.push(Decoration.node(pos, pos + own!.nodeSize, { class: `pm-diff-${removed}` }));
+    }
+    if (node.status !== 'modified') return;
+    if (pos >= 0 && (node.attrChanges.length > 0 || node.nodeA!.type !== node.nodeB!.type)) {
+      decorations.push(Decoration.node(pos, pos + own!.nodeSize, { class: 'pm-diff-changed' }));
+    }
+    node.children?.forEach(walk);
+    node.inline?.forEach(segment => {
+      const from = side === 'a' ? segment.fromA : segment.fromB;
+      const to = side === 'a' ? segment.toA : segment.toB;
+      if (segment.status === removed) decorations.push(Decoration.inline(from, to, { class: `pm-diff-${removed}` }));
+      if (segment.status === 'marks') decorations.push(Decoration.inline(from, to, { class: 'pm-diff-marks' }));
+    });
+  };
+  walk(diff);
+  return DecorationSet.create(doc, decorations);
+}
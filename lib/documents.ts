@@ -0,0 +1,39 @@
+import { DOMParser, DOMSerializer, Fragment, Node, Schema, Slice } from 'prosemirror-model';
+import { EditorState, Selection, Transaction } from 'prosemirror-state';
+
+// Parse a document from the output of Node.toJSON(). Throws when the JSON
+// references unknown types or doesn't satisfy the schema's content rules.
+export function parseDocumentJSON(schema: Schema, text: string): Node {
+  const doc = schema.nodeFromJSON(JSON.parse(text));
+  if (doc.type !== schema.topNodeType) {
+    throw new RangeError(`Expected a "${schema.topNodeType.name}" node at the top level, got "${doc.type.name}".`);
+  }
+  doc.check();
+  return doc;
+}
+
+// Parse a document from HTML with the schema's parse rules
+export function parseDocumentHTML(schema: Schema, html: string): Node {
+  const element = document.createElement('div');
+  element.innerHTML = html;
+  const doc = DOMParser.fromSchema(schema).parse(element);
+  doc.check();
+  return doc;
+}
+
+export function serializeFragmentHTML(schema: Schema, fragment: Fragment): string {
+  const element = document.createElement('div');
+  element.appendChild(DOMSerializer.fromSchema(schema).serializeFragment(fragment));
+  return element.innerHTML;
+}
+
+// Build a transaction that swaps the whole document for `doc`. Going through a
+// transaction (instead of creating a fresh state) keeps plugin state and undo
+// history intact and shows the load in the transaction log.
+export function replaceDocument(state: EditorState, doc: Node): Transaction {
+  const tr = state.tr.replace(0, state.doc.content.size, new Slice(doc.content, 0, 0));
+  for (const [name, value] of Object.entries(doc.attrs)) {
+    if (tr.doc.attrs[name] !== value) tr.setDocAttribute(name, value);
+  }
+  return tr.setSelection(Selection.atStart(tr.doc));
+}
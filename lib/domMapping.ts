@@ -0,0 +1,212 @@
+import { DOMParser, DOMSerializer, Node } from 'prosemirror-model';
+import { EditorView } from 'prosemirror-view';
+import { NodeInfo } from '../types';
+import { matchParseRule, nearestNodePos } from './internals';
+import { errorMessage } from './utils';
+
+type DOMNode = globalThis.Node;
+
+// The audit stops reporting here
+const MAX_ISSUES = 100;
+
+// Elements the HTML content model only allows in certain parents
+const EXPECTED_PARENTS: Record<string, string[]> = {
+  TD: ['TR'],
+  TH: ['TR'],
+  TR: ['TABLE', 'THEAD', 'TBODY', 'TFOOT'],
+  THEAD: ['TABLE'],
+  TBODY: ['TABLE'],
+  TFOOT: ['TABLE'],
+  CAPTION: ['TABLE'],
+  LI: ['UL', 'OL', 'MENU'],
+  DT: ['DL'],
+  DD: ['DL'],
+};
+const INLINE_TAGS = new Set(['SPAN', 'A', 'EM', 'STRONG', 'B', 'I', 'U', 'S', 'CODE', 'SUB', 'SUP', 'MARK', 'SMALL', 'LABEL']);
+// Elements that can only hold phrasing content once serialized to HTML
+const PHRASING_TAGS = new Set(['P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'PRE']);
+
+export interface DomTarget {
+  dom: DOMNode;
+  description: string;
+  // view.posAtDOM(dom, 0)
+  pos: number | null;
+  // The innermost document node rendering the DOM node
+  nodePos: number | null;
+  info: NodeInfo | null;
+}
+
+export interface DomAtPosInfo {
+  node: DOMNode;
+  offset: number;
+  description: string;
+}
+
+export interface CoordsInfo {
+  side: -1 | 1;
+  rect: DOMRect;
+}
+
+export interface DomIssue {
+  pos: number;
+  type: string;
+  message: string;
+}
+
+export function describeDOMNode(dom: DOMNode): string {
+  if (dom.nodeType === 3) {
+    const text = dom.nodeValue ?? '';
+    return `#text "${text.length > 30 ? `${text.slice(0, 29)}…` : text}"`;
+  }
+  if (!(dom instanceof Element)) return dom.nodeName.toLowerCase();
+  const attrs = Array.from(dom.attributes).map(attr => ` ${attr.name}="${attr.value}"`).join('');
+  return `<${dom.nodeName.toLowerCase()}${attrs}>`;
+}
+
+// The document node starting at `pos`, described like the visualizer's
+// hierarchy, or the doc itself for -1
+export function nodeInfoAt(doc: Node, pos: number): NodeInfo | null {
+  const node = pos < 0 ? doc : doc.nodeAt(pos);
+  if (!node) return null;
+  const leaf = node.isLeaf;
+  return {
+    type: node.type.name,
+    start: pos < 0 ? 0 : leaf ? pos : pos + 1,
+    end: pos < 0 ? doc.content.size : leaf ? pos + node.nodeSize : pos + node.nodeSize - 1,
+    depth: pos < 0 ? 0 : doc.resolve(pos).depth + 1,
+    attrs: node.attrs,
+    isBlock: node.isBlock,
+    isInline: node.isInline,
+    isText: node.isText,
+    text: node.isText ? node.text : undefined,
+  };
+}
+
+// Where a DOM node inside the editor maps to in the document
+export function inspectDOM(view: EditorView, dom: DOMNode): DomTarget {
+  let pos: number | null = null;
+  try {
+    pos = view.posAtDOM(dom, 0);
+  } catch {
+    // Outside the document, e.g. in a widget
+  }
+  const nodePos = nearestNodePos(view, dom);
+  return {
+    dom,
+    description: describeDOMNode(dom),
+    pos,
+    nodePos,
+    info: nodePos === null ? null : nodeInfoAt(view.state.doc, nodePos),
+  };
+}
+
+export function domAtPosInfo(view: EditorView, pos: number, side: -1 | 0 | 1 = 0): DomAtPosInfo | null {
+  try {
+    const { node, offset } = view.domAtPos(pos, side);
+    const child = node.childNodes[offset];
+    const description = node.nodeType === 3
+      ? `${describeDOMNode(node)} at ${offset}`
+      : `${describeDOMNode(node)}, before ${child ? describeDOMNode(child) : 'its end'}`;
+    return { node, offset, description };
+  } catch {
+    return null;
+  }
+}
+
+export function coordsInfo(view: EditorView, pos: number): CoordsInfo[] {
+  const result: CoordsInfo[] = [];
+  for (const side of [-1, 1] as const) {
+    try {
+      const coords = view.coordsAtPos(pos, side);
+      result.push({ side, rect: new DOMRect(coords.left, coords.top, coords.right - coords.left, coords.bottom - coords.top) });
+    } catch {
+      // Positions the view can't measure are left out
+    }
+  }
+  return result;
+}
+
+// Screen rectangles of a DOM node, for text nodes through a range
+export function domRects(dom: DOMNode): DOMRect[] {
+  if (dom instanceof Element) return [dom.getBoundingClientRect()];
+  const range = document.createRange();
+  range.selectNodeContents(dom);
+  return Array.from(range.getClientRects());
+}
+
+function parseRuleFor(parser: DOMParser, dom: HTMLElement) {
+  // Context rules need a parse in progress; outside one, they are taken to match
+  return matchParseRule(parser, dom, () => true);
+}
+
+// Renders every node's toDOM on its own and checks the output against what
+// the view and the parser expect: a content hole exactly when the node has
+// content, HTML nesting rules, and whether the rendered element parses back
+// into the same node with the same attributes
+export function auditToDOM(doc: Node): DomIssue[] {
+  const issues: DomIssue[] = [];
+  const parser = DOMParser.fromSchema(doc.type.schema);
+  // The tag each node's content is rendered into, to check its children's
+  // placement. The doc's content goes into the editor's own element.
+  const contentTags = new Map<Node, string>([[doc, 'DIV']]);
+
+  doc.descendants((node, pos, parent) => {
+    if (issues.length >= MAX_ISSUES) return false;
+    if (node.isText) return false;
+    const type = node.type.name;
+    const report = (message: string) => issues.push({ pos, type, message });
+    const toDOM = node.type.spec.toDOM;
+    if (!toDOM) {
+      report('Has no toDOM');
+      return false;
+    }
+
+    let rendered: { dom: DOMNode; contentDOM?: HTMLElement };
+    try {
+      rendered = DOMSerializer.renderSpec(document, toDOM(node));
+    } catch (e) {
+      report(`toDOM output can't be rendered: ${errorMessage(e)}`);
+      return false;
+    }
+    const { dom, contentDOM } = rendered;
+    const tag = dom.nodeName;
+
+    if (!node.isLeaf && !contentDOM) report("toDOM has no content hole, so the node's content isn't rendered");
+    if (node.isLeaf && contentDOM) report('Leaf node rendered with a content hole');
+    if (node.isBlock && INLINE_TAGS.has(tag)) report(`Block node rendered as an inline <${tag.toLowerCase()}>`);
+    if (contentDOM && !node.inlineContent && !node.isLeaf) {
+      const holeTag = contentDOM.nodeName;
+      if (INLINE_TAGS.has(holeTag)) report(`Block content goes into an inline <${holeTag.toLowerCase()}>`);
+      if (PHRASING_TAGS.has(holeTag)) report(`Block content goes into a <${holeTag.toLowerCase()}>, which HTML only lets hold inline content`);
+    }
+    if (contentDOM) contentTags.set(node, contentDOM.nodeName);
+
+    const parentTag = parent && contentTags.get(parent);
+    const expected = EXPECTED_PARENTS[tag];
+    if (expected && parentTag && !expected.includes(parentTag)) {
+      report(`<${tag.toLowerCase()}> is rendered inside <${parentTag.toLowerCase()}>, not ${expected.map(name => `<${name.toLowerCase()}>`).join(' or ')}`);
+    }
+
+    if (dom instanceof HTMLElement) {
+      const rule = parseRuleFor(parser, dom);
+      if (!rule) {
+        report(`No parse rule matches <${tag.toLowerCase()}>, so copied or serialized content loses it`);
+      } else if (rule.node !== type) {
+        report(`<${tag.toLowerCase()}> parses back as ${rule.node ?? rule.mark ?? 'nothing'}`);
+      } else {
+        let parsed: Node | null = null;
+        try {
+          parsed = node.type.create(rule.attrs ?? null);
+        } catch (e) {
+          report(`Parsed attributes are invalid: ${errorMessage(e)}`);
+        }
+        for (const [key, value] of Object.entries(parsed ? node.attrs : {})) {
+          if (JSON.stringify(parsed!.attrs[key]) !== JSON.stringify(value)) {
+            report(`${key} is ${JSON.stringify(value)} but parses back as ${JSON.stringify(parsed!.attrs[key])}`);
+          }
+        }
+      }
+    }
+  });
+  return issues;
+}
@@ -0,0 +1,261 @@
+import * as pmCommands from 'prosemirror-commands';
+import * as pmModel from 'prosemirror-model';
+import * as pmState from 'prosemirror-state';
+import * as pmTransform from 'prosemirror-transform';
+import { Attrs, MarkType, NodeType, Schema } from 'prosemirror-model';
+import { Command } from 'prosemirror-state';
+import { InputRule, wrappingInputRule, textblockTypeInputRule, undoInputRule } from 'prosemirror-inputrules';
+import { redo, undo } from 'prosemirror-history';
+import { InputRuleConfig, InputRuleKind, KeyBindingConfig } from '../types';
+import { attributeSpecs } from './migration';
+import { markTypes, possibleChildren } from './schemaInfo';
+
+export interface InputRuleSuggestion {
+  config: InputRuleConfig;
+  // The node type the rule creates, if any
+  nodeType: NodeType | null;
+  // Attributes the rule fills in from the match; anything else falls back to
+  // the attribute's default
+  providedAttrs: string[];
+}
+
+export function createInputRule(fields: Partial<InputRuleConfig> = {}): InputRuleConfig {
+  return {
+    id: crypto.randomUUID(), name: '', pattern: '', kind: 'custom', type: '', attrs: '', handler: '', enabled: true,
+    ...fields,
+  };
+}
+
+export function createKeyBinding(key = '', command = ''): KeyBindingConfig {
+  return { id: crypto.randomUUID(), key, command, enabled: true };
+}
+
+// Suggestions get stable ids, so they stay the same rules across schema changes
+const suggestedRule = (name: string, fields: Partial<InputRuleConfig>): InputRuleConfig =>
+  createInputRule({ id: `suggested:${name}`, name, ...fields });
+
+const suggestedBinding = (key: string, command: string): KeyBindingConfig =>
+  ({ id: `suggested:${key}`, key, command, enabled: true });
+
+// `schema.nodes.name`, or the bracket form for names that aren't identifiers
+const typeReference = (group: 'nodes' | 'marks', name: string) =>
+  /^[A-Za-z_$][\w$]*$/.test(name) ? `schema.${group}.${name}` : `schema.${group}[${JSON.stringify(name)}]`;
+
+// Markdown-ish syntax for marks, recognized by the usual names
+const MARK_SYNTAX: { names: string[]; pattern: string; key: string }[] = [
+  { names: ['strong', 'bold'], pattern: '\\*\\*([^*]+)\\*\\*$', key: 'Mod-b' },
+  { names: ['em', 'italic', 'emphasis'], pattern: '(?<!\\*)\\*([^*\\s][^*]*)\\*$', key: 'Mod-i' },
+  { names: ['code', 'inline_code'], pattern: '`([^`]+)`$', key: 'Mod-`' },
+  { names: ['strike', 'strikethrough', 's', 'del'], pattern: '~~([^~]+)~~$', key: 'Mod-Shift-s' },
+];
+
+const markSyntax = (type: MarkType) =>
+  MARK_SYNTAX.find(syntax => syntax.names.includes(type.name.toLowerCase()))
+  || (type.spec.code ? MARK_SYNTAX[2] : undefined);
+
+// The roles well-known node types play, found from the structure of the
+// schema rather than from their names
+interface SchemaRoles {
+  paragraph?: NodeType;
+  heading?: NodeType;
+  codeBlock?: NodeType;
+  quote?: NodeType;
+  bulletList?: NodeType;
+  orderedList?: NodeType;
+  // The attr an ordered list keeps its start number in
+  orderAttr?: string;
+  hardBreak?: NodeType;
+}
+
+function schemaRoles(schema: Schema): SchemaRoles {
+  const roles: SchemaRoles = {};
+  // Only types that can appear at the top level, so e.g. list items (which
+  // look like blockquotes) aren't picked up
+  for (const type of possibleChildren(schema.topNodeType)) {
+    const attrs = attributeSpecs(type);
+    if (type.isTextblock) {
+      if ('level' in attrs) roles.heading ??= type;
+      else if (type.spec.code) roles.codeBlock ??= type;
+      else roles.paragraph ??= type;
+    } else if (!type.isLeaf && !type.inlineContent) {
+      const child = type.contentMatch.defaultType;
+      if (!child) continue;
+      if (child.isTextblock) {
+        roles.quote ??= type;
+      } else if (!child.isLeaf) {
+        // A list: its default child is a container, i.e. a list item
+        const orderAttr = ['order', 'start'].find(name => name in attrs);
+        if (orderAttr && !roles.orderedList) {
+          roles.orderedList = type;
+          roles.orderAttr = orderAttr;
+        } else if (!orderAttr) {
+          roles.bulletList ??= type;
+        }
+      }
+    }
+  }
+  roles.hardBreak = Object.keys(schema.nodes).map(name => schema.nodes[name])
+    .find(type => type.isInline && type.isLeaf && (type.spec.linebreakReplacement || /break|^br$/i.test(type.name)));
+  return roles;
+}
+
+// Input rules for the schema's headings, code blocks, quotes, lists and
+// marks, plus the (disabled) typography rules
+export function suggestInputRules(schema: Schema): InputRuleSuggestion[] {
+  const roles = schemaRoles(schema);
+  const suggestions: InputRuleSuggestion[] = [];
+  const suggest = (nodeType: NodeType | null, providedAttrs: string[], config: InputRuleConfig) =>
+    suggestions.push({ config, nodeType, providedAttrs });
+
+  if (roles.quote) {
+    suggest(roles.quote, [], suggestedRule(roles.quote.name, {
+      pattern: '^\\s*>\\s$', kind: 'wrapping', type: roles.quote.name,
+    }));
+  }
+  if (roles.heading) {
+    suggest(roles.heading, ['level'], suggestedRule(roles.heading.name, {
+      pattern: '^(#{1,6})\\s$', kind: 'textblock', type: roles.heading.name, attrs: 'match => ({ level: match[1].length })',
+    }));
+  }
+  if (roles.codeBlock) {
+    suggest(roles.codeBlock, [], suggestedRule(roles.codeBlock.name, {
+      pattern: '^```$', kind: 'textblock', type: roles.codeBlock.name,
+    }));
+  }
+  if (roles.bulletList) {
+    suggest(roles.bulletList, [], suggestedRule(roles.bulletList.name, {
+      pattern: '^\\s*([-+*])\\s$', kind: 'wrapping', type: roles.bulletList.name,
+    }));
+  }
+  if (roles.orderedList && roles.orderAttr) {
+    suggest(roles.orderedList, [roles.orderAttr], suggestedRule(roles.orderedList.name, {
+      pattern: '^\\s*(\\d+)\\.\\s$', kind: 'wrapping', type: roles.orderedList.name,
+      attrs: `match => ({ ${roles.orderAttr}: parseInt(match[1], 10) })`,
+    }));
+  }
+  for (const type of markTypes(schema)) {
+    const syntax = markSyntax(type);
+    if (!syntax) continue;
+    suggest(null, [], suggestedRule(type.name, { pattern: syntax.pattern, kind: 'mark', type: type.name }));
+  }
+  suggest(null, [], suggestedRule('em dash', { pattern: '--$', handler: '"—"', enabled: false }));
+  suggest(null, [], suggestedRule('ellipsis', { pattern: '\\.\\.\\.$', handler: '"…"', enabled: false }));
+
+  return suggestions;
+}
+
+// Key bindings for history, the suggested rules' node types and marks, and
+// a few editing commands. baseKeymap is a plugin of its own.
+export function suggestKeyBindings(schema: Schema): KeyBindingConfig[] {
+  const roles = schemaRoles(schema);
+  const bindings: KeyBindingConfig[] = [
+    suggestedBinding('Mod-z', 'undo'),
+    suggestedBinding('Mod-y', 'redo'),
+    suggestedBinding('Mod-Shift-z', 'redo'),
+    suggestedBinding('Backspace', 'undoInputRule'),
+    suggestedBinding('Enter', 'splitBlock'),
+    suggestedBinding('Escape', 'selectParentNode'),
+  ];
+  for (const type of markTypes(schema)) {
+    const syntax = markSyntax(type);
+    if (syntax) bindings.push(suggestedBinding(syntax.key, `toggleMark(${typeReference('marks', type.name)})`));
+  }
+  if (roles.paragraph) {
+    bindings.push(suggestedBinding('Shift-Ctrl-0', `setBlockType(${typeReference('nodes', roles.paragraph.name)})`));
+  }
+  if (roles.heading) {
+    for (let level = 1; level <= 6; level++) {
+      bindings.push(suggestedBinding(`Shift-Ctrl-${level}`, `setBlockType(${typeReference('nodes', roles.heading.name)}, { level: ${level} })`));
+    }
+  }
+  if (roles.codeBlock) {
+    bindings.push(suggestedBinding('Shift-Ctrl-\\', `setBlockType(${typeReference('nodes', roles.codeBlock.name)})`));
+  }
+  if (roles.quote) {
+    bindings.push(suggestedBinding('Ctrl->', `wrapIn(${typeReference('nodes', roles.quote.name)})`));
+  }
+  if (roles.hardBreak) {
+    bindings.push(suggestedBinding('Shift-Enter', `chainCommands(exitCode, (state, dispatch) => {
+  if (dispatch) dispatch(state.tr.replaceSelectionWith(${typeReference('nodes', roles.hardBreak.name)}.create()).scrollIntoView());
+  return true;
+})`));
+  }
+  return bindings;
+}
+
+// The variables the code of rules and bindings can use: the schema, every
+// prosemirror-commands export, and the history commands
+export function inputScope(schema: Schema | null): Record<string, unknown> {
+  return {
+    ...pmCommands,
+    schema,
+    undo,
+    redo,
+    undoInputRule,
+    InputRule,
+    model: pmModel,
+    state: pmState,
+    transform: pmTransform,
+  };
+}
+
+function evaluate(code: string, scope: Record<string, unknown>): unknown {
+  return new Function(...Object.keys(scope), `return (${code}\n);`)(...Object.values(scope));
+}
+
+// Like the wrapping and textblock rules, but adds a mark to the first group
+// of the match and drops the rest of the matched text
+function markInputRule(pattern: RegExp, markType: MarkType, getAttrs?: Attrs | ((match: RegExpMatchArray) => Attrs | null)) {
+  return new InputRule(pattern, (state, match, start, end) => {
+    const text = match[1];
+    if (!text) return null;
+    const attrs = getAttrs instanceof Function ? getAttrs(match) : getAttrs;
+    const textStart = start + match[0].lastIndexOf(text);
+    const textEnd = textStart + text.length;
+    const tr = state.tr;
+    if (textEnd < end) tr.delete(textEnd, end);
+    if (textStart > start) tr.delete(start, textStart);
+    return tr.addMark(start, start + text.length, markType.create(attrs)).removeStoredMark(markType);
+  });
+}
+
+// Throws when the pattern or code is invalid, or the type doesn't exist
+export function buildInputRule(config: InputRuleConfig, schema: Schema, scope: Record<string, unknown>): InputRule {
+  const pattern = new RegExp(config.pattern);
+  const attrs = config.attrs.trim() ? evaluate(config.attrs, scope) as Attrs | ((match: RegExpMatchArray) => Attrs | null) : undefined;
+  if (attrs !== undefined && (attrs === null || (typeof attrs !== 'object' && typeof attrs !== 'function'))) {
+    throw new Error('attrs must be an object or a function of the match');
+  }
+
+  const kind: InputRuleKind = config.kind;
+  if (kind === 'custom') {
+    const handler = evaluate(config.handler, scope);
+    if (typeof handler !== 'string' && typeof handler !== 'function') {
+      throw new Error('The handler must be a function or a replacement string');
+    }
+    return new InputRule(pattern, handler as ConstructorParameters<typeof InputRule>[1]);
+  }
+  if (kind === 'mark') {
+    const markType = schema.marks[config.type];
+    if (!markType) throw new Error(`The schema has no mark "${config.type}"`);
+    return markInputRule(pattern, markType, attrs);
+  }
+  const nodeType = schema.nodes[config.type];
+  if (!nodeType) throw new Error(`The schema has no node "${config.type}"`);
+  return kind === 'wrapping'
+    ? wrappingInputRule(pattern, nodeType, attrs)
+    : textblockTypeInputRule(pattern, nodeType, attrs);
+}
+
+export function buildKeyBinding(config: KeyBindingConfig, scope: Record<string, unknown>): Command {
+  const command = evaluate(config.command, scope);
+  if (typeof command !== 'function') throw new Error('The binding must evaluate to a command');
+  return command as Command;
+}
+
+export const INPUT_RULE_KINDS: { kind: InputRuleKind; label: string }[] = [
+  { kind: 'wrapping', label: 'Wrap in node' },
+  { kind: 'textblock', label: 'Set textblock type' },
+  { kind: 'mark', label: 'Add mark' },
+  { kind: 'custom', label: 'Custom handler' },
+];
@@ -0,0 +1,123 @@
+import { EditorState, Selection, Transaction } from 'prosemirror-state';
+import { Fragment, Mark, Node, ResolvedPos, Slice } from 'prosemirror-model';
+import { Mapping, Step, StepMap, Transform } from 'prosemirror-transform';
+import { describeMark, describeMarks, describeSelection, describeSlice, describeStep, getSelectionTypeName } from './transactions';
+
+// ProseMirror values that get their own renderer in the object inspector.
+// Checked with instanceof, since class names don't survive minification.
+export type InspectorKind =
+  | 'node' | 'fragment' | 'slice' | 'resolvedPos' | 'selection' | 'marks' | 'mark'
+  | 'step' | 'stepMap' | 'mapping' | 'transform' | 'state';
+
+export function inspectorKind(value: unknown): InspectorKind | null {
+  if (value instanceof Node) return 'node';
+  if (value instanceof Fragment) return 'fragment';
+  if (value instanceof Slice) return 'slice';
+  if (value instanceof ResolvedPos) return 'resolvedPos';
+  if (value instanceof Selection) return 'selection';
+  if (value instanceof Mark) return 'mark';
+  if (Array.isArray(value) && value.length > 0 && value.every(item => item instanceof Mark)) return 'marks';
+  if (value instanceof Step) return 'step';
+  if (value instanceof StepMap) return 'stepMap';
+  if (value instanceof Mapping) return 'mapping';
+  // Transaction extends Transform
+  if (value instanceof Transform) return 'transform';
+  if (value instanceof EditorState) return 'state';
+  return null;
+}
+
+const truncate = (text: string, max = 60) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+export function className(value: object): string {
+  const kind = inspectorKind(value);
+  if (kind === 'transform') return value instanceof Transaction ? 'Transaction' : 'Transform';
+  if (kind === 'selection') return getSelectionTypeName(value as Selection);
+  if (kind) {
+    return {
+      node: 'Node', fragment: 'Fragment', slice: 'Slice', resolvedPos: 'ResolvedPos', mark: 'Mark', marks: 'Mark[]',
+      step: describeStep(value as Step).name, stepMap: 'StepMap', mapping: 'Mapping', state: 'EditorState',
+    }[kind];
+  }
+  if (Array.isArray(value)) return `Array(${value.length})`;
+  const proto = Object.getPrototypeOf(value);
+  if (proto === null) return 'Object';
+  return proto.constructor?.name || 'Object';
+}
+
+// One-line summary of a value, like the collapsed form in browser devtools
+export function previewValue(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (value === null) return 'null';
+  if (typeof value === 'string') return JSON.stringify(truncate(value, 80));
+  if (typeof value === 'function') return `ƒ ${value.name || 'anonymous'}()`;
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value !== 'object') return String(value);
+
+  switch (inspectorKind(value)) {
+    case 'node': return truncate((value as Node).toString());
+    case 'fragment': return truncate(`Fragment ${(value as Fragment).toString()}`);
+    case 'slice': return truncate(describeSlice(value as Slice));
+    case 'resolvedPos': {
+      const $pos = value as ResolvedPos;
+      return `ResolvedPos(${$pos.pos}) depth ${$pos.depth} in ${$pos.parent.type.name}`;
+    }
+    case 'selection': return describeSelection(value as Selection);
+    case 'mark': return describeMark(value as Mark);
+    case 'marks': return describeMarks(value as Mark[]);
+    case 'step': return describeStep(value as Step).name;
+    case 'stepMap': return `StepMap ${(value as StepMap).toString()}`;
+    case 'mapping': return `Mapping(${(value as Mapping).maps.length} maps)`;
+    case 'transform': return `${className(value)}(${(value as Transform).steps.length} steps)`;
+    case 'state': return `EditorState doc.size=${(value as EditorState).doc.content.size}`;
+  }
+
+  if (Array.isArray(value)) return `Array(${value.length})`;
+  const name = className(value);
+  const keys = Object.keys(value);
+  const shown = keys.slice(0, 4).map(key => `${key}: …`).join(', ');
+  return `${name === 'Object' ? '' : `${name} `}{${shown}${keys.length > 4 ? ', …' : ''}}`;
+}
+
+// The changed ranges of a step map, as [oldStart, oldEnd, newStart, newEnd]
+export function stepMapRanges(map: StepMap): [number, number, number, number][] {
+  const ranges: [number, number, number, number][] = [];
+  map.forEach((oldStart, oldEnd, newStart, newEnd) => ranges.push([oldStart, oldEnd, newStart, newEnd]));
+  return ranges;
+}
+
+export interface InspectorProperty {
+  key: string;
+  value: unknown;
+}
+
+export function ownProperties(value: object): InspectorProperty[] {
+  if (value instanceof Map) {
+    return Array.from(value.entries()).map(([key, item], idx) => ({ key: `[${idx}] ${previewValue(key)}`, value: item }));
+  }
+  if (value instanceof Set) {
+    return Array.from(value.values()).map((item, idx) => ({ key: `[${idx}]`, value: item }));
+  }
+  return Object.keys(value).map(key => ({ key, value: (value as Record<string, unknown>)[key] }));
+}
+
+// Getters defined on the prototype chain (not shadowed by own properties).
+// They're only called when expanded, as they may be expensive or throw.
+export function getterNames(value: object): string[] {
+  const names: string[] = [];
+  const own = new Set(Object.keys(value));
+  for (let proto = Object.getPrototypeOf(value); proto && proto !== Object.prototype && proto !== Array.prototype; proto = Object.getPrototypeOf(proto)) {
+    for (const name of Object.getOwnPropertyNames(proto)) {
+      const descriptor = Object.getOwnPropertyDescriptor(proto, name);
+      if (descriptor?.get && !own.has(name) && !names.includes(name)) names.push(name);
+    }
+  }
+  return names.sort();
+}
+
+export function callGetter(value: object, name: string): { value: unknown } | { error: Error } {
+  try {
+    return { value: (value as Record<string, unknown>)[name] };
+  } catch (e: any) {
+    return { error: e instanceof Error ? e : new Error(String(e)) };
+  }
+}
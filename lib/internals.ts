@@ -0,0 +1,139 @@
+import { EditorState, Plugin, Transaction } from 'prosemirror-state';
+import { InputRule } from 'prosemirror-inputrules';
+import { Decoration, DecorationAttrs, DecorationSource, EditorView } from 'prosemirror-view';
+import { DOMParser, ResolvedPos, TagParseRule } from 'prosemirror-model';
+import { GapCursor } from 'prosemirror-gapcursor';
+import { Step } from 'prosemirror-transform';
+
+// The one place that reaches into ProseMirror's private fields. Each access
+// is typed with the shape it has in the versions this was written against:
+// prosemirror-state 1.4, prosemirror-transform 1.10, prosemirror-view 1.41,
+// prosemirror-model 1.25, prosemirror-inputrules 1.5, prosemirror-gapcursor 1.4.
+// When upgrading those packages, check this file first; nothing else should
+// need `as any`.
+
+const internal = <T>(value: object) => value as unknown as T;
+
+// Transaction keeps its metadata in a private `meta` field, and there is no
+// public way to list the keys
+interface TransactionInternals {
+  meta: Record<string, unknown> | undefined;
+}
+
+export function transactionMeta(tr: Transaction): Record<string, unknown> {
+  return internal<TransactionInternals>(tr).meta ?? {};
+}
+
+// The step classes keep each field of their JSON under the same name, which
+// gives the live value (a Slice or Mark rather than its JSON)
+export function stepField(step: Step, key: string): unknown {
+  return internal<Record<string, unknown>>(step)[key];
+}
+
+// Plugins get a unique string key like `history$` or `plugin$1`, which is
+// private on both Plugin and PluginKey
+interface PluginInternals {
+  key: string;
+}
+
+export function pluginKeyName(plugin: Plugin): string {
+  return internal<PluginInternals>(plugin).key;
+}
+
+// A plugin rebuilt from another's spec gets a fresh key unless the spec names
+// a PluginKey. Sharing the key keeps `getState` on either object working.
+export function copyPluginKey(from: Plugin, to: Plugin) {
+  internal<PluginInternals>(to).key = pluginKeyName(from);
+}
+
+// An input rule's handler is internal, but it's the only place to see the
+// rule apply. String handlers are already wrapped in a function by then.
+type InputRuleHandler = (state: EditorState, match: RegExpMatchArray, start: number, end: number) => Transaction | null;
+
+interface InputRuleInternals {
+  handler: InputRuleHandler;
+}
+
+export function wrapInputRuleHandler(rule: InputRule, wrap: (handler: InputRuleHandler) => InputRuleHandler) {
+  const raw = internal<InputRuleInternals>(rule);
+  raw.handler = wrap(raw.handler);
+}
+
+// A decoration's kind lives in its internal `type` (an InlineType, NodeType
+// or WidgetType); `inline` and `widget` are the getters prosemirror-view
+// itself uses to tell them apart
+interface DecorationInternals {
+  inline: boolean;
+  widget: boolean;
+  type: { attrs?: DecorationAttrs };
+}
+
+export function isInlineDecoration(decoration: Decoration): boolean {
+  return internal<DecorationInternals>(decoration).inline;
+}
+
+export function isWidgetDecoration(decoration: Decoration): boolean {
+  return internal<DecorationInternals>(decoration).widget;
+}
+
+// The DOM attributes of an inline or node decoration
+export function decorationAttrs(decoration: Decoration): DecorationAttrs {
+  return internal<DecorationInternals>(decoration).type.attrs || {};
+}
+
+// Decorations and decoration sets compare by value with an internal `eq`,
+// which the view uses to decide whether a node view needs updating
+interface Comparable<T> {
+  eq?(other: T): boolean;
+}
+
+export function sameDecoration(a: Decoration, b: Decoration): boolean {
+  return a === b || !!internal<Comparable<Decoration>>(a).eq?.(b);
+}
+
+export function sameDecorationSource(a: DecorationSource, b: DecorationSource): boolean {
+  return a === b || !!internal<Comparable<DecorationSource>>(a).eq?.(b);
+}
+
+// Where the gap cursor plugin would put a cursor: between closed blocks, in
+// a parent whose default content is a textblock (or that allows it with
+// spec.allowGapCursor)
+interface GapCursorInternals {
+  valid($pos: ResolvedPos): boolean;
+}
+
+export function isValidGapCursor($pos: ResolvedPos): boolean {
+  return internal<GapCursorInternals>(GapCursor).valid($pos);
+}
+
+// The view mirrors the DOM with a tree of view descriptions rooted at its
+// private `docView`. With `onlyNodes`, `nearestDesc` skips mark and widget
+// descriptions and gives the innermost document node's.
+interface ViewDescInternals {
+  posBefore: number;
+}
+
+interface EditorViewInternals {
+  docView: ViewDescInternals & {
+    nearestDesc(dom: globalThis.Node, onlyNodes: boolean): ViewDescInternals | null;
+  };
+}
+
+// The position before the innermost document node rendering `dom`, -1 for
+// the doc itself, or null outside the editor's content
+export function nearestNodePos(view: EditorView, dom: globalThis.Node): number | null {
+  const { docView } = internal<EditorViewInternals>(view);
+  const desc = docView.nearestDesc(dom, true);
+  if (!desc) return null;
+  return desc === docView ? -1 : desc.posBefore;
+}
+
+// The parse rule DOMParser would use for an element. `context` answers the
+// rules' `context` checks, which otherwise need a parse in progress.
+interface DOMParserInternals {
+  matchTag(dom: globalThis.Node, context: { matchesContext(context: string): boolean }): TagParseRule | undefined;
+}
+
+export function matchParseRule(parser: DOMParser, dom: HTMLElement, matchesContext: (context: string) => boolean) {
+  return internal<DOMParserInternals>(parser).matchTag(dom, { matchesContext });
+}
@@ -0,0 +1,72 @@
+import { LibraryEntry } from '../types';
+
+const DB_NAME = 'prosemirror-state-explorer';
+const DB_VERSION = 1;
+const STORE = 'workspaces';
+
+// Only the most recent auto snapshots are kept
+export const MAX_AUTO_SNAPSHOTS = 20;
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const open = indexedDB.open(DB_NAME, DB_VERSION);
+      open.onupgradeneeded = () => {
+        open.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error);
+    });
+    // Let a later call retry when opening failed (e.g. storage disabled)
+    database.catch(() => { database = null; });
+  }
+  return database;
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(STORE, mode).objectStore(STORE);
+}
+
+// All entries, most recently updated first
+export async function listEntries(): Promise<LibraryEntry[]> {
+  const entries = await settle((await store('readonly')).getAll() as IDBRequest<LibraryEntry[]>);
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function putEntry(entry: LibraryEntry): Promise<void> {
+  await settle((await store('readwrite')).put(entry));
+}
+
+export async function deleteEntry(id: string): Promise<void> {
+  await settle((await store('readwrite')).delete(id));
+}
+
+export function createEntry(fields: Pick<LibraryEntry, 'name' | 'schemaCode' | 'doc'> & Partial<LibraryEntry>): LibraryEntry {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), notes: '', auto: false, createdAt: now, updatedAt: now, ...fields };
+}
+
+// Saves an auto snapshot, unless it's identical to the latest one, and drops
+// the oldest auto snapshots beyond MAX_AUTO_SNAPSHOTS. Returns whether
+// anything was saved.
+export async function saveAutoSnapshot(schemaCode: string, doc: unknown): Promise<boolean> {
+  const autos = (await listEntries()).filter(entry => entry.auto);
+  const latest = autos[0];
+  if (latest && latest.schemaCode === schemaCode && JSON.stringify(latest.doc) === JSON.stringify(doc)) {
+    return false;
+  }
+  const name = `Before apply, ${new Date().toLocaleString()}`;
+  await putEntry(createEntry({ name, schemaCode, doc, auto: true }));
+  await Promise.all(autos.slice(MAX_AUTO_SNAPSHOTS - 1).map(entry => deleteEntry(entry.id)));
+  return true;
+}
@@ -0,0 +1,66 @@
+import { Transaction } from 'prosemirror-state';
+import { MapResult, Mapping } from 'prosemirror-transform';
+import { MapResultInfo, MappedStep, TrackedPosition } from '../types';
+import { describeStep } from './transactions';
+
+// Older trail entries are dropped; the positions themselves keep mapping
+const MAX_TRAIL = 50;
+
+export function createTrackedPosition(pos: number, label = ''): TrackedPosition {
+  return {
+    id: crypto.randomUUID(), label, origin: pos, left: pos, right: pos,
+    leftDeleted: false, rightDeleted: false, trail: [],
+  };
+}
+
+export function describeMapResult(from: number, result: MapResult): MapResultInfo {
+  return {
+    from,
+    to: result.pos,
+    deleted: result.deleted,
+    deletedBefore: result.deletedBefore,
+    deletedAfter: result.deletedAfter,
+    deletedAcross: result.deletedAcross,
+  };
+}
+
+// The combined mapping of a dispatched transaction and the ones plugins
+// appended to it
+export function dispatchMapping(transactions: Transaction[]): Mapping {
+  return new Mapping(transactions.flatMap(tr => tr.mapping.maps));
+}
+
+// Map a tracked position through every step of the transactions, recording
+// each step's mapResult in the trail
+export function mapTrackedPosition(tracked: TrackedPosition, transactionId: number, transactions: Transaction[]): TrackedPosition {
+  let { left, right, leftDeleted, rightDeleted } = tracked;
+  const steps: MappedStep[] = [];
+  for (const tr of transactions) {
+    tr.steps.forEach((step, idx) => {
+      const map = tr.mapping.maps[idx];
+      const leftResult = describeMapResult(left, map.mapResult(left, -1));
+      const rightResult = describeMapResult(right, map.mapResult(right, 1));
+      steps.push({ step: describeStep(step).name, left: leftResult, right: rightResult });
+      left = leftResult.to;
+      right = rightResult.to;
+      leftDeleted = leftDeleted || leftResult.deleted;
+      rightDeleted = rightDeleted || rightResult.deleted;
+    });
+  }
+  if (steps.length === 0) return tracked;
+  return {
+    ...tracked, left, right, leftDeleted, rightDeleted,
+    trail: [...tracked.trail, { transactionId, steps }].slice(-MAX_TRAIL),
+  };
+}
+
+// Every position a tracked position has been at, oldest first
+export function positionHistory(tracked: TrackedPosition, side: 'left' | 'right'): number[] {
+  const history = [tracked.trail.length > 0 ? tracked.trail[0].steps[0][side].from : tracked.origin];
+  for (const entry of tracked.trail) {
+    for (const step of entry.steps) {
+      if (step[side].to !== history[history.length - 1]) history.push(step[side].to);
+    }
+  }
+  return history;
+}
@@ -0,0 +1,244 @@
+import { AttributeSpec, Fragment, Mark, MarkType, Node, NodeType, Schema } from 'prosemirror-model';
+import { MigrationIssue, MigrationReport, MigrationRepair } from '../types';
+import { errorMessage } from './utils';
+
+interface NodeJSON {
+  type: string;
+  attrs?: Record<string, any>;
+  content?: NodeJSON[];
+  marks?: { type: string; attrs?: Record<string, any> }[];
+  text?: string;
+}
+
+export function attributeSpecs(type: NodeType | MarkType): Record<string, AttributeSpec> {
+  return type.spec.attrs || {};
+}
+
+// Mirrors prosemirror-model's own check: `validate` is either a function that
+// throws, or a `|`-separated list of primitive type names.
+export function validateAttr(spec: AttributeSpec, value: any): string | null {
+  if (!spec.validate) return null;
+  try {
+    if (typeof spec.validate === 'function') {
+      spec.validate(value);
+    } else {
+      const name = value === null ? 'null' : typeof value;
+      if (spec.validate.split('|').indexOf(name) < 0) {
+        return `expected ${spec.validate}, got ${name}`;
+      }
+    }
+    return null;
+  } catch (e) {
+    return errorMessage(e);
+  }
+}
+
+const segment = (json: NodeJSON, index: number | null) => index === null ? json.type : `${json.type}[${index}]`;
+
+// Walk the old document's JSON against the new schema and list everything
+// that Schema.nodeFromJSON + Node.check would trip over, or silently change.
+function analyze(schema: Schema, json: NodeJSON): MigrationIssue[] {
+  const issues: MigrationIssue[] = [];
+
+  const checkAttrs = (type: NodeType | MarkType, values: Record<string, any>, path: string[], what: string) => {
+    const specs = attributeSpecs(type);
+    for (const name of Object.keys(values)) {
+      if (!(name in specs)) {
+        issues.push({ kind: 'dropped-attr', path, message: `${what} attr "${name}" no longer exists and will be dropped` });
+      }
+    }
+    for (const [name, spec] of Object.entries(specs)) {
+      if (!(name in values)) {
+        if ('default' in spec) {
+          issues.push({ kind: 'defaulted-attr', path, message: `${what} attr "${name}" is new and will default to ${JSON.stringify(spec.default)}` });
+        } else {
+          issues.push({ kind: 'invalid-attr', path, message: `${what} attr "${name}" is required but has no value` });
+        }
+        continue;
+      }
+      const problem = validateAttr(spec, values[name]);
+      if (problem) {
+        issues.push({ kind: 'invalid-attr', path, message: `${what} attr "${name}" fails validation: ${problem}` });
+      }
+    }
+  };
+
+  const walk = (node: NodeJSON, path: string[], parentType: NodeType | null) => {
+    const type = schema.nodes[node.type];
+    if (!type) {
+      issues.push({ kind: 'unknown-node', path, message: `Node type "${node.type}" no longer exists` });
+    } else {
+      checkAttrs(type, node.attrs || {}, path, `"${type.name}"`);
+    }
+
+    for (const markJSON of node.marks || []) {
+      const markType = schema.marks[markJSON.type];
+      if (!markType) {
+        issues.push({ kind: 'unknown-mark', path, message: `Mark type "${markJSON.type}" no longer exists` });
+        continue;
+      }
+      checkAttrs(markType, markJSON.attrs || {}, path, `Mark "${markType.name}"`);
+      if (parentType && !parentType.allowsMarkType(markType)) {
+        issues.push({ kind: 'disallowed-mark', path, message: `Mark "${markType.name}" is not allowed inside "${parentType.name}"` });
+      }
+    }
+
+    const children = node.content || [];
+    children.forEach((child, idx) => walk(child, [...path, segment(child, idx)], type || null));
+
+    // Only check the content expression when every child type is known,
+    // otherwise the unknown-node issue already says what's wrong
+    if (type && !type.isText) {
+      const childTypes = children.map(child => schema.nodes[child.type]);
+      if (childTypes.every(Boolean)) {
+        let match: ReturnType<typeof type.contentMatch.matchType> = type.contentMatch;
+        let failedAt = -1;
+        for (let i = 0; i < childTypes.length && match; i++) {
+          match = match.matchType(childTypes[i]);
+          if (!match) failedAt = i;
+        }
+        if (!match) {
+          issues.push({
+            kind: 'invalid-content', path,
+            message: `Child ${failedAt} ("${childTypes[failedAt].name}") doesn't fit content "${type.spec.content || ''}"`,
+          });
+        } else if (!match.validEnd) {
+          issues.push({ kind: 'invalid-content', path, message: `Content is incomplete for "${type.spec.content || ''}"` });
+        }
+      }
+    }
+  };
+
+  walk(json, [segment(json, null)], null);
+  return issues;
+}
+
+// Best-effort conversion of the old JSON into a valid document. Unknown nodes
+// are unwrapped, unknown marks and attrs are dropped, and children that don't
+// fit are completed with ContentMatch.fillBefore / findWrapping before falling
+// back to NodeType.createAndFill.
+function repair(schema: Schema, json: NodeJSON): { doc: Node | null; repairs: MigrationRepair[] } {
+  const repairs: MigrationRepair[] = [];
+
+  const buildAttrs = (type: NodeType | MarkType, values: Record<string, any>, path: string[]) => {
+    const attrs: Record<string, any> = {};
+    for (const [name, spec] of Object.entries(attributeSpecs(type))) {
+      if (name in values && !validateAttr(spec, values[name])) {
+        attrs[name] = values[name];
+      } else if ('default' in spec) {
+        if (name in values) repairs.push({ path, message: `Reset invalid attr "${name}" to its default` });
+        attrs[name] = spec.default;
+      }
+    }
+    return attrs;
+  };
+
+  const buildMarks = (node: NodeJSON, path: string[]): readonly Mark[] => {
+    const marks: Mark[] = [];
+    for (const markJSON of node.marks || []) {
+      const markType = schema.marks[markJSON.type];
+      if (!markType) continue;
+      try {
+        marks.push(markType.create(buildAttrs(markType, markJSON.attrs || {}, path)));
+      } catch (e) {
+        repairs.push({ path, message: `Dropped mark "${markJSON.type}"` });
+      }
+    }
+    return Mark.setFrom(marks);
+  };
+
+  const fitContent = (type: NodeType, children: Node[], path: string[]): Node[] => {
+    const out: Node[] = [];
+    let match = type.contentMatch;
+    for (const rawChild of children) {
+      // Marks are filtered against whatever ends up being the child's parent
+      const child = rawChild.mark(type.allowedMarks(rawChild.marks));
+      const direct = match.matchType(child.type);
+      if (direct) {
+        out.push(child);
+        match = direct;
+        continue;
+      }
+      const fill = match.fillBefore(Fragment.from(child));
+      if (fill) {
+        fill.forEach(filler => out.push(filler));
+        if (fill.childCount) repairs.push({ path, message: `Inserted ${fill.childCount} filler node(s) before "${child.type.name}"` });
+        out.push(child);
+        match = match.matchFragment(fill)!.matchType(child.type)!;
+        continue;
+      }
+      const wrapping = match.findWrapping(child.type);
+      if (wrapping) {
+        const inner = wrapping.length ? wrapping[wrapping.length - 1] : type;
+        let wrapped: Node | null = rawChild.mark(inner.allowedMarks(rawChild.marks));
+        for (let i = wrapping.length - 1; i >= 0 && wrapped; i--) {
+          wrapped = wrapping[i].createAndFill(null, wrapped);
+        }
+        const next = wrapped && match.matchType(wrapped.type);
+        if (wrapped && next) {
+          repairs.push({ path, message: `Wrapped "${child.type.name}" in ${wrapping.map(t => t.name).join(' > ')}` });
+          out.push(wrapped);
+          match = next;
+          continue;
+        }
+      }
+      repairs.push({ path, message: `Dropped "${child.type.name}", which can't go inside "${type.name}"` });
+    }
+    const tail = match.fillBefore(Fragment.empty, true);
+    if (tail && tail.childCount) {
+      tail.forEach(filler => out.push(filler));
+      repairs.push({ path, message: `Appended ${tail.childCount} required node(s) to complete "${type.spec.content || ''}"` });
+    }
+    return out;
+  };
+
+  // Returns the nodes that take this JSON node's place: usually one, but an
+  // unknown node is replaced by its (repaired) children.
+  const build = (node: NodeJSON, path: string[], forceType?: NodeType): Node[] => {
+    const type = forceType || schema.nodes[node.type];
+    const children = (node.content || []).flatMap((child, idx) => build(child, [...path, segment(child, idx)]));
+
+    if (!type) {
+      repairs.push({ path, message: `Unwrapped unknown node "${node.type}" (${children.length} child(ren) kept)` });
+      return children;
+    }
+    const marks = buildMarks(node, path);
+    if (type.isText) {
+      return node.text ? [schema.text(node.text, marks)] : [];
+    }
+    const attrs = buildAttrs(type, node.attrs || {}, path);
+    const content = fitContent(type, children, path);
+    try {
+      const result = type.create(attrs, content, marks);
+      result.check();
+      return [result];
+    } catch (e) {
+      const filled = type.createAndFill(attrs, content, marks);
+      if (filled) return [filled];
+      repairs.push({ path, message: `Couldn't build a valid "${type.name}"; dropped it` });
+      return [];
+    }
+  };
+
+  const rootPath = [segment(json, null)];
+  if (json.type !== schema.topNodeType.name) {
+    repairs.push({ path: rootPath, message: `Used "${schema.topNodeType.name}" as the top node instead of "${json.type}"` });
+  }
+  const [doc] = build(json, rootPath, schema.topNodeType);
+  return { doc: doc || schema.topNodeType.createAndFill(), repairs };
+}
+
+// Carry a document over into a new schema via its JSON. When the JSON loads
+// as-is, `doc` is set; otherwise `repairedDoc` holds the best-effort fix.
+export function migrateDocument(schema: Schema, json: NodeJSON): MigrationReport {
+  const issues = analyze(schema, json);
+  try {
+    const doc = schema.nodeFromJSON(json);
+    if (doc.type !== schema.topNodeType) throw new RangeError(`Top node is "${doc.type.name}"`);
+    doc.check();
+    return { schema, issues, doc, repairedDoc: null, repairs: [], error: null };
+  } catch (e) {
+    const { doc: repairedDoc, repairs } = repair(schema, json);
+    return { schema, issues, doc: null, repairedDoc, repairs, error: errorMessage(e) };
+  }
+}
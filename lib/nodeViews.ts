@@ -0,0 +1,240 @@
+import * as pmModel from 'prosemirror-model';
+import * as pmState from 'prosemirror-state';
+import * as pmTransform from 'prosemirror-transform';
+import * as pmView from 'prosemirror-view';
+import { Mark, Node, Schema } from 'prosemirror-model';
+import { Decoration, DecorationSource, NodeView, NodeViewConstructor } from 'prosemirror-view';
+import { NodeViewEvent, NodeViewEventKind } from '../types';
+import { locateEvaluationError } from './codeEditor';
+import { PluginCompileError } from './plugins';
+import { sameDecoration, sameDecorationSource } from './internals';
+import { errorMessage } from './utils';
+
+// Older events are dropped
+const MAX_EVENTS = 300;
+
+export const DEFAULT_NODE_VIEW_CODE = `// Available variables: schema, model, state, transform, view
+// Return an object mapping node type names to NodeView constructors,
+// called as (node, view, getPos, decorations, innerDecorations)
+return {};
+`;
+
+export const EXAMPLE_NODE_VIEW_CODE = `// Available variables: schema, model, state, transform, view
+// Return an object mapping node type names to NodeView constructors,
+// called as (node, view, getPos, decorations, innerDecorations)
+return {
+  heading(node) {
+    const dom = document.createElement('h' + node.attrs.level);
+    return {
+      dom,
+      contentDOM: dom,
+      // Returning false makes the editor destroy this view and create another
+      update(next) {
+        if (next.type !== node.type || next.attrs.level !== node.attrs.level) return false;
+        node = next;
+        return true;
+      },
+      selectNode() { dom.classList.add('ProseMirror-selectednode'); },
+      deselectNode() { dom.classList.remove('ProseMirror-selectednode'); },
+      // The class changes above aren't content changes
+      ignoreMutation(mutation) { return mutation.type === 'attributes' && mutation.target === dom; },
+      stopEvent() { return false; },
+      destroy() {},
+    };
+  },
+};
+`;
+
+// The variables node view code can use
+export function nodeViewScope(schema: Schema | null): Record<string, unknown> {
+  return {
+    schema,
+    model: pmModel,
+    state: pmState,
+    transform: pmTransform,
+    view: pmView,
+  };
+}
+
+// Collects the node views' lifecycle. The editor tells it when a dispatch
+// starts and when a view is built or torn down.
+export interface NodeViewTracer {
+  events: NodeViewEvent[];
+  // The current dispatch, null while a view is built or torn down
+  dispatch: number | null;
+  dispatches: number;
+  nextInstance: number;
+}
+
+export interface CompiledNodeViews {
+  nodeViews: Record<string, NodeViewConstructor>;
+  // Types the code defined node views for that the schema doesn't have
+  unknownTypes: string[];
+  error: Omit<PluginCompileError, 'id'> | null;
+  tracer: NodeViewTracer;
+}
+
+let nextEventId = 1;
+
+function record(tracer: NodeViewTracer, event: Omit<NodeViewEvent, 'id' | 'dispatch' | 'time'>) {
+  tracer.events = [
+    ...tracer.events,
+    { ...event, id: nextEventId++, dispatch: tracer.dispatch, time: Date.now() },
+  ].slice(-MAX_EVENTS);
+}
+
+export function startNodeViewTrace(tracer: NodeViewTracer) {
+  tracer.dispatch = ++tracer.dispatches;
+}
+
+export function startNodeViewRender(tracer: NodeViewTracer) {
+  tracer.dispatch = null;
+}
+
+export function clearNodeViewEvents(tracer: NodeViewTracer) {
+  tracer.events = [];
+}
+
+const sameDecorations = (a: readonly Decoration[], b: readonly Decoration[]) =>
+  a.length === b.length && a.every((deco, idx) => sameDecoration(deco, b[idx]));
+
+// What changed between the node view's last render and an update call.
+// Nothing changing means the view is asked to redraw for no reason, which
+// happens when a parent re-renders its children as new but equal nodes.
+export function updateReason(
+  previous: { node: Node; decorations: readonly Decoration[]; inner: DecorationSource },
+  node: Node, decorations: readonly Decoration[], inner: DecorationSource
+): { detail: string; needless: boolean } {
+  const reasons: string[] = [];
+  if (node.type !== previous.node.type) {
+    reasons.push(`type ${previous.node.type.name} → ${node.type.name}`);
+  } else if (node !== previous.node) {
+    const attrs = Object.keys(node.attrs).filter(key => JSON.stringify(node.attrs[key]) !== JSON.stringify(previous.node.attrs[key]));
+    if (attrs.length) reasons.push(`attrs ${attrs.join(', ')}`);
+    if (!Mark.sameSet(node.marks, previous.node.marks)) reasons.push('marks');
+    if (!node.content.eq(previous.node.content)) reasons.push('content');
+  }
+  if (!sameDecorations(decorations, previous.decorations)) reasons.push('decorations');
+  if (!sameDecorationSource(inner, previous.inner)) reasons.push('inner decorations');
+  if (reasons.length) return { detail: reasons.join(', '), needless: false };
+  return { detail: node === previous.node ? 'nothing changed' : 'equal node, new object', needless: true };
+}
+
+// The NodeView methods the editor calls that get logged
+type NodeViewMethod = 'update' | 'selectNode' | 'deselectNode' | 'stopEvent' | 'ignoreMutation' | 'destroy';
+
+// Wraps a constructor so every call the editor makes into the node views it
+// returns is logged. Methods are replaced on the instance itself, so class
+// based views keep their `this`, and missing ones stay missing since the
+// editor behaves differently without update or ignoreMutation. Only destroy
+// is added, which changes nothing.
+function instrument(type: string, create: NodeViewConstructor, tracer: NodeViewTracer): NodeViewConstructor {
+  return (node, view, getPos, decorations, inner) => {
+    const instance = tracer.nextInstance++;
+    const position = () => {
+      try {
+        return getPos() ?? null;
+      } catch {
+        return null;
+      }
+    };
+    const log = (kind: NodeViewEventKind, detail = '', extra: Partial<NodeViewEvent> = {}) =>
+      record(tracer, { instance, type, kind, pos: position(), detail, ...extra });
+
+    let nodeView: NodeView;
+    try {
+      nodeView = create(node, view, getPos, decorations, inner);
+    } catch (e) {
+      log('error', `constructor: ${errorMessage(e)}`);
+      // Without a node view, the editor renders the node with toDOM
+      return undefined;
+    }
+    log('create', nodeView && nodeView.dom ? '' : 'no dom, rendered with toDOM');
+    if (!nodeView) return nodeView;
+
+    let previous = { node, decorations, inner };
+    const wrap = <K extends NodeViewMethod>(
+      name: K,
+      fallback: ReturnType<NonNullable<NodeView[K]>>,
+      call: (original: NonNullable<NodeView[K]>, args: Parameters<NonNullable<NodeView[K]>>) => ReturnType<NonNullable<NodeView[K]>>
+    ) => {
+      const original = nodeView[name];
+      if (!original) return;
+      const wrapped = (...args: Parameters<NonNullable<NodeView[K]>>) => {
+        try {
+          return call(original, args);
+        } catch (e) {
+          log('error', `${name}: ${errorMessage(e)}`);
+          return fallback;
+        }
+      };
+      // TypeScript can't relate the signature to NodeView[K] for a generic K
+      nodeView[name] = wrapped as NodeView[K];
+    };
+
+    wrap('update', false, (original, [next, nextDecorations, nextInner]) => {
+      const { detail, needless } = updateReason(previous, next, nextDecorations, nextInner);
+      const result = original.call(nodeView, next, nextDecorations, nextInner);
+      log('update', detail, { result: !!result, needless });
+      if (result) previous = { node: next, decorations: nextDecorations, inner: nextInner };
+      return result;
+    });
+    wrap('selectNode', undefined, original => {
+      log('selectNode');
+      return original.call(nodeView);
+    });
+    wrap('deselectNode', undefined, original => {
+      log('deselectNode');
+      return original.call(nodeView);
+    });
+    // These run for every event and mutation, so only calls that change what
+    // the editor does are logged
+    wrap('stopEvent', false, (original, [event]) => {
+      const result = original.call(nodeView, event);
+      if (result) log('stopEvent', event.type, { result: true });
+      return result;
+    });
+    wrap('ignoreMutation', false, (original, [mutation]) => {
+      const result = original.call(nodeView, mutation);
+      if (result) log('ignoreMutation', mutation.type, { result: true });
+      return result;
+    });
+    wrap('destroy', undefined, original => {
+      log('destroy');
+      return original.call(nodeView);
+    });
+    if (typeof nodeView.destroy !== 'function') nodeView.destroy = () => log('destroy');
+    return nodeView;
+  };
+}
+
+// Evaluates the node view code against the schema. On errors the editor
+// gets no node views at all, like a schema that fails to build.
+export function compileNodeViews(code: string, schema: Schema): CompiledNodeViews {
+  const tracer: NodeViewTracer = { events: [], dispatch: null, dispatches: 0, nextInstance: 1 };
+  const failed = (error: CompiledNodeViews['error']): CompiledNodeViews => ({ nodeViews: {}, unknownTypes: [], error, tracer });
+
+  const scope = nodeViewScope(schema);
+  let result: unknown;
+  try {
+    result = new Function(...Object.keys(scope), code)(...Object.values(scope));
+  } catch (e) {
+    const location = locateEvaluationError(e, code);
+    return failed({ message: errorMessage(e), line: location?.line ?? null, column: location?.column });
+  }
+  if (!result || typeof result !== 'object' || Array.isArray(result)) {
+    return failed({ message: 'The code must return an object mapping node type names to constructors.', line: null });
+  }
+  const invalid = Object.entries(result).find(([, value]) => typeof value !== 'function');
+  if (invalid) {
+    return failed({ message: `The node view for "${invalid[0]}" must be a function.`, line: null });
+  }
+
+  const nodeViews: Record<string, NodeViewConstructor> = {};
+  const unknownTypes: string[] = [];
+  for (const [type, create] of Object.entries(result as Record<string, NodeViewConstructor>)) {
+    if (!schema.nodes[type]) unknownTypes.push(type);
+    nodeViews[type] = instrument(type, create, tracer);
+  }
+  return { nodeViews, unknownTypes, error: null, tracer };
+}
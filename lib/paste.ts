@@ -0,0 +1,246 @@
+import { Fragment, Node, Slice } from 'prosemirror-model';
+import { EditorState, Plugin, PluginKey, Transaction } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { PasteRecord, PasteSource, PasteTransaction } from '../types';
+
+// Older records are dropped
+export const MAX_PASTE_RECORDS = 30;
+
+export interface PasteFixture {
+  name: string;
+  html: string;
+  // Pasted as plain text when there's no HTML
+  text: string;
+}
+
+// Clipboard content in the shapes that tend to cause trouble
+export const PASTE_FIXTURES: PasteFixture[] = [
+  {
+    name: 'Word processor',
+    html: '<meta charset="utf-8"><b style="font-weight:normal;" id="docs-internal-guid-1"><p dir="ltr"><span style="font-weight:700;">Bold</span><span> and </span><span style="font-style:italic;">italic</span></p><ul><li><p>First item</p></li><li><p>Second item</p></li></ul></b>',
+    text: 'Bold and italic\nFirst item\nSecond item',
+  },
+  {
+    name: 'Table',
+    html: '<table><tr><th>Name</th><th>Value</th></tr><tr><td>a</td><td>1</td></tr></table>',
+    text: 'Name\tValue\na\t1',
+  },
+  {
+    name: 'Inline fragment',
+    html: 'some <em>emphasized</em> words<br>after a break',
+    text: 'some emphasized words\nafter a break',
+  },
+  {
+    name: 'Open slice from ProseMirror',
+    html: '<p data-pm-slice="1 1 []">end of one paragraph</p><p>start of another</p>',
+    text: 'end of one paragraph\n\nstart of another',
+  },
+  {
+    name: 'Plain text',
+    html: '',
+    text: 'First line\nSecond line\n\nNew paragraph',
+  },
+];
+
+interface PasteTracer {
+  current: PasteRecord | null;
+  onRecord: (record: PasteRecord) => void;
+}
+
+export interface PasteTrace {
+  // Go first and last in the state's plugins, so they see each stage's input
+  // and the output of every other plugin's prop
+  plugins: [Plugin, Plugin];
+  tracer: PasteTracer;
+}
+
+const pasteTraceKey = new PluginKey('pasteTrace');
+// Ids keep counting across views, since the editor is rebuilt with the schema
+let nextRecordId = 1;
+// The plugins added by createPasteTrace, left out of pasteHandlers
+const tracePlugins = new WeakSet<Plugin>();
+
+// Starts a record. The view handles a paste synchronously, so the record is
+// complete by the next microtask.
+function begin(tracer: PasteTracer, source: PasteSource, html: string | null, text: string | null): PasteRecord {
+  const record: PasteRecord = {
+    id: nextRecordId++, time: Date.now(), source, html, text,
+    transformedHTML: null, transformedText: null, plain: false, internalDrag: false,
+    parsed: null, transformed: null, reachedDefault: false, transactions: [],
+  };
+  tracer.current = record;
+  queueMicrotask(() => {
+    if (tracer.current === record) tracer.current = null;
+    // Drops of files and the like never reach the parser
+    if (record.html === null && record.text === null && !record.parsed && record.transactions.length === 0) return;
+    tracer.onRecord(record);
+  });
+  return record;
+}
+
+// Stages can run without a paste event, e.g. for view.pasteHTML() calls
+const ensure = (tracer: PasteTracer) => tracer.current ?? begin(tracer, 'paste', null, null);
+
+export function createPasteTrace(onRecord: (record: PasteRecord) => void): PasteTrace {
+  const tracer: PasteTracer = { current: null, onRecord };
+  const first = new Plugin({
+    key: pasteTraceKey,
+    tracer,
+    props: {
+      handleDOMEvents: {
+        paste: (_view, event) => {
+          const data = event.clipboardData;
+          begin(tracer, 'paste', data?.getData('text/html') || null, data?.getData('text/plain') || null);
+          return false;
+        },
+        drop: (view, event) => {
+          const data = event.dataTransfer;
+          const record = begin(tracer, 'drop', data?.getData('text/html') || null, data?.getData('text/plain') || null);
+          record.internalDrag = !!view.dragging?.slice;
+          return false;
+        },
+      },
+      transformPastedHTML: html => {
+        const record = ensure(tracer);
+        if (record.html === null) record.html = html;
+        return html;
+      },
+      transformPastedText: (text, plain) => {
+        const record = ensure(tracer);
+        if (record.text === null) record.text = text;
+        record.plain = plain;
+        return text;
+      },
+      transformPasted: slice => {
+        ensure(tracer).parsed = slice;
+        return slice;
+      },
+    },
+  });
+  const last = new Plugin({
+    props: {
+      transformPastedHTML: html => {
+        if (tracer.current) tracer.current.transformedHTML = html;
+        return html;
+      },
+      transformPastedText: text => {
+        if (tracer.current) tracer.current.transformedText = text;
+        return text;
+      },
+      transformPasted: slice => {
+        if (tracer.current) tracer.current.transformed = slice;
+        return slice;
+      },
+      // Only reached when no other plugin handled the paste
+      handlePaste: () => {
+        if (tracer.current) tracer.current.reachedDefault = true;
+        return false;
+      },
+      handleDrop: () => {
+        if (tracer.current) tracer.current.reachedDefault = true;
+        return false;
+      },
+    },
+  });
+  tracePlugins.add(first).add(last);
+  return { plugins: [first, last], tracer };
+}
+
+// Plugins that may have handled a paste or drop themselves, in the order the
+// view asks them
+export function pasteHandlers(view: EditorView, source: PasteSource): Plugin[] {
+  const prop = source === 'drop' ? 'handleDrop' : 'handlePaste';
+  const plugins: Plugin[] = [...(view.props.plugins || []), ...view.state.plugins];
+  return plugins.filter(plugin => plugin.props[prop] && !tracePlugins.has(plugin));
+}
+
+// Attaches a dispatched transaction to the paste being handled, if any
+export function tracePasteTransaction(tracer: PasteTracer, transaction: Transaction, stateBefore: EditorState, stateAfter: EditorState) {
+  tracer.current?.transactions.push({ transaction, stateBefore, stateAfter });
+}
+
+// Runs a fixture through the view's paste handling, as if it came from the
+// clipboard. Returns whether anything handled it.
+export function pasteFixture(view: EditorView, fixture: Pick<PasteFixture, 'html' | 'text'>): boolean {
+  const tracer: PasteTracer | undefined = pasteTraceKey.get(view.state)?.spec.tracer;
+  if (tracer) begin(tracer, 'fixture', fixture.html || null, fixture.text || null);
+  return fixture.html ? view.pasteHTML(fixture.html) : view.pasteText(fixture.text);
+}
+
+export interface PasteOutcome {
+  entry: PasteTransaction;
+  // Range the paste replaced in the old document
+  replacedFrom: number;
+  replacedTo: number;
+  // Range the pasted content ended up in
+  insertedFrom: number;
+  insertedTo: number;
+  inserted: Slice;
+  // Node counts that differ between the pasted slice and what was inserted,
+  // e.g. "table_row ×2"
+  dropped: string[];
+  added: string[];
+  droppedText: number;
+}
+
+// Node counts by type, leaving out the open nodes along the slice's edges,
+// which only stand for the nodes the slice is cut out of
+function tally(slice: Slice): Map<string, number> {
+  const open = new Set<Node>();
+  for (let node = slice.content.firstChild, depth = 0; node && depth < slice.openStart; node = node.firstChild, depth++) open.add(node);
+  for (let node = slice.content.lastChild, depth = 0; node && depth < slice.openEnd; node = node.lastChild, depth++) open.add(node);
+  const counts = new Map<string, number>();
+  slice.content.descendants(node => {
+    if (!node.isText && !open.has(node)) counts.set(node.type.name, (counts.get(node.type.name) ?? 0) + 1);
+  });
+  return counts;
+}
+
+const countLabel = (name: string, count: number) => count === 1 ? name : `${name} ×${count}`;
+
+// How replaceSelection (or the drop logic) fitted the pasted slice into the
+// document: where it went, and which nodes got dropped or added as wrappers
+export function pasteOutcome(record: PasteRecord): PasteOutcome | null {
+  const entry = record.transactions.find(({ transaction }) =>
+    transaction.getMeta('paste') || transaction.getMeta('uiEvent') === 'drop') ?? record.transactions[0];
+  const slice = record.transformed ?? record.parsed;
+  if (!entry || !slice) return null;
+
+  const { transaction } = entry;
+  const maps = transaction.mapping.maps;
+  let replacedFrom = Infinity;
+  let replacedTo = -Infinity;
+  let insertedFrom = Infinity;
+  let insertedTo = -Infinity;
+  maps.forEach((map, idx) => {
+    const before = transaction.mapping.slice(0, idx).invert();
+    const after = transaction.mapping.slice(idx + 1);
+    map.forEach((oldStart, oldEnd, newStart, newEnd) => {
+      replacedFrom = Math.min(replacedFrom, before.map(oldStart, -1));
+      replacedTo = Math.max(replacedTo, before.map(oldEnd, 1));
+      insertedFrom = Math.min(insertedFrom, after.map(newStart, -1));
+      insertedTo = Math.max(insertedTo, after.map(newEnd, 1));
+    });
+  });
+  // Nothing was replaced, e.g. because none of the content fit
+  if (insertedFrom > insertedTo) {
+    replacedFrom = replacedTo = insertedFrom = insertedTo = entry.stateBefore.selection.from;
+  }
+  const inserted = transaction.doc.slice(insertedFrom, insertedTo);
+
+  const pastedCounts = tally(slice);
+  const insertedCounts = tally(inserted);
+  const dropped: string[] = [];
+  const added: string[] = [];
+  for (const name of new Set([...pastedCounts.keys(), ...insertedCounts.keys()])) {
+    const diff = (insertedCounts.get(name) ?? 0) - (pastedCounts.get(name) ?? 0);
+    if (diff < 0) dropped.push(countLabel(name, -diff));
+    if (diff > 0) added.push(countLabel(name, diff));
+  }
+  const textSize = (fragment: Fragment) => fragment.textBetween(0, fragment.size, '', '').length;
+
+  return {
+    entry, replacedFrom, replacedTo, insertedFrom, insertedTo, inserted, dropped, added,
+    droppedText: Math.max(0, textSize(slice.content) - textSize(inserted.content)),
+  };
+}
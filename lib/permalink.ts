@@ -0,0 +1,88 @@
+import { Workspace } from '../types';
+import { DEFAULT_SCHEMA_CODE } from './utils';
+import { defaultPluginDefinitions } from './plugins';
+import { DEFAULT_NODE_VIEW_CODE } from './nodeViews';
+import { DEFAULT_WATCH_EXPRESSION } from './watch';
+
+// The fragment looks like `#ws=1.<base64url of deflated JSON>`. The version
+// prefix lets later formats keep reading old links.
+const FRAGMENT_KEY = 'ws';
+const FORMAT_VERSION = '1';
+
+async function pipe(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked, since spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+export async function encodeWorkspace(workspace: Workspace): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(workspace));
+  const compressed = await pipe(json, new CompressionStream('deflate-raw'));
+  return `${FRAGMENT_KEY}=${FORMAT_VERSION}.${toBase64Url(compressed)}`;
+}
+
+// Reads a workspace from a location hash. Returns null when the hash doesn't
+// hold one and throws when it does but can't be read.
+export async function decodeWorkspace(hash: string): Promise<Workspace | null> {
+  const prefix = `${FRAGMENT_KEY}=`;
+  const fragment = hash.replace(/^#/, '');
+  if (!fragment.startsWith(prefix)) return null;
+
+  const [version, data] = fragment.slice(prefix.length).split('.', 2);
+  if (version !== FORMAT_VERSION || !data) {
+    throw new Error(`Unsupported workspace link format "${version}"`);
+  }
+  const json = await pipe(fromBase64Url(data), new DecompressionStream('deflate-raw'));
+  const workspace = JSON.parse(new TextDecoder().decode(json));
+  if (!workspace || typeof workspace.schemaCode !== 'string') {
+    throw new Error('The link does not contain a workspace');
+  }
+  return workspace as Workspace;
+}
+
+export function hasWorkspaceFragment(hash: string): boolean {
+  return hash.replace(/^#/, '').startsWith(`${FRAGMENT_KEY}=`);
+}
+
+export interface LinkedCode {
+  label: string;
+  code: string;
+}
+
+// Everything in a workspace that gets evaluated as JavaScript, apart from
+// the app's own defaults. A link can come from anyone, so none of it runs
+// until the user has seen it.
+export function linkedCode(workspace: Workspace): LinkedCode[] {
+  const code: LinkedCode[] = [];
+  if (workspace.schemaCode !== DEFAULT_SCHEMA_CODE) code.push({ label: 'Schema', code: workspace.schemaCode });
+  const defaultPlugins = defaultPluginDefinitions().map(plugin => plugin.code);
+  for (const plugin of workspace.plugins) {
+    if (!defaultPlugins.includes(plugin.code)) code.push({ label: `Plugin "${plugin.name}"`, code: plugin.code });
+  }
+  if (workspace.nodeViewCode !== DEFAULT_NODE_VIEW_CODE) code.push({ label: 'Node views', code: workspace.nodeViewCode });
+  for (const rule of workspace.inputRules ?? []) {
+    const parts = [rule.attrs && `attrs: ${rule.attrs}`, rule.handler && `handler: ${rule.handler}`].filter(Boolean);
+    if (parts.length) code.push({ label: `Input rule "${rule.name || rule.pattern}"`, code: parts.join('\n') });
+  }
+  for (const binding of workspace.keyBindings ?? []) {
+    code.push({ label: `Key binding ${binding.key}`, code: binding.command });
+  }
+  for (const watch of workspace.watches) {
+    if (watch.expression === DEFAULT_WATCH_EXPRESSION) continue;
+    code.push({ label: `Watch "${watch.name || watch.expression}"`, code: watch.expression });
+  }
+  return code;
+}
@@ -0,0 +1,319 @@
+import * as pmCommands from 'prosemirror-commands';
+import * as pmModel from 'prosemirror-model';
+import * as pmState from 'prosemirror-state';
+import * as pmTransform from 'prosemirror-transform';
+import * as pmView from 'prosemirror-view';
+import { Schema } from 'prosemirror-model';
+import { Command, EditorState, EditorStateConfig, Plugin, PluginKey, PluginSpec, Transaction } from 'prosemirror-state';
+import { history, redo, undo } from 'prosemirror-history';
+import { keymap } from 'prosemirror-keymap';
+import { gapCursor } from 'prosemirror-gapcursor';
+import { InputRule, inputRules } from 'prosemirror-inputrules';
+import { FiredInput, InputRuleConfig, KeyBindingConfig, PluginDefinition, PluginRuntimeError, PluginTrace } from '../types';
+import { buildInputRule, buildKeyBinding, inputScope } from './inputRules';
+import { locateEvaluationError } from './codeEditor';
+import { copyPluginKey, pluginKeyName, wrapInputRuleHandler } from './internals';
+import { errorMessage } from './utils';
+
+export function createPluginDefinition(name: string, code: string, enabled = true): PluginDefinition {
+  return { id: crypto.randomUUID(), name, code, enabled };
+}
+
+// What the editor used to hard-code, as editable definitions
+export function defaultPluginDefinitions(): PluginDefinition[] {
+  return [
+    createPluginDefinition('history', 'return history();'),
+    createPluginDefinition('input rules', '// rules are the enabled rules from the Rules & Keys panel\nreturn inputRules({ rules });'),
+    createPluginDefinition('keymap', '// bindings are the enabled bindings from the Rules & Keys panel\nreturn keymap(bindings);'),
+    createPluginDefinition('base keymap', 'return keymap(baseKeymap);'),
+    createPluginDefinition('gap cursor', 'return gapCursor();'),
+  ];
+}
+
+export const NEW_PLUGIN_CODE = `// Return a Plugin, or an array of plugins
+const key = new PluginKey('counter');
+return new Plugin({
+  key,
+  state: {
+    init: () => 0,
+    apply: (tr, count) => tr.docChanged ? count + 1 : count,
+  },
+});
+`;
+
+// The variables plugin code can use
+export function pluginScope(
+  schema: Schema | null,
+  rules: InputRule[] = [],
+  bindings: Record<string, Command> = {}
+): Record<string, unknown> {
+  return {
+    schema,
+    Plugin,
+    PluginKey,
+    history,
+    undo,
+    redo,
+    keymap,
+    baseKeymap: pmCommands.baseKeymap,
+    inputRules,
+    gapCursor,
+    rules,
+    bindings,
+    commands: pmCommands,
+    model: pmModel,
+    state: pmState,
+    transform: pmTransform,
+    view: pmView,
+  };
+}
+
+export interface PluginCompileError {
+  id: string;
+  message: string;
+  // 1-based, when the error could be traced back to the code
+  line: number | null;
+  column?: number;
+}
+
+// Collects what the instrumented hooks report. `current` is reset for each
+// dispatch.
+export interface PluginTracer {
+  current: { appendedBy: Map<Transaction, string>; filtered: PluginTrace['filtered'] };
+  errors: PluginRuntimeError[];
+  // Input rules and key bindings that handled input, oldest first. They run
+  // before their transaction is dispatched, so they aren't part of `current`.
+  fired: FiredInput[];
+}
+
+// The input rules and key bindings the `rules` and `bindings` variables hold
+export interface InputConfigs {
+  rules: InputRuleConfig[];
+  bindings: KeyBindingConfig[];
+}
+
+export interface CompiledPlugins {
+  plugins: Plugin[];
+  errors: PluginCompileError[];
+  tracer: PluginTracer;
+}
+
+const MAX_RUNTIME_ERRORS = 50;
+const MAX_FIRED = 20;
+
+// Definition names of compiled plugins, for display
+const pluginNames = new WeakMap<Plugin, string>();
+
+export function pluginLabel(plugin: Plugin): string {
+  const name = pluginNames.get(plugin);
+  return name ? `${name} (${pluginKeyName(plugin)})` : pluginKeyName(plugin);
+}
+
+function recordError(tracer: PluginTracer, plugin: string, hook: string, e: unknown) {
+  tracer.errors = [
+    ...tracer.errors,
+    { plugin, hook, message: errorMessage(e), time: Date.now() },
+  ].slice(-MAX_RUNTIME_ERRORS);
+}
+
+function recordFired(tracer: PluginTracer, fired: Omit<FiredInput, 'time'>) {
+  tracer.fired = [...tracer.fired, { ...fired, time: Date.now() }].slice(-MAX_FIRED);
+}
+
+// A copy of the plugin whose hooks tell the tracer which plugin appended or
+// filtered a transaction. Exceptions are recorded and swallowed, falling back
+// to what the plugin would do without the hook, since an exception in
+// dispatch would leave the editor stuck. The user's plugin is left as it was.
+function instrument(plugin: Plugin, tracer: PluginTracer): Plugin {
+  const spec: PluginSpec<unknown> = { ...plugin.spec };
+  const label = () => pluginLabel(plugin);
+  const record = (hook: string, e: unknown) => recordError(tracer, label(), hook, e);
+
+  if (spec.state) {
+    const field = spec.state;
+    spec.state = {
+      ...field,
+      init(config: EditorStateConfig, state: EditorState) {
+        try {
+          return field.init.call(this, config, state);
+        } catch (e) {
+          record('state.init', e);
+          return undefined;
+        }
+      },
+      apply(tr: Transaction, value: unknown, oldState: EditorState, newState: EditorState) {
+        try {
+          return field.apply.call(this, tr, value, oldState, newState);
+        } catch (e) {
+          record('state.apply', e);
+          return value;
+        }
+      },
+    };
+  }
+
+  if (spec.filterTransaction) {
+    const filter = spec.filterTransaction;
+    spec.filterTransaction = function (tr: Transaction, state: EditorState) {
+      let allowed = true;
+      try {
+        allowed = filter.call(this, tr, state);
+      } catch (e) {
+        record('filterTransaction', e);
+      }
+      if (!allowed) tracer.current.filtered.push({ plugin: label(), transaction: tr });
+      return allowed;
+    };
+  }
+
+  if (spec.appendTransaction) {
+    const append = spec.appendTransaction;
+    spec.appendTransaction = function (transactions: readonly Transaction[], oldState: EditorState, newState: EditorState) {
+      try {
+        const tr = append.call(this, transactions, oldState, newState);
+        if (tr) tracer.current.appendedBy.set(tr, label());
+        return tr;
+      } catch (e) {
+        record('appendTransaction', e);
+        return null;
+      }
+    };
+  }
+
+  if (spec.view) {
+    const createView = spec.view;
+    spec.view = function (view: pmView.EditorView) {
+      try {
+        return createView.call(this, view);
+      } catch (e) {
+        record('view', e);
+        return {};
+      }
+    };
+  }
+
+  const instrumented = new Plugin(spec);
+  copyPluginKey(plugin, instrumented);
+  return instrumented;
+}
+
+// The enabled input rules, reporting to the tracer when they fire
+function compileInputRules(configs: InputRuleConfig[], schema: Schema, tracer: PluginTracer, errors: PluginCompileError[]): InputRule[] {
+  const scope = inputScope(schema);
+  const rules: InputRule[] = [];
+  for (const config of configs) {
+    if (!config.enabled) continue;
+    let rule: InputRule;
+    try {
+      rule = buildInputRule(config, schema, scope);
+    } catch (e) {
+      errors.push({ id: config.id, message: errorMessage(e), line: null });
+      continue;
+    }
+    wrapInputRuleHandler(rule, handler => (state, match, start, end) => {
+      try {
+        const tr = handler(state, match, start, end);
+        if (tr) recordFired(tracer, { id: config.id, kind: 'rule', name: config.name || config.pattern });
+        return tr;
+      } catch (e) {
+        recordError(tracer, config.name || config.pattern, 'input rule', e);
+        return null;
+      }
+    });
+    rules.push(rule);
+  }
+  return rules;
+}
+
+// The enabled key bindings, reporting to the tracer when they apply. Bindings
+// for the same key are chained in order.
+function compileKeyBindings(configs: KeyBindingConfig[], schema: Schema, tracer: PluginTracer, errors: PluginCompileError[]): Record<string, Command> {
+  const scope = inputScope(schema);
+  const bindings: Record<string, Command> = {};
+  for (const config of configs) {
+    if (!config.enabled) continue;
+    let command: Command;
+    try {
+      command = buildKeyBinding(config, scope);
+      // keymap() throws on unknown modifiers; better to blame the binding
+      keymap({ [config.key]: command });
+    } catch (e) {
+      errors.push({ id: config.id, message: errorMessage(e), line: null });
+      continue;
+    }
+    const instrumented: Command = (state, dispatch, view) => {
+      try {
+        const applied = command(state, dispatch, view);
+        if (applied && dispatch) recordFired(tracer, { id: config.id, kind: 'binding', name: config.key });
+        return applied;
+      } catch (e) {
+        recordError(tracer, config.key, 'key binding', e);
+        return false;
+      }
+    };
+    const existing = bindings[config.key];
+    bindings[config.key] = existing ? pmCommands.chainCommands(existing, instrumented) : instrumented;
+  }
+  return bindings;
+}
+
+// Evaluate the enabled definitions, in order. A definition that fails is left
+// out and reported; the rest still load. The same goes for input rules and
+// key bindings.
+export function compilePlugins(definitions: PluginDefinition[], schema: Schema, input: InputConfigs): CompiledPlugins {
+  const tracer: PluginTracer = { current: { appendedBy: new Map(), filtered: [] }, errors: [], fired: [] };
+  const plugins: Plugin[] = [];
+  const errors: PluginCompileError[] = [];
+  const rules = compileInputRules(input.rules, schema, tracer, errors);
+  const bindings = compileKeyBindings(input.bindings, schema, tracer, errors);
+  const scope = pluginScope(schema, rules, bindings);
+
+  for (const definition of definitions) {
+    if (!definition.enabled) continue;
+    let result: unknown;
+    try {
+      const creator = new Function(...Object.keys(scope), definition.code);
+      result = creator(...Object.values(scope));
+    } catch (e) {
+      const location = locateEvaluationError(e, definition.code);
+      errors.push({ id: definition.id, message: errorMessage(e), line: location?.line ?? null, column: location?.column });
+      continue;
+    }
+
+    const created = (Array.isArray(result) ? result : [result]).flat(Infinity);
+    const invalid = created.find(item => !(item instanceof Plugin));
+    if (invalid !== undefined || created.length === 0) {
+      errors.push({ id: definition.id, message: 'The code must return a Plugin or an array of plugins.', line: null });
+      continue;
+    }
+    // EditorState.create throws on these, taking every other plugin down with it
+    const duplicate = (created as Plugin[]).find(plugin => plugins.some(other => pluginKeyName(other) === pluginKeyName(plugin)));
+    if (duplicate) {
+      errors.push({ id: definition.id, message: `Another plugin already uses the key "${pluginKeyName(duplicate)}".`, line: null });
+      continue;
+    }
+
+    for (const plugin of created as Plugin[]) {
+      pluginNames.set(plugin, definition.name);
+      const instrumented = instrument(plugin, tracer);
+      pluginNames.set(instrumented, definition.name);
+      plugins.push(instrumented);
+    }
+  }
+
+  return { plugins, errors, tracer };
+}
+
+export function startTrace(tracer: PluginTracer) {
+  tracer.current = { appendedBy: new Map(), filtered: [] };
+}
+
+// The trace of the dispatch since startTrace. `appended` are the transactions
+// applyTransaction returned after the root one.
+export function finishTrace(tracer: PluginTracer, appended: readonly Transaction[]): PluginTrace {
+  const { appendedBy, filtered } = tracer.current;
+  return {
+    appendedBy: appended.map(tr => appendedBy.get(tr) || 'unknown plugin'),
+    filtered,
+  };
+}
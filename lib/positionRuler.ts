@@ -0,0 +1,71 @@
+import { Node } from 'prosemirror-model';
+import { Decoration, DecorationSet, DirectEditorProps } from 'prosemirror-view';
+
+// Decorations only depend on the document, so they're cached per doc. Docs are
+// immutable, which makes a WeakMap safe here.
+const cache = new WeakMap<Node, DecorationSet>();
+
+function badge(pos: number): HTMLElement {
+  const el = document.createElement('span');
+  el.className = 'pm-pos-badge';
+  el.dataset.pos = String(pos);
+  el.textContent = String(pos);
+  return el;
+}
+
+function tokenMarker(label: string, pos: number): HTMLElement {
+  const el = document.createElement('span');
+  el.className = 'pm-token-marker';
+  // Hovering a token counts as the position right before it
+  el.dataset.pos = String(pos);
+  el.textContent = label;
+  return el;
+}
+
+// Build a widget for every position in the document (0…doc.content.size), plus
+// markers for the opening and closing tokens of non-leaf nodes, the way the
+// ProseMirror guide draws them. At a single position, widgets are ordered by
+// `side`: the open token comes first, then the badge, then the close token.
+export function buildPositionDecorations(doc: Node): DecorationSet {
+  const cached = cache.get(doc);
+  if (cached) return cached;
+
+  const decorations: Decoration[] = [];
+  for (let pos = 0; pos <= doc.content.size; pos++) {
+    decorations.push(Decoration.widget(pos, () => badge(pos), { side: 0, key: `pos-${pos}`, ignoreSelection: true }));
+  }
+
+  doc.descendants((node, pos) => {
+    if (node.isLeaf) return false;
+    const name = node.type.name;
+    const end = pos + node.nodeSize;
+    decorations.push(Decoration.widget(pos + 1, () => tokenMarker(`<${name}>`, pos), {
+      side: -2, key: `open-${pos}-${name}`, ignoreSelection: true,
+    }));
+    decorations.push(Decoration.widget(end - 1, () => tokenMarker(`</${name}>`, end - 1), {
+      side: 2, key: `close-${end}-${name}`, ignoreSelection: true,
+    }));
+    return true;
+  });
+
+  const set = DecorationSet.create(doc, decorations);
+  cache.set(doc, set);
+  return set;
+}
+
+// Editor props that render the ruler and report which position is hovered.
+// These are set directly on the view rather than through a plugin, so that
+// toggling the ruler doesn't dispatch a transaction.
+export function positionRulerProps(onPosHover: (pos: number) => void): Partial<DirectEditorProps> {
+  return {
+    decorations: state => buildPositionDecorations(state.doc),
+    handleDOMEvents: {
+      mouseover: (_view, event) => {
+        const target = event.target as HTMLElement | null;
+        const pos = target?.dataset?.pos;
+        if (pos !== undefined) onPosHover(parseInt(pos, 10));
+        return false;
+      },
+    },
+  };
+}
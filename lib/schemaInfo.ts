@@ -0,0 +1,91 @@
+import { ContentMatch, MarkType, NodeType, Schema } from 'prosemirror-model';
+
+export function nodeTypes(schema: Schema): NodeType[] {
+  return Object.keys(schema.nodes).map(name => schema.nodes[name]);
+}
+
+export function markTypes(schema: Schema): MarkType[] {
+  return Object.keys(schema.marks).map(name => schema.marks[name]);
+}
+
+export interface MatchState {
+  id: number;
+  match: ContentMatch;
+  validEnd: boolean;
+  // BFS distance from the start state, used for layout
+  level: number;
+}
+
+export interface MatchTransition {
+  from: number;
+  to: number;
+  type: NodeType;
+}
+
+export interface MatchGraph {
+  states: MatchState[];
+  transitions: MatchTransition[];
+}
+
+// Enumerate the finite automaton compiled from a content expression, starting
+// at `start` (usually NodeType.contentMatch). State 0 is the start state.
+export function contentMatchGraph(start: ContentMatch): MatchGraph {
+  const states: MatchState[] = [];
+  const transitions: MatchTransition[] = [];
+  const ids = new Map<ContentMatch, number>();
+
+  const visit = (match: ContentMatch, level: number) => {
+    const id = states.length;
+    ids.set(match, id);
+    states.push({ id, match, validEnd: match.validEnd, level });
+    return id;
+  };
+
+  visit(start, 0);
+  for (let i = 0; i < states.length; i++) {
+    const { match, level } = states[i];
+    for (let n = 0; n < match.edgeCount; n++) {
+      const { type, next } = match.edge(n);
+      const to = ids.has(next) ? ids.get(next)! : visit(next, level + 1);
+      transitions.push({ from: i, to, type });
+    }
+  }
+
+  return { states, transitions };
+}
+
+// Node types whose content expression mentions `type` anywhere
+export function possibleParents(schema: Schema, type: NodeType): NodeType[] {
+  return nodeTypes(schema).filter(parent =>
+    contentMatchGraph(parent.contentMatch).transitions.some(t => t.type === type)
+  );
+}
+
+// Node types that may appear as direct children of `type`
+export function possibleChildren(type: NodeType): NodeType[] {
+  const children = new Set<NodeType>();
+  contentMatchGraph(type.contentMatch).transitions.forEach(t => children.add(t.type));
+  return Array.from(children);
+}
+
+// Node types a match state would accept next
+export function nextTypes(match: ContentMatch): NodeType[] {
+  const types: NodeType[] = [];
+  for (let n = 0; n < match.edgeCount; n++) types.push(match.edge(n).type);
+  return types;
+}
+
+export function groupsOf(type: NodeType | MarkType): string[] {
+  return (type.spec.group || '').split(' ').filter(Boolean);
+}
+
+// Mark types allowed inside nodes of `type`
+export function allowedMarkTypes(schema: Schema, type: NodeType): MarkType[] {
+  return markTypes(schema).filter(mark => type.allowsMarkType(mark));
+}
+
+// Mark types that can't coexist with `type` (including itself, unless the
+// mark spec sets `excludes: ""`)
+export function excludedMarkTypes(schema: Schema, type: MarkType): MarkType[] {
+  return markTypes(schema).filter(other => type.excludes(other));
+}
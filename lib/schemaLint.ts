@@ -0,0 +1,199 @@
+import { MarkType, NodeType, Schema, TagParseRule, StyleParseRule } from 'prosemirror-model';
+import { InputRuleConfig, SchemaWarning } from '../types';
+import { attributeSpecs } from './migration';
+import { suggestInputRules } from './inputRules';
+import { markTypes, nodeTypes, possibleChildren } from './schemaInfo';
+import { errorMessage } from './utils';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 1-based line of the first match of `pattern` at or after line `fromLine`
+function findLine(code: string, pattern: RegExp, fromLine = 1): number | null {
+  const lines = code.split('\n');
+  for (let i = fromLine - 1; i < lines.length; i++) {
+    if (pattern.test(lines[i])) return i + 1;
+  }
+  return null;
+}
+
+// Where a node or mark spec is defined: the first `name:` key in the source.
+// This is a heuristic, but it matches the usual `const nodes = { name: {...} }`
+// layout (quoted keys included).
+function definitionLine(code: string, name: string): number | null {
+  return findLine(code, new RegExp(`(^|[\\s{,])(["']?)${escapeRegExp(name)}\\2\\s*:`));
+}
+
+function lineAfter(code: string, pattern: RegExp, fromLine: number | null): number | null {
+  return findLine(code, pattern, fromLine || 1) ?? fromLine;
+}
+
+interface CollectedRule {
+  owner: NodeType | MarkType;
+  selector: string;
+  kind: 'tag' | 'style';
+  priority: number;
+  // Rules with getAttrs or context can decline to match, so they never shadow
+  conditional: boolean;
+}
+
+// Order parse rules the way DOMParser.fromSchema does: marks before nodes,
+// then stable by descending priority
+function collectParseRules(schema: Schema): CollectedRule[] {
+  const result: CollectedRule[] = [];
+  const insert = (rule: CollectedRule) => {
+    let i = 0;
+    for (; i < result.length; i++) {
+      if (result[i].priority < rule.priority) break;
+    }
+    result.splice(i, 0, rule);
+  };
+  const add = (owner: NodeType | MarkType, rules: readonly (TagParseRule | StyleParseRule)[] | undefined) => {
+    for (const rule of rules || []) {
+      const isTag = 'tag' in rule && !!rule.tag;
+      insert({
+        owner,
+        selector: isTag ? (rule as TagParseRule).tag : (rule as StyleParseRule).style,
+        kind: isTag ? 'tag' : 'style',
+        priority: rule.priority ?? 50,
+        conditional: !!(rule.getAttrs || rule.context),
+      });
+    }
+  };
+  markTypes(schema).forEach(type => add(type, type.spec.parseDOM));
+  nodeTypes(schema).forEach(type => add(type, type.spec.parseDOM));
+  return result;
+}
+
+interface InputRuleTarget {
+  name: string;
+  nodeType: NodeType;
+  provides: (attr: string) => boolean;
+}
+
+// The node types the input rules in use create: the rules configured in the
+// rules panel, or the ones suggested for the schema when there are none
+function inputRuleTargets(schema: Schema, configured: InputRuleConfig[] | null): InputRuleTarget[] {
+  if (!configured) {
+    return suggestInputRules(schema).flatMap(({ config, nodeType, providedAttrs }) =>
+      nodeType ? [{ name: config.name, nodeType, provides: (attr: string) => providedAttrs.includes(attr) }] : []);
+  }
+  return configured.flatMap(config => {
+    const nodeType = config.enabled && (config.kind === 'wrapping' || config.kind === 'textblock') ? schema.nodes[config.type] : undefined;
+    if (!nodeType) return [];
+    // The attrs are code, so mentioning an attr's name counts as providing it
+    const provides = (attr: string) => new RegExp(`\\b${escapeRegExp(attr)}\\b`).test(config.attrs);
+    return [{ name: config.name || config.pattern, nodeType, provides }];
+  });
+}
+
+// Warnings for schemas that construct fine but are likely to misbehave.
+// `code` is the source the schema was built from, used to point at lines.
+// `inputRules` are the rules configured in the rules panel, if any.
+export function lintSchema(schema: Schema, code: string, inputRules: InputRuleConfig[] | null = null): SchemaWarning[] {
+  const warnings: SchemaWarning[] = [];
+  const top = schema.topNodeType;
+
+  // Node types unreachable from the top node
+  const reachable = new Set<NodeType>([top]);
+  const queue = [top];
+  while (queue.length) {
+    for (const child of possibleChildren(queue.shift()!)) {
+      if (!reachable.has(child)) {
+        reachable.add(child);
+        queue.push(child);
+      }
+    }
+  }
+  for (const type of nodeTypes(schema)) {
+    if (!reachable.has(type)) {
+      warnings.push({
+        rule: 'unreachable-node',
+        message: `Node "${type.name}" can't appear in a "${top.name}": no reachable content expression allows it`,
+        line: definitionLine(code, type.name),
+      });
+    }
+  }
+
+  // Required content that can't be generated
+  for (const type of nodeTypes(schema)) {
+    if (type.isText) continue;
+    let problem: string | null = null;
+    try {
+      if (!type.createAndFill()) {
+        problem = `createAndFill() returns null for "${type.name}": its content "${type.spec.content}" requires nodes that can't be generated`;
+      }
+    } catch (e) {
+      problem = `createAndFill() throws for "${type.name}": ${errorMessage(e)}`;
+    }
+    if (problem) {
+      warnings.push({ rule: 'unfillable-content', message: problem, line: definitionLine(code, type.name) });
+    }
+  }
+
+  // Missing serialization and parsing
+  for (const type of [...nodeTypes(schema), ...markTypes(schema)]) {
+    const isNode = type instanceof NodeType;
+    if (isNode && (type === top || type.isText)) continue;
+    const what = isNode ? 'Node' : 'Mark';
+    if (!type.spec.toDOM) {
+      warnings.push({
+        rule: 'missing-to-dom',
+        message: `${what} "${type.name}" has no toDOM, so it can't be rendered or copied`,
+        line: definitionLine(code, type.name),
+      });
+    }
+    if (!type.spec.parseDOM || type.spec.parseDOM.length === 0) {
+      warnings.push({
+        rule: 'missing-parse-dom',
+        message: `${what} "${type.name}" has no parseDOM rules, so pasted content never produces it`,
+        line: definitionLine(code, type.name),
+      });
+    }
+  }
+
+  // Parse rules that can never match because an earlier unconditional rule
+  // with the same selector always wins
+  const rules = collectParseRules(schema);
+  rules.forEach((rule, idx) => {
+    const winner = rules.slice(0, idx).find(other =>
+      other.kind === rule.kind && other.selector === rule.selector && !other.conditional
+    );
+    if (!winner) return;
+    const key = rule.kind === 'tag' ? 'tag' : 'style';
+    warnings.push({
+      rule: 'shadowed-parse-rule',
+      message: `parseDOM rule {${key}: "${rule.selector}"} on "${rule.owner.name}" is shadowed by the same rule on "${winner.owner.name}"` +
+        (winner.owner === rule.owner ? '' : '; raise its priority or add getAttrs to the earlier one'),
+      line: lineAfter(
+        code,
+        new RegExp(`${key}\\s*:\\s*["'\`]${escapeRegExp(rule.selector)}["'\`]`),
+        definitionLine(code, rule.owner.name)
+      ),
+    });
+  });
+
+  // Marks that no node allows
+  for (const mark of markTypes(schema)) {
+    if (!nodeTypes(schema).some(node => node.inlineContent && node.allowsMarkType(mark))) {
+      warnings.push({
+        rule: 'unusable-mark',
+        message: `Mark "${mark.name}" isn't allowed in any node with inline content`,
+        line: definitionLine(code, mark.name),
+      });
+    }
+  }
+
+  // Input rules in use creating nodes with attrs they don't provide
+  for (const { name: rule, nodeType, provides } of inputRuleTargets(schema, inputRules)) {
+    for (const [name, spec] of Object.entries(attributeSpecs(nodeType))) {
+      if ('default' in spec || provides(name)) continue;
+      warnings.push({
+        rule: 'input-rule-attr',
+        message: `The "${rule}" input rule creates "${nodeType.name}" without a value for its required attr "${name}"`,
+        line: lineAfter(code, new RegExp(`(^|[\\s{,])(["']?)${escapeRegExp(name)}\\2\\s*:`), definitionLine(code, nodeType.name)),
+      });
+    }
+  }
+
+  return warnings;
+}
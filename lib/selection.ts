@@ -0,0 +1,200 @@
+import { Node, ResolvedPos } from 'prosemirror-model';
+import { AllSelection, NodeSelection, Selection, SelectionRange, TextSelection } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { GapCursor } from 'prosemirror-gapcursor';
+import { evaluateExpression, expressionScope } from './watch';
+import { isValidGapCursor } from './internals';
+import { errorMessage } from './utils';
+
+export type SelectionKind = 'text' | 'node' | 'all' | 'gap' | 'custom';
+
+// Lists are cut here; a document can have many candidates
+const MAX_TARGETS = 200;
+
+export interface ResolvedPosInfo {
+  pos: number;
+  depth: number;
+  // Type names from the doc down to the parent
+  path: string[];
+  parentOffset: number;
+  index: number;
+  inlineContent: boolean;
+}
+
+// A different selection the static Selection helpers would pick
+export interface SelectionAlternative {
+  label: string;
+  selection: Selection | null;
+  // Whether it equals the selection being inspected
+  same: boolean;
+}
+
+// A node a NodeSelection can be put on that clicking rarely reaches
+export interface NodeSelectionTarget {
+  pos: number;
+  type: string;
+  atom: boolean;
+  isolating: boolean;
+  selectable: boolean;
+}
+
+export interface SelectionDraft {
+  kind: SelectionKind;
+  anchor: number;
+  // Also where a gap cursor goes
+  head: number;
+  nodePos: number;
+  // Expression evaluating to a Selection, for custom kinds
+  expression: string;
+}
+
+export function selectionKind(selection: Selection): SelectionKind {
+  if (selection instanceof TextSelection) return 'text';
+  if (selection instanceof NodeSelection) return 'node';
+  if (selection instanceof AllSelection) return 'all';
+  if (selection instanceof GapCursor) return 'gap';
+  return 'custom';
+}
+
+export function describeResolvedPos($pos: ResolvedPos): ResolvedPosInfo {
+  const path: string[] = [];
+  for (let depth = 0; depth <= $pos.depth; depth++) path.push($pos.node(depth).type.name);
+  return {
+    pos: $pos.pos,
+    depth: $pos.depth,
+    path,
+    parentOffset: $pos.parentOffset,
+    index: $pos.index(),
+    inlineContent: $pos.parent.inlineContent,
+  };
+}
+
+// Isolating ancestors of `$pos` below `depth`, which a selection crosses
+// when its other end is outside them
+function isolatingBelow($pos: ResolvedPos, depth: number): string[] {
+  const names: string[] = [];
+  for (let d = $pos.depth; d > depth; d--) {
+    if ($pos.node(d).type.spec.isolating) names.push($pos.node(d).type.name);
+  }
+  return names;
+}
+
+// Things about a selection that commands or the view tend to trip over
+export function selectionWarnings(selection: Selection): string[] {
+  const warnings: string[] = [];
+  if (selection instanceof TextSelection) {
+    if (!selection.$anchor.parent.inlineContent) warnings.push(`The anchor isn't in inline content (parent is ${selection.$anchor.parent.type.name})`);
+    if (!selection.$head.parent.inlineContent) warnings.push(`The head isn't in inline content (parent is ${selection.$head.parent.type.name})`);
+  }
+  if (selection instanceof NodeSelection && !NodeSelection.isSelectable(selection.node)) {
+    warnings.push(`${selection.node.type.name} isn't selectable (spec.selectable is false)`);
+  }
+  const { $from, $to } = selection;
+  const shared = $from.sharedDepth($to.pos);
+  for (const name of [...isolatingBelow($from, shared), ...isolatingBelow($to, shared)]) {
+    warnings.push(`Crosses the boundary of isolating ${name}`);
+  }
+  return warnings;
+}
+
+// What Selection.near, atStart, atEnd and findFrom give for the selection
+export function selectionAlternatives(selection: Selection): SelectionAlternative[] {
+  const { $head } = selection;
+  const doc = $head.doc;
+  const alternative = (label: string, make: () => Selection | null): SelectionAlternative => {
+    let result: Selection | null;
+    try {
+      result = make();
+    } catch {
+      result = null;
+    }
+    return { label, selection: result, same: !!result && result.eq(selection) };
+  };
+  return [
+    alternative('Selection.near($head)', () => Selection.near($head)),
+    alternative('Selection.near($head, -1)', () => Selection.near($head, -1)),
+    alternative('Selection.findFrom($head, 1)', () => Selection.findFrom($head, 1)),
+    alternative('Selection.findFrom($head, -1)', () => Selection.findFrom($head, -1)),
+    alternative('Selection.atStart(doc)', () => Selection.atStart(doc)),
+    alternative('Selection.atEnd(doc)', () => Selection.atEnd(doc)),
+  ];
+}
+
+export function nodeSelectionTargets(doc: Node): NodeSelectionTarget[] {
+  const targets: NodeSelectionTarget[] = [];
+  doc.descendants((node, pos) => {
+    if (targets.length >= MAX_TARGETS) return false;
+    const isolating = !!node.type.spec.isolating;
+    if (!node.isText && (node.isAtom || isolating)) {
+      targets.push({ pos, type: node.type.name, atom: node.isAtom, isolating, selectable: NodeSelection.isSelectable(node) });
+    }
+  });
+  return targets;
+}
+
+// Positions the gap cursor plugin accepts, which arrow keys and clicks only
+// reach next to the blocks around them. Only the boundaries between the
+// children of block containers can hold one.
+export function gapCursorTargets(doc: Node): number[] {
+  const targets: number[] = [];
+  const check = (pos: number) => {
+    if (targets.length < MAX_TARGETS && isValidGapCursor(doc.resolve(pos))) targets.push(pos);
+  };
+  const checkBoundaries = (node: Node, start: number) => {
+    node.forEach((_, offset) => check(start + offset));
+    check(start + node.content.size);
+  };
+  checkBoundaries(doc, 0);
+  doc.descendants((node, pos) => {
+    if (targets.length >= MAX_TARGETS || node.inlineContent || node.isLeaf) return false;
+    checkBoundaries(node, pos + 1);
+  });
+  return targets.sort((a, b) => a - b);
+}
+
+export function selectionDraft(selection: Selection): SelectionDraft {
+  return {
+    kind: selectionKind(selection) === 'custom' ? 'text' : selectionKind(selection),
+    anchor: selection.anchor,
+    head: selection.head,
+    nodePos: selection.from,
+    expression: 'new TextSelection(state.doc.resolve(pos))',
+  };
+}
+
+// The variables a custom selection expression can use
+export function selectionScope(view: EditorView, pos: number) {
+  return { ...expressionScope(view, pos), Selection, TextSelection, NodeSelection, AllSelection, GapCursor, SelectionRange };
+}
+
+// Builds the drafted selection in the view's current document. The
+// constructors throw on positions that don't fit, which is reported as is.
+export function buildSelection(draft: SelectionDraft, view: EditorView, pos: number): { selection: Selection } | { error: string } {
+  const { doc } = view.state;
+  try {
+    switch (draft.kind) {
+      case 'text':
+        return { selection: TextSelection.create(doc, draft.anchor, draft.head) };
+      case 'node':
+        if (!doc.nodeAt(draft.nodePos)) return { error: `No node starts at ${draft.nodePos}` };
+        return { selection: NodeSelection.create(doc, draft.nodePos) };
+      case 'all':
+        return { selection: new AllSelection(doc) };
+      case 'gap': {
+        // The constructor takes any position; the plugin only creates valid ones
+        const $pos = doc.resolve(draft.head);
+        if (!isValidGapCursor($pos)) return { error: `The gap cursor plugin wouldn't put a cursor at ${draft.head}` };
+        return { selection: new GapCursor($pos) };
+      }
+      case 'custom': {
+        const result = evaluateExpression(draft.expression, view, pos, selectionScope(view, pos));
+        if ('error' in result) return { error: errorMessage(result.error) };
+        if (!(result.value instanceof Selection)) return { error: "The expression didn't return a Selection" };
+        if (result.value.$head.doc !== doc) return { error: 'The selection belongs to a different document' };
+        return { selection: result.value };
+      }
+    }
+  } catch (e) {
+    return { error: errorMessage(e) };
+  }
+}
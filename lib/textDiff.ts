@@ -0,0 +1,55 @@
+import { LineDiff } from '../types';
+
+// Beyond this many LCS cells the middle part is shown as removed + added
+// instead of computing a minimal diff
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Line-based diff (longest common subsequence) between two texts
+export function diffLines(before: string, after: string): LineDiff[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Common prefix and suffix don't need the quadratic part
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: LineDiff[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    midA.forEach(text => result.push({ type: 'removed', text }));
+    midB.forEach(text => result.push({ type: 'added', text }));
+  } else {
+    // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+    const lengths = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i][j] = midA[i] === midB[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        result.push({ type: 'same', text: midA[i++] });
+        j++;
+      } else if (i < midA.length && (j === midB.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        result.push({ type: 'removed', text: midA[i++] });
+      } else {
+        result.push({ type: 'added', text: midB[j++] });
+      }
+    }
+  }
+
+  a.slice(endA).forEach(text => result.push({ type: 'same', text }));
+  return result;
+}
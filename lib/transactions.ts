@@ -0,0 +1,127 @@
+import { EditorState, Selection, Transaction } from 'prosemirror-state';
+import { Mark, Node, Slice } from 'prosemirror-model';
+import { Step } from 'prosemirror-transform';
+import { stepField, transactionMeta } from './internals';
+
+// Maps the `stepType` written by Step.toJSON() to the class that produced it.
+// We go through the JSON instead of `constructor.name` because class names
+// don't survive minification.
+const STEP_CLASS_NAMES: Record<string, string> = {
+  replace: 'ReplaceStep',
+  replaceAround: 'ReplaceAroundStep',
+  addMark: 'AddMarkStep',
+  removeMark: 'RemoveMarkStep',
+  addNodeMark: 'AddNodeMarkStep',
+  removeNodeMark: 'RemoveNodeMarkStep',
+  attr: 'AttrStep',
+  docAttr: 'DocAttrStep',
+};
+
+const SELECTION_CLASS_NAMES: Record<string, string> = {
+  text: 'TextSelection',
+  node: 'NodeSelection',
+  all: 'AllSelection',
+  gapcursor: 'GapCursor',
+};
+
+export interface StepField {
+  name: string;
+  value: string;
+}
+
+export interface StepDescription {
+  name: string;
+  fields: StepField[];
+}
+
+export function describeSlice(slice: Slice): string {
+  return `Slice(${slice.openStart}, ${slice.openEnd}) ${slice.content.toString()}`;
+}
+
+// Mark has no toString of its own, unlike Node
+export function describeMark(mark: Mark): string {
+  const attrs = Object.keys(mark.attrs);
+  if (attrs.length === 0) return mark.type.name;
+  return `${mark.type.name}(${attrs.map(key => `${key}=${JSON.stringify(mark.attrs[key])}`).join(', ')})`;
+}
+
+export function describeMarks(marks: readonly Mark[] | null): string {
+  if (!marks) return 'null';
+  if (marks.length === 0) return '[]';
+  return `[${marks.map(describeMark).join(', ')}]`;
+}
+
+export function describeStep(step: Step): StepDescription {
+  const json = step.toJSON();
+  const name = STEP_CLASS_NAMES[json.stepType] || json.stepType || 'Step';
+  const fields: StepField[] = [];
+
+  for (const key of Object.keys(json)) {
+    if (key === 'stepType') continue;
+    const value = stepField(step, key);
+    if (value instanceof Slice) {
+      fields.push({ name: key, value: describeSlice(value) });
+    } else if (value instanceof Mark) {
+      fields.push({ name: key, value: describeMark(value) });
+    } else {
+      fields.push({ name: key, value: formatValue(json[key]) });
+    }
+  }
+
+  return { name, fields };
+}
+
+export function getSelectionTypeName(selection: Selection): string {
+  const json = selection.toJSON();
+  return SELECTION_CLASS_NAMES[json.type] || json.type || 'Selection';
+}
+
+export function describeSelection(selection: Selection): string {
+  const name = getSelectionTypeName(selection);
+  if (selection.anchor === selection.head) return `${name}(${selection.head})`;
+  return `${name}(${selection.anchor} → ${selection.head})`;
+}
+
+// Plugin keys show up as their string form, e.g. `history$` or `plugin$1`
+// for the input rules plugin
+export function getMetaEntries(tr: Transaction): [string, unknown][] {
+  const meta = transactionMeta(tr);
+  return Object.keys(meta).map(key => [key, meta[key]]);
+}
+
+// Serialize arbitrary values for display. Handles the ProseMirror objects that
+// commonly end up in metadata (transactions, nodes, states) and cycles, which
+// JSON.stringify chokes on.
+export function formatValue(value: unknown, maxDepth = 3): string {
+  const seen = new WeakSet<object>();
+
+  const walk = (val: unknown, depth: number): unknown => {
+    if (val === null || val === undefined) return val;
+    if (typeof val === 'function') return `[Function ${val.name || 'anonymous'}]`;
+    if (typeof val !== 'object') return val;
+
+    if (val instanceof EditorState) return `[EditorState doc.size=${val.doc.content.size}]`;
+    if (val instanceof Transaction) return `[Transaction ${val.steps.length} step(s)]`;
+    if (val instanceof Node) return val.toString();
+    if (val instanceof Slice) return describeSlice(val);
+    if (val instanceof Mark) return describeMark(val);
+    if (val instanceof Selection) return describeSelection(val);
+
+    if (seen.has(val)) return '[Circular]';
+    if (depth >= maxDepth) return Array.isArray(val) ? `[Array(${val.length})]` : '[Object]';
+    seen.add(val);
+
+    if (Array.isArray(val)) return val.map(item => walk(item, depth + 1));
+
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(val)) {
+      out[key] = walk((val as Record<string, unknown>)[key], depth + 1);
+    }
+    return out;
+  };
+
+  const result = walk(value, 0);
+  if (typeof result === 'string') return result;
+  if (result === undefined) return 'undefined';
+  return JSON.stringify(result);
+}
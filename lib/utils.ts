@@ -5,6 +5,13 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// A thrown value as one line, for error lists and logs
+export const errorMessage = (e: unknown) =>
+  e instanceof Error ? `${e.name || 'Error'}: ${e.message || String(e)}` : `Error: ${String(e)}`;
+
+// Initial editor content, parsed with whatever schema is active
+export const DEFAULT_DOC_HTML = `<p>Hello World!</p><p>This is a <strong>ProseMirror</strong> explorer.</p><p>Try typing markdown:</p><ul><li><ul><li>bullet list</li></ul></li></ul><ol><li><ol><li>ordered list</li></ol></li></ol><blockquote>> blockquote</blockquote><h1>Heading</h1><table><tbody><tr><td><p>Table Cell</p></td><td><p>Table Cell 2</p></td></tr></tbody></table>`;
+
 // Default Schema Code for the input
 export const DEFAULT_SCHEMA_CODE = `
 // Available variables: Schema
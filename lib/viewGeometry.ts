@@ -0,0 +1,28 @@
+import { EditorView } from 'prosemirror-view';
+
+// Screen rectangles covering the document between two positions: the DOM
+// range's client rects, or the cursor rectangle when the range is empty.
+// Returns nothing for positions the view can't map to the DOM.
+export function rangeRects(view: EditorView, from: number, to: number): DOMRect[] {
+  try {
+    if (from === to) {
+      const coords = view.coordsAtPos(from);
+      return [new DOMRect(coords.left, coords.top, Math.max(2, coords.right - coords.left), coords.bottom - coords.top)];
+    }
+    const start = view.domAtPos(from);
+    const end = view.domAtPos(to);
+    const range = document.createRange();
+    range.setStart(start.node, start.offset);
+    range.setEnd(end.node, end.offset);
+    return Array.from(range.getClientRects()).filter(rect => rect.width > 0 || rect.height > 0);
+  } catch {
+    return [];
+  }
+}
+
+// The rectangle of the node starting at `pos`, falling back to its range
+export function nodeRects(view: EditorView, pos: number, end: number): DOMRect[] {
+  const dom = view.nodeDOM(pos);
+  if (dom instanceof Element) return [dom.getBoundingClientRect()];
+  return rangeRects(view, pos, end);
+}
@@ -0,0 +1,108 @@
+import { EditorState, Selection } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { Fragment, Mark, Node, ResolvedPos, Slice } from 'prosemirror-model';
+import { Step } from 'prosemirror-transform';
+import { ValueChange, WatchExpression } from '../types';
+import { locateEvaluationError } from './codeEditor';
+
+// Expressions are evaluated as the body of a function
+const EXPRESSION_PREFIX = 'return ';
+
+export function createWatch(expression: string, name = ''): WatchExpression {
+  return { id: crypto.randomUUID(), name, expression, pinnedPos: null };
+}
+
+// The watch every workspace starts with
+export const DEFAULT_WATCH_EXPRESSION = 'node.type.name';
+
+export const defaultWatches = () => [createWatch(DEFAULT_WATCH_EXPRESSION, 'parent type')];
+
+// The variables an expression can use, for a given position
+export function expressionScope(view: EditorView, pos: number) {
+  const { state } = view;
+  const safePos = Math.max(0, Math.min(pos, state.doc.content.size));
+  const resolvedPos = state.doc.resolve(safePos);
+  return {
+    state,
+    view,
+    // Current parent node of the position
+    node: resolvedPos.node(resolvedPos.depth),
+    nodeAfter: resolvedPos.nodeAfter,
+    resolvedPos,
+    pos: safePos,
+  };
+}
+
+export type EvaluationResult =
+  | { value: unknown }
+  | { error: Error; column: number | null };
+
+// Other panels pass their own scope, usually expressionScope plus extras
+export function evaluateExpression(expression: string, view: EditorView, pos: number, scope?: Record<string, unknown>): EvaluationResult {
+  const source = `${EXPRESSION_PREFIX}${expression}`;
+  try {
+    scope ??= expressionScope(view, pos);
+    const func = new Function(...Object.keys(scope), source);
+    return { value: func(...Object.values(scope)) };
+  } catch (e: any) {
+    const error = e instanceof Error ? e : new Error(String(e));
+    // Columns are reported relative to the expression the user typed
+    const location = locateEvaluationError(error, source);
+    const column = location && location.line === 1 ? Math.max(1, location.column - EXPRESSION_PREFIX.length) : null;
+    return { error, column };
+  }
+}
+
+// A plain copy of a value that can be compared with a later one. ProseMirror
+// objects are reduced to their JSON (or, for ResolvedPos, its coordinates),
+// since a new transaction produces new but often equal instances.
+export function snapshotValue(value: unknown, maxDepth = 6): unknown {
+  const seen = new WeakSet<object>();
+
+  const walk = (val: unknown, depth: number): unknown => {
+    if (typeof val === 'function') return `ƒ ${val.name || 'anonymous'}()`;
+    if (val === null || typeof val !== 'object') return val;
+
+    if (val instanceof EditorState) {
+      return { doc: val.doc.toJSON(), selection: val.selection.toJSON(), storedMarks: val.storedMarks?.map(m => m.toJSON()) ?? null };
+    }
+    if (val instanceof ResolvedPos) {
+      return { pos: val.pos, depth: val.depth, parentOffset: val.parentOffset, parent: val.parent.type.name };
+    }
+    if (val instanceof Node || val instanceof Fragment || val instanceof Slice || val instanceof Mark || val instanceof Selection || val instanceof Step) {
+      return val.toJSON();
+    }
+
+    if (seen.has(val)) return '[Circular]';
+    if (depth >= maxDepth) return Array.isArray(val) ? `[Array(${val.length})]` : '[Object]';
+    seen.add(val);
+
+    if (Array.isArray(val)) return val.map(item => walk(item, depth + 1));
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(val)) out[key] = walk((val as Record<string, unknown>)[key], depth + 1);
+    return out;
+  };
+
+  return walk(value, 0);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object';
+
+// Structural differences between two snapshots, down to the leaves that changed
+export function diffValues(before: unknown, after: unknown, path = ''): ValueChange[] {
+  if (Object.is(before, after)) return [];
+  if (!isObject(before) || !isObject(after) || Array.isArray(before) !== Array.isArray(after)) {
+    return [{ path: path || '(value)', kind: 'changed', before, after }];
+  }
+
+  const changes: ValueChange[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of keys) {
+    const childPath = Array.isArray(after) ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+    if (!(key in after)) changes.push({ path: childPath, kind: 'removed', before: before[key] });
+    else if (!(key in before)) changes.push({ path: childPath, kind: 'added', after: after[key] });
+    else changes.push(...diffValues(before[key], after[key], childPath));
+  }
+  return changes;
+}
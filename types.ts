@@ -1,5 +1,6 @@
-import { Schema } from 'prosemirror-model';
+import { Node, Schema, Slice } from 'prosemirror-model';
 import { EditorView } from 'prosemirror-view';
+import { EditorState, Transaction } from 'prosemirror-state';
 
 export interface SchemaContext {
   Schema: typeof Schema;
@@ -16,3 +17,280 @@ export interface NodeInfo {
   isText: boolean;
   text?: string;
 }
+
+export interface TransactionRecord {
+  id: number;
+  time: number;
+  transaction: Transaction;
+  // Transactions added by plugins' appendTransaction hooks, in order
+  appended: Transaction[];
+  stateBefore: EditorState;
+  stateAfter: EditorState;
+  // What the plugins' filterTransaction and appendTransaction hooks did
+  pluginTrace: PluginTrace;
+}
+
+// A plugin written in the plugins panel. The code returns a Plugin (or an
+// array of them) and runs again whenever the schema changes.
+export interface PluginDefinition {
+  id: string;
+  name: string;
+  code: string;
+  enabled: boolean;
+}
+
+export interface PluginTrace {
+  // Name of the plugin that appended each transaction, parallel to
+  // TransactionRecord.appended
+  appendedBy: string[];
+  // Transactions that a filterTransaction hook rejected. When the dispatched
+  // transaction itself is rejected, the state doesn't change.
+  filtered: { plugin: string; transaction: Transaction }[];
+}
+
+export type InputRuleKind = 'wrapping' | 'textblock' | 'mark' | 'custom';
+
+// An input rule edited in the rules panel
+export interface InputRuleConfig {
+  id: string;
+  name: string;
+  // RegExp source, matched against the text before the cursor; should end with `$`
+  pattern: string;
+  kind: InputRuleKind;
+  // The node type (wrapping, textblock) or mark type (mark) the rule applies
+  type: string;
+  // Code of a `match => attrs` function, or empty for no attrs
+  attrs: string;
+  // Code of a `(state, match, start, end) => tr` function or a replacement
+  // string, for custom rules
+  handler: string;
+  enabled: boolean;
+}
+
+// A key binding edited in the rules panel
+export interface KeyBindingConfig {
+  id: string;
+  // In prosemirror-keymap notation, e.g. `Mod-Shift-z`
+  key: string;
+  // Code of an expression that evaluates to a command
+  command: string;
+  enabled: boolean;
+}
+
+// An input rule or key binding that just handled some input
+export interface FiredInput {
+  id: string;
+  kind: 'rule' | 'binding';
+  name: string;
+  time: number;
+}
+
+// An exception thrown by a plugin hook, caught so the editor keeps working
+export interface PluginRuntimeError {
+  plugin: string;
+  hook: string;
+  message: string;
+  time: number;
+}
+
+export type NodeViewEventKind = 'create' | 'update' | 'destroy' | 'selectNode' | 'deselectNode' | 'stopEvent' | 'ignoreMutation' | 'error';
+
+// A call into a node view from the playground's code, as the editor made it
+export interface NodeViewEvent {
+  id: number;
+  // The dispatch it happened in, counted since the code was applied. Null
+  // while the editor view was being built or torn down.
+  dispatch: number | null;
+  // Counts node views per editor view, to tell instances apart
+  instance: number;
+  type: string;
+  kind: NodeViewEventKind;
+  pos: number | null;
+  // Why update was called, the event or mutation seen, or the error
+  detail: string;
+  // What update, stopEvent and ignoreMutation returned
+  result?: boolean;
+  // An update where neither the node nor its decorations changed
+  needless?: boolean;
+  time: number;
+}
+
+export type MigrationIssueKind =
+  | 'unknown-node'
+  | 'unknown-mark'
+  | 'disallowed-mark'
+  | 'dropped-attr'
+  | 'defaulted-attr'
+  | 'invalid-attr'
+  | 'invalid-content';
+
+export interface MigrationIssue {
+  kind: MigrationIssueKind;
+  // Type names with child indices from the root, e.g. ["doc", "bullet_list[3]"]
+  path: string[];
+  message: string;
+}
+
+export interface MigrationRepair {
+  path: string[];
+  message: string;
+}
+
+// Outcome of carrying a document over into a newly applied schema
+export interface MigrationReport {
+  schema: Schema;
+  issues: MigrationIssue[];
+  // The migrated document, when the old JSON loads in the new schema as-is
+  doc: Node | null;
+  // Best-effort repair, when it doesn't
+  repairedDoc: Node | null;
+  repairs: MigrationRepair[];
+  error: string | null;
+}
+
+export type SchemaWarningRule =
+  | 'unreachable-node'
+  | 'unfillable-content'
+  | 'missing-to-dom'
+  | 'missing-parse-dom'
+  | 'shadowed-parse-rule'
+  | 'unusable-mark'
+  | 'input-rule-attr';
+
+export interface SchemaWarning {
+  rule: SchemaWarningRule;
+  message: string;
+  // 1-based line in the schema source, when the warning could be traced back
+  line: number | null;
+}
+
+// An expression in the visualizer's watch list
+export interface WatchExpression {
+  id: string;
+  name: string;
+  expression: string;
+  // Evaluated at this position, or at the visualizer's position when null
+  pinnedPos: number | null;
+}
+
+// A difference between two watched values, at a path like `$from.pos`
+export interface ValueChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+// What StepMap.mapResult reported for one position and association
+export interface MapResultInfo {
+  from: number;
+  to: number;
+  deleted: boolean;
+  deletedBefore: boolean;
+  deletedAfter: boolean;
+  deletedAcross: boolean;
+}
+
+// How one step moved a tracked position, for both associations
+export interface MappedStep {
+  step: string;
+  left: MapResultInfo;
+  right: MapResultInfo;
+}
+
+export interface MappingTrailEntry {
+  // TransactionRecord.id of the dispatch, whose appended transactions count too
+  transactionId: number;
+  steps: MappedStep[];
+}
+
+// A position pinned in the mapping view. It's mapped with assoc -1 (left)
+// and assoc 1 (right) separately, since the two drift apart at insertions.
+export interface TrackedPosition {
+  id: string;
+  label: string;
+  origin: number;
+  left: number;
+  right: number;
+  // Whether any step so far deleted the position
+  leftDeleted: boolean;
+  rightDeleted: boolean;
+  trail: MappingTrailEntry[];
+}
+
+export type PasteSource = 'paste' | 'drop' | 'fixture';
+
+// A transaction dispatched while a paste or drop was being handled
+export interface PasteTransaction {
+  transaction: Transaction;
+  stateBefore: EditorState;
+  stateAfter: EditorState;
+}
+
+// What each stage of the view's paste handling did with one paste or drop
+export interface PasteRecord {
+  id: number;
+  time: number;
+  source: PasteSource;
+  // Clipboard or drop data, null when that type was missing
+  html: string | null;
+  text: string | null;
+  // After every transformPastedHTML / transformPastedText prop; null when
+  // that path wasn't taken
+  transformedHTML: string | null;
+  transformedText: string | null;
+  // Whether the text was pasted as plain text (shift-paste or a code block)
+  plain: boolean;
+  // Dragged within the editor, so the dragged slice was used as is
+  internalDrag: boolean;
+  // The slice as parsed from the clipboard, before transformPasted
+  parsed: Slice | null;
+  // After every transformPasted prop
+  transformed: Slice | null;
+  // False when a handlePaste or handleDrop prop handled it instead
+  reachedDefault: boolean;
+  transactions: PasteTransaction[];
+}
+
+// Which panels are open and how they're set up, restored with a workspace
+export interface WorkspaceLayout {
+  schemaExpanded: boolean;
+  showPositions: boolean;
+  trackCursor: boolean;
+  toolTab: string;
+}
+
+// Everything needed to reproduce a session: what a permalink encodes
+export interface Workspace {
+  schemaCode: string;
+  // Node and Selection JSON, as produced by toJSON()
+  doc: unknown;
+  selection: unknown;
+  pos: number;
+  watches: WatchExpression[];
+  plugins: PluginDefinition[];
+  // Null when the rules and bindings suggested for the schema are used
+  inputRules: InputRuleConfig[] | null;
+  keyBindings: KeyBindingConfig[] | null;
+  nodeViewCode: string;
+  layout: WorkspaceLayout;
+}
+
+// A workspace saved in the local library (IndexedDB)
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  notes: string;
+  schemaCode: string;
+  // Node JSON of the document
+  doc: unknown;
+  // Auto snapshots are taken before each schema apply or reset
+  auto: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LineDiff {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}